@@ -18,33 +18,49 @@ import {
   Player, // Added Player
   PlayerUIEvent, // Added PlayerUIEvent
   SceneUI, // Import SceneUI for health bar
-  BaseEntityControllerEvent,
   WorldEvent, // Import WorldEvent for tick
 } from 'hytopia';
 
-import CyberBladeEntity from './src/entities/weapon/weapon-entity';
+import { cleanupPlayer, giveStarterWeapon, handleEquipmentUIEvent } from './src/player/player-equipment';
+import { handleArmorUIEvent, registerArmorDurability } from './src/player/player-armor';
+import { handleShieldUIEvent } from './src/player/player-shield';
+import { setPlayerHealthBar } from './src/player/player-health';
+import { sendInventoryUpdate } from './src/ui/handlers/inventory-ui-handler';
 
 // Import our world generation code
 import { generateWorldMap } from './src/world/world-map';
 import { PLAYER_CONFIG } from './src/constants/world-config';
-import { setupPlayer, playerStates } from './src/player/playerController'; // Import setupPlayer and playerStates
+import { setupPlayer, playerStates, getPlayerMaxHealth, isPlayerAdmin } from './src/player/playerController'; // Import setupPlayer, playerStates, max health and the admin check
 import { CraftingManager } from './src/crafting/crafting-manager'; // Import CraftingManager
 
 import { spawnMutatedPlants } from './src/world/entities/spawn-mutated-plants';
 import { spawnScrapMetal } from './src/world/entities/spawn-scrap-metal';
-import { CustomPlayerController } from './src/player/custom-player-controller';
-import { spawnEnemiesInArea } from './src/world/entities/spawn-enemies';
+import { InputAction, InputActionManager, isInputAction } from './src/player/input-actions';
+import { registerPlayerActionHandlers } from './src/player/player-actions';
+import { spawnEnemyAt } from './src/world/entities/spawn-enemies';
+import { getAllEnemies } from './src/entities/enemies/enemy-registry';
 // Import Block Health Manager
 import { BlockHealthManager } from './src/world/block-health-manager';
+import { StatusEffectManager } from './src/combat/status-effect-manager';
+import { PoiseManager } from './src/combat/poise-manager';
+import { ComboManager } from './src/combat/combo-manager';
+import { FactionManager } from './src/combat/faction-manager';
+import { PositionalBonusManager } from './src/combat/positional-bonuses';
+import { ThreatManager } from './src/combat/threat-manager';
+import { WeaponResourceManager } from './src/combat/weapon-resources';
+import { BlockManager } from './src/combat/block-manager';
+import { initCombatSystem } from './src/combat/combatSystem';
+import { DamageNumberPool } from './src/ui/damage-numbers';
+import { CombatLog } from './src/ui/combat-log';
+import { LatencyTracker } from './src/networking/latency-tracker';
+import { LagCompensation } from './src/networking/lag-compensation';
+import { PathfindingManager } from './src/ai/pathfinding/pathfinding-manager';
+import { PerceptionManager } from './src/ai/perception/perception-manager';
+import { RaidDirector, RaidPhase } from './src/world/raid-director';
 
 // We'll keep the map import as a fallback
 import worldMap from './assets/map.json';
 
-/**
- * Map to store player health bar SceneUI instances
- */
-const playerHealthBars = new Map();
-
 // Track which players have inventory open
 const inventoryOpenPlayers = new Set<string>();
 
@@ -67,6 +83,127 @@ startServer(world => {
     console.error("[Root Index] ERROR during BlockHealthManager init:", error);
   }
   
+  // Initialize factions first so disallowed damage is dropped before any other hook runs
+  try {
+    FactionManager.instance.initialize();
+  } catch (error) {
+    console.error("[Root Index] ERROR during FactionManager init:", error);
+  }
+
+  // Initialize timed status effects (burn, stun, buffs)
+  try {
+    StatusEffectManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during StatusEffectManager init:", error);
+  }
+
+  // Initialize poise and stagger (after status effects, which staggers rely on)
+  try {
+    PoiseManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during PoiseManager init:", error);
+  }
+
+  // Initialize shield blocking and parrying (after poise, which parries stagger through)
+  try {
+    BlockManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during BlockManager init:", error);
+  }
+
+  // Initialize combo chains (damage bonus for hits in quick succession)
+  try {
+    ComboManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during ComboManager init:", error);
+  }
+
+  // Initialize positional bonuses (flanking, elevation, front line)
+  try {
+    PositionalBonusManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during PositionalBonusManager init:", error);
+  }
+
+  // Initialize threat tables (enemy target selection)
+  try {
+    ThreatManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during ThreatManager init:", error);
+  }
+
+  // Initialize weapon heat and energy (cooling, HUD meters)
+  try {
+    WeaponResourceManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during WeaponResourceManager init:", error);
+  }
+
+  // Initialize enemy pathfinding (budgeted A* over the chunk lattice)
+  try {
+    PathfindingManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during PathfindingManager init:", error);
+  }
+
+  // Initialize enemy perception (sight, hearing, alerts); feeds the threat tables
+  try {
+    PerceptionManager.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during PerceptionManager init:", error);
+  }
+
+  // Initialize latency measurement and lag-compensated hit validation
+  try {
+    LatencyTracker.instance.initialize(world);
+    LagCompensation.instance.initialize(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during lag compensation init:", error);
+  }
+
+  // Initialize hit feedback: floating damage numbers and the per-player combat log
+  try {
+    DamageNumberPool.instance.initialize(world);
+    CombatLog.instance.initialize();
+  } catch (error) {
+    console.error("[Root Index] ERROR during combat feedback init:", error);
+  }
+
+  // Initialize combat (collision-based momentum damage)
+  try {
+    initCombatSystem(world);
+  } catch (error) {
+    console.error("[Root Index] ERROR during combat system init:", error);
+  }
+  
+  // Route named input actions (attack, dash, interact, ...) to gameplay handlers
+  registerPlayerActionHandlers();
+
+  // Worn armor loses durability as it absorbs hits
+  registerArmorDurability();
+
+  // Inventory UI toggle
+  InputActionManager.instance.on(InputAction.TOGGLE_INVENTORY, ({ entity }) => {
+    const player = entity.player;
+    if (inventoryOpenPlayers.has(player.id)) {
+      player.ui.load('ui/index.html');
+      inventoryOpenPlayers.delete(player.id);
+    } else {
+      player.ui.load('ui/inventory-ui.html');
+      inventoryOpenPlayers.add(player.id);
+
+      // Send inventory and equipment data
+      sendInventoryUpdate(player);
+    }
+  });
+
+  // Debug wireframe toggle
+  InputActionManager.instance.on(InputAction.TOGGLE_DEBUG, ({ entity }) => {
+    debugEnabled = !debugEnabled;
+    world.simulation.enableDebugRendering(debugEnabled);
+    world.chatManager.sendPlayerMessage(entity.player, debugEnabled ? 'Debug rendering ON' : 'Debug rendering OFF', '00FFFF');
+  });
+
   // Use our programmatic world generation instead of loading from JSON
   try {
     console.log('Generating world map...');
@@ -105,19 +242,11 @@ startServer(world => {
     console.error("[Root Index] ERROR during scrap metal spawn:", error);
   }
 
-  // Spawn some test enemies
+  // Initialize the raid director (enemy waves against the house); the raid starts when a player joins
   try {
-    console.log("[Root Index] Spawning test enemies...");
-    spawnEnemiesInArea(world, {
-      min: { x: 20, y: 0, z: 20 },
-      max: { x: 100, y: 0, z: 100 },
-    }, 3);
-    console.log("[Root Index] Test enemies spawned.");
-
-    // AI logic is now handled by the EnemyController attached to each enemy's TICK event
-    // Removed world tick listener for AI
+    RaidDirector.instance.initialize(world);
   } catch (error) {
-    console.error("[Root Index] ERROR during enemy spawn:", error);
+    console.error("[Root Index] ERROR during RaidDirector init:", error);
   }
 
   /**
@@ -131,120 +260,66 @@ startServer(world => {
     // Load our game UI for this player
     player.ui.load('ui/index.html');
 
+    // The first player to join leads and starts the raid
+    RaidDirector.instance.addPlayer(player);
+    if (RaidDirector.instance.getStatus().phase === RaidPhase.WAITING) {
+      RaidDirector.instance.start();
+    }
+
     // Get the player's entity (assumes one main entity per player)
     const playerEntities = world.entityManager.getPlayerEntitiesByPlayer(player);
     const playerEntity = playerEntities[0];
 
     if (playerEntity) {
 
-      // Create and attach a sword weapon entity
-      const sword = new CyberBladeEntity();
-      sword.spawn(
-        world,
-        { x: 0, y: 0, z: 0 },
-        { x: 0, y: 0, z: 0, w: 1 }
-      );
-      sword.equip(playerEntity);
-
-      // Hook up attack input to weapon
-      const controller = playerEntity.controller;
-      if (controller) {
-        controller.on(BaseEntityControllerEvent.TICK_WITH_PLAYER_INPUT, ({ input }) => {
-          if (input.ml) {
-            sword.attack();
-            input.ml = false;
-          }
-        });
-      }
+      // Give and equip the starter weapon (attacks are handled by CyberCrawlerController)
+      giveStarterWeapon(playerEntity);
 
       const playerHealthBar = new SceneUI({
         templateId: 'player-healthbar',
         attachedToEntity: playerEntity,
         offset: { x: 0, y: 2, z: 0 },
         state: {
-          health: 100,
-          maxHealth: 100
+          health: Math.ceil(playerStates.get(player.id)?.health ?? getPlayerMaxHealth()),
+          maxHealth: getPlayerMaxHealth()
         }
       });
       playerHealthBar.load(world);
-      playerHealthBars.set(player.id, playerHealthBar);
-
-      // Attach health bar reference to player entity for easy access
-      (playerEntity as any).healthBar = playerHealthBar;
-
-      // Add inventory toggle on "V" key press without replacing controller
-      if (controller) {
-        controller.on(BaseEntityControllerEvent.TICK_WITH_PLAYER_INPUT, async ({ input }) => {
-          // Inventory UI toggle
-          if (input.v) {
-            input.v = false; // consume key press
-            if (inventoryOpenPlayers.has(player.id)) {
-              player.ui.load('ui/index.html');
-              inventoryOpenPlayers.delete(player.id);
-            } else {
-              player.ui.load('ui/inventory-ui.html');
-              inventoryOpenPlayers.add(player.id);
-
-              // Send inventory data
-              try {
-                const playerState = playerStates.get(player.id);
-                const inventory = playerState?.inventory || [];
-
-                const { getResourceById } = await import('./src/crafting/resources/resource-database.js');
-
-                const inventoryMap = new Map();
-                inventory.forEach(item => {
-                  const existing = inventoryMap.get(item.itemId);
-                  if (existing) {
-                    existing.quantity += item.quantity;
-                  } else {
-                    const resource = getResourceById(item.itemId);
-                    inventoryMap.set(item.itemId, {
-                      name: resource?.name || item.itemId,
-                      quantity: item.quantity,
-                      iconReference: resource?.iconReference || '',
-                    });
-                  }
-                });
-
-                const { prepareInventoryUIData } = await import('./src/ui/handlers/inventory-ui-handler.js');
-                const uiData = prepareInventoryUIData(inventoryMap);
-
-                player.ui.sendData({ type: 'update-inventory', payload: uiData });
-              } catch (error) {
-                console.error('Error sending inventory data:', error);
-              }
-            }
-          }
-
-          // Debug wireframe toggle on "C" key press
-          if (input.c) {
-            debugEnabled = !debugEnabled;
-            world.simulation.enableDebugRendering(debugEnabled);
-            world.chatManager.sendPlayerMessage(player, debugEnabled ? 'Debug rendering ON' : 'Debug rendering OFF', '00FFFF');
-            input.c = false; // Prevent rapid toggling
-          }
-        });
-      }
-
-      // TODO: When the player's health changes, update the Scene UI:
-      // playerHealthBar.setState({ health: newHealth });
+      // Damage (e.g., enemy attacks), healing and respawns update it via refreshPlayerHealthBar()
+      setPlayerHealthBar(player.id, playerHealthBar);
     } else {
       console.warn(`No entity found for player ${player.id}, cannot attach health bar`);
     }
 
-    // TODO: When the player's health changes, update the Scene UI:
-    // playerHealthBar.setState({ health: newHealth });
-
     // Setup listener for UI events *after* the UI has loaded
     if (player.ui) {
         // Use LOAD event name based on TS suggestion
+        // Refill the combat log panel, weapon meters, shield meter and raid status every time the HUD is (re)loaded
+        player.ui.on(PlayerUIEvent.LOAD, () => {
+             CombatLog.instance.sendHistory(player);
+             RaidDirector.instance.refreshHud(player);
+             if (playerEntity) {
+               WeaponResourceManager.instance.refreshHud(playerEntity);
+               BlockManager.instance.refreshHud(playerEntity);
+             }
+        });
+
         player.ui.once(PlayerUIEvent.LOAD, () => {
              console.log(`UI loaded for player ${player.id}. Registering DATA listener.`);
              player.ui.on(PlayerUIEvent.DATA, ({ data }) => {
                  // Route UI events to the CraftingManager
                  CraftingManager.instance.handlePlayerUIEvent(player, data);
 
+                 // Latency ping replies
+                 LatencyTracker.instance.handleUIEvent(player, data);
+
+                 // Equip/unequip weapons and armor from the inventory UI
+                 if (playerEntity) {
+                   handleEquipmentUIEvent(player, playerEntity, data);
+                   handleArmorUIEvent(player, playerEntity, data);
+                   handleShieldUIEvent(player, playerEntity, data);
+                 }
+
                  // Handle inventory close request
                  if (data.type === 'close-inventory-request') {
                    player.ui.load('ui/index.html');
@@ -273,7 +348,166 @@ startServer(world => {
    * Handle player leaving the game
    */
   world.on(PlayerEvent.LEFT_WORLD, ({ player }) => {
-    world.entityManager.getPlayerEntitiesByPlayer(player).forEach(entity => entity.despawn());
+    world.entityManager.getPlayerEntitiesByPlayer(player).forEach(entity => {
+      ThreatManager.instance.removeEntity(entity);
+      WeaponResourceManager.instance.removeWielder(entity);
+      BlockManager.instance.removeEntity(entity);
+      entity.despawn();
+    });
+    setPlayerHealthBar(player.id, undefined);
+    cleanupPlayer(player.id);
+    InputActionManager.instance.removePlayer(player.id);
+    FactionManager.instance.removePlayer(player.id);
+    CombatLog.instance.removePlayer(player.id);
+    LatencyTracker.instance.removePlayer(player.id);
+    RaidDirector.instance.removePlayer(player.id);
+    inventoryOpenPlayers.delete(player.id);
+  });
+
+  /**
+   * PvP command - toggle server-wide PvP (e.g., /pvp on).
+   * Only the raid leader and admins may toggle it; anyone may see the setting (/pvp)
+   */
+  world.chatManager.registerCommand('/pvp', (player, args) => {
+    const setting = args[0]?.toLowerCase();
+    if ((setting === 'on' || setting === 'off') && !RaidDirector.instance.canControl(player)) {
+      world.chatManager.sendPlayerMessage(player, 'Only the raid leader can change PvP', 'FF0000');
+    } else if (setting === 'on' || setting === 'off') {
+      FactionManager.instance.setPvpEnabled(setting === 'on');
+      world.chatManager.sendBroadcastMessage(`PvP is now ${setting.toUpperCase()}`, 'FF6600');
+    } else {
+      world.chatManager.sendPlayerMessage(player, `PvP is ${FactionManager.instance.isPvpEnabled() ? 'ON' : 'OFF'}. Usage: /pvp <on|off>`, 'FFFF00');
+    }
+  });
+
+  /**
+   * Team command - join a team (/team red) or leave it (/team leave)
+   */
+  world.chatManager.registerCommand('/team', (player, args) => {
+    const team = args[0]?.toLowerCase();
+    if (!team) {
+      const current = FactionManager.instance.getPlayerTeam(player.id);
+      world.chatManager.sendPlayerMessage(player, current ? `You are on team ${current}` : 'You are not on a team. Usage: /team <name|leave>', 'FFFF00');
+      return;
+    }
+
+    FactionManager.instance.setPlayerTeam(player.id, team === 'leave' ? null : team);
+    world.chatManager.sendPlayerMessage(player, team === 'leave' ? 'You left your team' : `You joined team ${team}`, '00FF00');
+  });
+
+  /**
+   * Bind command - rebind an input action (e.g., /bind dash f)
+   */
+  world.chatManager.registerCommand('/bind', (player, args) => {
+    const [action, key] = args;
+    if (!action || !key || !isInputAction(action)) {
+      world.chatManager.sendPlayerMessage(player, `Usage: /bind <action> <key>. Actions: ${Object.values(InputAction).join(', ')}`, 'FFFF00');
+      return;
+    }
+
+    if (InputActionManager.instance.rebind(player.id, action, key.toLowerCase())) {
+      world.chatManager.sendPlayerMessage(player, `Bound ${action} to ${key.toLowerCase()}`, '00FF00');
+    } else {
+      world.chatManager.sendPlayerMessage(player, `Cannot bind to key "${key}"`, 'FF0000');
+    }
+  });
+
+  /**
+   * Bindings command - list current input bindings, or reset them with /bindings reset
+   */
+  world.chatManager.registerCommand('/bindings', (player, args) => {
+    if (args[0] === 'reset') {
+      InputActionManager.instance.resetBindings(player.id);
+    }
+
+    const bindings = InputActionManager.instance.getBindings(player.id);
+    const lines = Object.entries(bindings).map(([action, key]) => `${action}: ${key}`);
+    world.chatManager.sendPlayerMessage(player, lines.join(', '), '00FFFF');
+  });
+
+  /**
+   * Latency command - show the measured latency, or fake one to test lag compensation (/latency 200, /latency off).
+   * Only admins may fake a latency; anyone may see theirs (/latency)
+   */
+  world.chatManager.registerCommand('/latency', (player, args) => {
+    const setting = args[0]?.toLowerCase();
+    if (setting !== undefined && !isPlayerAdmin(player)) {
+      world.chatManager.sendPlayerMessage(player, 'Only admins can set a synthetic latency', 'FF0000');
+      return;
+    }
+
+    if (setting === 'off') {
+      LatencyTracker.instance.setSyntheticLatency(player, null);
+    } else if (setting !== undefined) {
+      const latencyMs = Number(setting);
+      if (!Number.isFinite(latencyMs) || latencyMs < 0) {
+        world.chatManager.sendPlayerMessage(player, 'Usage: /latency [ms|off]', 'FFFF00');
+        return;
+      }
+      LatencyTracker.instance.setSyntheticLatency(player, latencyMs);
+    }
+
+    const measured = LatencyTracker.instance.getMeasuredLatency(player.id);
+    const used = LatencyTracker.instance.getLatency(player.id);
+    world.chatManager.sendPlayerMessage(
+      player,
+      `Latency: ${used.toFixed(0)}ms used, ${measured === undefined ? 'not measured yet' : `${measured.toFixed(0)}ms measured`}`,
+      '00FFFF'
+    );
+  });
+
+  /**
+   * Spawn command - spawn an enemy archetype a few blocks in front of the player (e.g., /spawn stalker).
+   * Admins only
+   */
+  world.chatManager.registerCommand('/spawn', (player, args) => {
+    if (!isPlayerAdmin(player)) {
+      world.chatManager.sendPlayerMessage(player, 'Only admins can spawn enemies', 'FF0000');
+      return;
+    }
+
+    const archetypes = getAllEnemies().map(definition => definition.id);
+    const archetypeId = args[0]?.toLowerCase();
+    const playerEntity = world.entityManager.getPlayerEntitiesByPlayer(player)[0];
+    if (!archetypeId || !playerEntity) {
+      world.chatManager.sendPlayerMessage(player, `Usage: /spawn <archetype>. Archetypes: ${archetypes.join(', ')}`, 'FFFF00');
+      return;
+    }
+
+    const facing = player.camera.facingDirection;
+    const position = {
+      x: playerEntity.position.x + facing.x * 4,
+      y: playerEntity.position.y + 1,
+      z: playerEntity.position.z + facing.z * 4,
+    };
+    if (spawnEnemyAt(world, position, archetypeId)) {
+      world.chatManager.sendPlayerMessage(player, `Spawned ${archetypeId}`, '00FF00');
+    } else {
+      world.chatManager.sendPlayerMessage(player, `Unknown archetype "${archetypeId}". Archetypes: ${archetypes.join(', ')}`, 'FF0000');
+    }
+  });
+
+  /**
+   * Raid command - restart the raid (/raid start), stop it (/raid stop) or start the next wave now (/raid skip).
+   * Only the raid leader and admins may use these; anyone may see the status (/raid)
+   */
+  world.chatManager.registerCommand('/raid', (player, args) => {
+    const command = args[0]?.toLowerCase();
+    if ((command === 'start' || command === 'stop' || command === 'skip') && !RaidDirector.instance.canControl(player)) {
+      world.chatManager.sendPlayerMessage(player, 'Only the raid leader can do that', 'FF0000');
+    } else if (command === 'start') {
+      RaidDirector.instance.start();
+    } else if (command === 'stop') {
+      RaidDirector.instance.stop();
+      world.chatManager.sendBroadcastMessage('The raid has been called off', 'FFAA00');
+    } else if (command === 'skip') {
+      if (!RaidDirector.instance.skipBuildPhase()) {
+        world.chatManager.sendPlayerMessage(player, 'There is no build phase to skip', 'FF0000');
+      }
+    } else {
+      const status = RaidDirector.instance.getStatus();
+      world.chatManager.sendPlayerMessage(player, `Raid: ${status.phase}, wave ${status.wave}/${status.totalWaves}. Usage: /raid <start|stop|skip>`, 'FFFF00');
+    }
   });
 
   /**
@@ -0,0 +1,199 @@
+import { describe, expect, test } from 'bun:test';
+import { World } from 'hytopia';
+
+import {
+  Action,
+  BehaviorContext,
+  BehaviorNode,
+  Blackboard,
+  Condition,
+  Cooldown,
+  Inverter,
+  NodeStatus,
+  Selector,
+  Sequence,
+  Succeeder,
+} from './behavior-tree';
+import {
+  buildBehaviorTree,
+  registerBehaviorLeaf,
+  validateBehaviorTreeSpec,
+} from './tree-builder';
+
+interface TestEntity {
+  log: string[];
+}
+
+function context(now: number = 0, entity: TestEntity = { log: [] }): BehaviorContext<TestEntity> {
+  return { entity, world: {} as World, blackboard: new Blackboard(), now, deltaTimeMs: 50 };
+}
+
+/** A leaf that records that it ran and returns a fixed status. */
+function leaf(name: string, status: NodeStatus): BehaviorNode<TestEntity> {
+  return new Action<TestEntity>(({ entity }) => {
+    entity.log.push(name);
+    return status;
+  });
+}
+
+describe('composites', () => {
+  test('Sequence runs children until one does not succeed', () => {
+    const ctx = context();
+    const sequence = new Sequence([leaf('a', NodeStatus.SUCCESS), leaf('b', NodeStatus.RUNNING), leaf('c', NodeStatus.SUCCESS)]);
+
+    expect(sequence.tick(ctx)).toBe(NodeStatus.RUNNING);
+    expect(ctx.entity.log).toEqual(['a', 'b']);
+  });
+
+  test('Sequence succeeds when every child succeeds', () => {
+    const sequence = new Sequence([leaf('a', NodeStatus.SUCCESS), leaf('b', NodeStatus.SUCCESS)]);
+    expect(sequence.tick(context())).toBe(NodeStatus.SUCCESS);
+  });
+
+  test('Selector runs children until one does not fail', () => {
+    const ctx = context();
+    const selector = new Selector([leaf('a', NodeStatus.FAILURE), leaf('b', NodeStatus.SUCCESS), leaf('c', NodeStatus.SUCCESS)]);
+
+    expect(selector.tick(ctx)).toBe(NodeStatus.SUCCESS);
+    expect(ctx.entity.log).toEqual(['a', 'b']);
+  });
+
+  test('Selector fails when every child fails', () => {
+    const selector = new Selector([leaf('a', NodeStatus.FAILURE), leaf('b', NodeStatus.FAILURE)]);
+    expect(selector.tick(context())).toBe(NodeStatus.FAILURE);
+  });
+
+  test('higher-priority branches take over as soon as their condition holds', () => {
+    let stunned = false;
+    const tree = new Selector<TestEntity>([
+      new Sequence([new Condition(() => stunned), leaf('stunned', NodeStatus.RUNNING)]),
+      leaf('chase', NodeStatus.RUNNING),
+    ]);
+    const ctx = context();
+
+    tree.tick(ctx);
+    stunned = true;
+    tree.tick(ctx);
+    expect(ctx.entity.log).toEqual(['chase', 'stunned']);
+  });
+});
+
+describe('decorators', () => {
+  test('Inverter swaps success and failure and passes running through', () => {
+    expect(new Inverter(leaf('a', NodeStatus.SUCCESS)).tick(context())).toBe(NodeStatus.FAILURE);
+    expect(new Inverter(leaf('a', NodeStatus.FAILURE)).tick(context())).toBe(NodeStatus.SUCCESS);
+    expect(new Inverter(leaf('a', NodeStatus.RUNNING)).tick(context())).toBe(NodeStatus.RUNNING);
+  });
+
+  test('Succeeder turns failure into success only', () => {
+    expect(new Succeeder(leaf('a', NodeStatus.FAILURE)).tick(context())).toBe(NodeStatus.SUCCESS);
+    expect(new Succeeder(leaf('a', NodeStatus.RUNNING)).tick(context())).toBe(NodeStatus.RUNNING);
+  });
+
+  test('Cooldown fails without ticking its child until the cooldown ends', () => {
+    const entity: TestEntity = { log: [] };
+    const blackboard = new Blackboard();
+    const cooldown = new Cooldown(leaf('attack', NodeStatus.SUCCESS), 1000);
+    const at = (now: number) => ({ ...context(now, entity), blackboard });
+
+    expect(cooldown.tick(at(0))).toBe(NodeStatus.SUCCESS);
+    expect(cooldown.tick(at(999))).toBe(NodeStatus.FAILURE);
+    expect(cooldown.tick(at(1000))).toBe(NodeStatus.SUCCESS);
+    expect(entity.log).toEqual(['attack', 'attack']);
+  });
+
+  test('Cooldown only starts after the child succeeded', () => {
+    let status = NodeStatus.RUNNING;
+    const blackboard = new Blackboard();
+    const cooldown = new Cooldown<TestEntity>(new Action(() => status), 1000);
+    const at = (now: number) => ({ ...context(now), blackboard });
+
+    expect(cooldown.tick(at(0))).toBe(NodeStatus.RUNNING);
+    status = NodeStatus.SUCCESS;
+    expect(cooldown.tick(at(100))).toBe(NodeStatus.SUCCESS);
+    expect(cooldown.tick(at(500))).toBe(NodeStatus.FAILURE);
+  });
+
+  test('Cooldowns are tracked per entity through the blackboard', () => {
+    const cooldown = new Cooldown(leaf('attack', NodeStatus.SUCCESS), 1000);
+    const first = context(0);
+    const second = context(0);
+
+    expect(cooldown.tick(first)).toBe(NodeStatus.SUCCESS);
+    expect(cooldown.tick(second)).toBe(NodeStatus.SUCCESS);
+    expect(cooldown.tick({ ...first, now: 10 })).toBe(NodeStatus.FAILURE);
+  });
+});
+
+describe('Blackboard', () => {
+  test('stores, creates and deletes values', () => {
+    const blackboard = new Blackboard();
+    expect(blackboard.getOrCreate('path', () => [1, 2])).toEqual([1, 2]);
+    expect(blackboard.getOrCreate('path', () => [3])).toEqual([1, 2]);
+
+    blackboard.set('target', 7);
+    expect(blackboard.get<number>('target')).toBe(7);
+    blackboard.delete('target');
+    expect(blackboard.has('target')).toBe(false);
+  });
+});
+
+describe('tree builder', () => {
+  registerBehaviorLeaf<TestEntity>('test_log', args => leaf(String(args.name), NodeStatus.SUCCESS));
+  registerBehaviorLeaf<TestEntity>('test_fail', () => leaf('fail', NodeStatus.FAILURE));
+
+  test('builds composites, decorators and leaves from a spec', () => {
+    const tree = buildBehaviorTree<TestEntity>({
+      type: 'selector',
+      children: [
+        { type: 'sequence', children: [{ type: 'leaf', name: 'test_fail' }, { type: 'leaf', name: 'test_log', args: { name: 'skipped' } }] },
+        { type: 'inverter', child: { type: 'inverter', child: { type: 'leaf', name: 'test_log', args: { name: 'ran' } } } },
+      ],
+    });
+    const ctx = context();
+
+    expect(tree.tick(ctx)).toBe(NodeStatus.SUCCESS);
+    expect(ctx.entity.log).toEqual(['fail', 'ran']);
+  });
+
+  test('builds cooldowns with their duration', () => {
+    const tree = buildBehaviorTree<TestEntity>({ type: 'cooldown', ms: 500, child: { type: 'leaf', name: 'test_log', args: { name: 'x' } } });
+    const ctx = context(0);
+
+    expect(tree.tick(ctx)).toBe(NodeStatus.SUCCESS);
+    expect(tree.tick({ ...ctx, now: 499 })).toBe(NodeStatus.FAILURE);
+    expect(tree.tick({ ...ctx, now: 500 })).toBe(NodeStatus.SUCCESS);
+  });
+
+  test('names the leaf and its location when a leaf is not registered', () => {
+    expect(() => buildBehaviorTree<TestEntity>({
+      type: 'selector',
+      children: [{ type: 'leaf', name: 'test_log' }, { type: 'inverter', child: { type: 'leaf', name: 'missing' } }],
+    })).toThrow('root.children[1].child: unknown leaf "missing"');
+  });
+
+  test('accepts a valid spec', () => {
+    expect(validateBehaviorTreeSpec({
+      type: 'selector',
+      children: [
+        { type: 'cooldown', ms: 0, child: { type: 'leaf', name: 'test_log' } },
+        { type: 'succeeder', child: { type: 'leaf', name: 'test_fail', args: {} } },
+      ],
+    })).toBeUndefined();
+  });
+
+  test('reports the location of the first problem', () => {
+    expect(validateBehaviorTreeSpec(null)).toBe('root: not an object');
+    expect(validateBehaviorTreeSpec('sequence')).toBe('root: not an object');
+    expect(validateBehaviorTreeSpec({ type: 'parallel' })).toBe('root: unknown node type "parallel"');
+    expect(validateBehaviorTreeSpec({ type: 'sequence', children: [] })).toBe('root: sequence needs children');
+    expect(validateBehaviorTreeSpec({ type: 'cooldown', ms: -1, child: { type: 'leaf', name: 'test_log' } }))
+      .toBe('root: cooldown needs ms >= 0');
+    expect(validateBehaviorTreeSpec({ type: 'inverter' })).toBe('root.child: not an object');
+    expect(validateBehaviorTreeSpec({
+      type: 'selector',
+      children: [{ type: 'leaf', name: 'test_log' }, { type: 'sequence', children: [{ type: 'leaf', name: 'missing' }] }],
+    })).toBe('root.children[1].children[0]: unknown leaf "missing"');
+    expect(validateBehaviorTreeSpec({ type: 'leaf', name: 'test_log', args: 3 })).toBe('root: args must be an object');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Behavior Tree - Reusable behavior tree nodes
+ *
+ * Trees are ticked from the root every AI tick and re-evaluated top to bottom, so
+ * higher-priority branches (e.g., "stunned", "fleeing") take over as soon as
+ * their conditions hold. Nodes keep no per-entity state themselves: anything that
+ * must survive between ticks (targets, cooldowns, navigation) lives in the entity's
+ * Blackboard. One tree instance can therefore drive any number of entities.
+ *
+ * Node types:
+ * - Composites: Sequence (all children in order, stops at the first that does not
+ *   succeed) and Selector (first child that does not fail)
+ * - Decorators: Inverter, Succeeder and Cooldown (fails for a while after its child succeeded)
+ * - Leaves: Condition (predicate -> SUCCESS/FAILURE) and Action (any function returning a status)
+ *
+ * @author CyberCrawler Team
+ */
+
+import { World } from 'hytopia';
+
+export enum NodeStatus {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+  RUNNING = 'running',
+}
+
+/**
+ * Per-entity memory shared by all nodes of a tree.
+ */
+export class Blackboard {
+  private values: Map<string, unknown> = new Map();
+
+  public get<T>(key: string): T | undefined {
+    return this.values.get(key) as T | undefined;
+  }
+
+  public set<T>(key: string, value: T): void {
+    this.values.set(key, value);
+  }
+
+  public has(key: string): boolean {
+    return this.values.has(key);
+  }
+
+  public delete(key: string): void {
+    this.values.delete(key);
+  }
+
+  /**
+   * Gets a value, creating and storing it first if it is missing.
+   */
+  public getOrCreate<T>(key: string, create: () => T): T {
+    if (!this.values.has(key)) this.values.set(key, create());
+    return this.values.get(key) as T;
+  }
+}
+
+/**
+ * Everything a node sees when it is ticked.
+ */
+export interface BehaviorContext<E> {
+  entity: E;
+  world: World;
+  blackboard: Blackboard;
+  now: number;              // Date.now() at the start of the tick
+  deltaTimeMs: number;
+}
+
+let nextNodeId = 1;
+
+export abstract class BehaviorNode<E> {
+  public readonly id: number = nextNodeId++;   // Namespaces per-node blackboard state
+
+  public abstract tick(context: BehaviorContext<E>): NodeStatus;
+}
+
+// ====================================
+// Composites
+// ====================================
+
+/**
+ * Ticks children in order while they succeed. Returns the first non-success status,
+ * or SUCCESS when every child succeeded.
+ */
+export class Sequence<E> extends BehaviorNode<E> {
+  constructor(private readonly children: BehaviorNode<E>[]) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status !== NodeStatus.SUCCESS) return status;
+    }
+    return NodeStatus.SUCCESS;
+  }
+}
+
+/**
+ * Ticks children in order until one does not fail, and returns its status.
+ * Returns FAILURE when every child failed.
+ */
+export class Selector<E> extends BehaviorNode<E> {
+  constructor(private readonly children: BehaviorNode<E>[]) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    for (const child of this.children) {
+      const status = child.tick(context);
+      if (status !== NodeStatus.FAILURE) return status;
+    }
+    return NodeStatus.FAILURE;
+  }
+}
+
+// ====================================
+// Decorators
+// ====================================
+
+/**
+ * Swaps SUCCESS and FAILURE; RUNNING passes through.
+ */
+export class Inverter<E> extends BehaviorNode<E> {
+  constructor(private readonly child: BehaviorNode<E>) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    const status = this.child.tick(context);
+    if (status === NodeStatus.SUCCESS) return NodeStatus.FAILURE;
+    if (status === NodeStatus.FAILURE) return NodeStatus.SUCCESS;
+    return status;
+  }
+}
+
+/**
+ * Turns FAILURE into SUCCESS (e.g., for optional steps in a sequence).
+ */
+export class Succeeder<E> extends BehaviorNode<E> {
+  constructor(private readonly child: BehaviorNode<E>) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    const status = this.child.tick(context);
+    return status === NodeStatus.FAILURE ? NodeStatus.SUCCESS : status;
+  }
+}
+
+/**
+ * Fails without ticking its child for `cooldownMs` after the child last succeeded.
+ * The cooldown is tracked per entity on the blackboard.
+ */
+export class Cooldown<E> extends BehaviorNode<E> {
+  constructor(private readonly child: BehaviorNode<E>, private readonly cooldownMs: number) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    const key = `cooldown:${this.id}`;
+    const readyAt = context.blackboard.get<number>(key) ?? 0;
+    if (context.now < readyAt) return NodeStatus.FAILURE;
+
+    const status = this.child.tick(context);
+    if (status === NodeStatus.SUCCESS) {
+      context.blackboard.set(key, context.now + this.cooldownMs);
+    }
+    return status;
+  }
+}
+
+// ====================================
+// Leaves
+// ====================================
+
+/**
+ * SUCCESS when the predicate holds, FAILURE otherwise.
+ */
+export class Condition<E> extends BehaviorNode<E> {
+  constructor(private readonly predicate: (context: BehaviorContext<E>) => boolean) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    return this.predicate(context) ? NodeStatus.SUCCESS : NodeStatus.FAILURE;
+  }
+}
+
+/**
+ * Runs a function that does the work and reports its status.
+ */
+export class Action<E> extends BehaviorNode<E> {
+  constructor(private readonly run: (context: BehaviorContext<E>) => NodeStatus) {
+    super();
+  }
+
+  public tick(context: BehaviorContext<E>): NodeStatus {
+    return this.run(context);
+  }
+}
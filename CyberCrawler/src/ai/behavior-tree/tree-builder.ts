@@ -0,0 +1,115 @@
+/**
+ * Tree Builder - Behavior trees from data
+ *
+ * Builds behavior trees from plain JSON specs, so archetypes can compose their own
+ * AI without code. Composites and decorators are built in; leaves are looked up by
+ * name in a registry that game code fills with registerBehaviorLeaf().
+ *
+ * Spec shapes:
+ *   { "type": "sequence" | "selector", "children": [ ...specs ] }
+ *   { "type": "inverter" | "succeeder", "child": spec }
+ *   { "type": "cooldown", "ms": 1000, "child": spec }
+ *   { "type": "leaf", "name": "move_to", "args": { "goal": "house" } }
+ *
+ * Dependencies:
+ * - Behavior tree nodes from ./behavior-tree
+ *
+ * @author CyberCrawler Team
+ */
+
+import { BehaviorNode, Cooldown, Inverter, Selector, Sequence, Succeeder } from './behavior-tree';
+
+export type BehaviorTreeSpec =
+  | { type: 'sequence' | 'selector'; children: BehaviorTreeSpec[] }
+  | { type: 'inverter' | 'succeeder'; child: BehaviorTreeSpec }
+  | { type: 'cooldown'; ms: number; child: BehaviorTreeSpec }
+  | { type: 'leaf'; name: string; args?: Record<string, unknown> };
+
+/**
+ * Builds a leaf node from the spec's args.
+ */
+export type BehaviorLeafFactory<E> = (args: Record<string, unknown>) => BehaviorNode<E>;
+
+const leaves: Map<string, BehaviorLeafFactory<any>> = new Map();
+
+/**
+ * Registers (or replaces) a named leaf that specs can refer to.
+ * @param name The leaf name used in specs (e.g., 'move_to')
+ * @param factory Builds the leaf from the spec's args
+ */
+export function registerBehaviorLeaf<E>(name: string, factory: BehaviorLeafFactory<E>): void {
+  leaves.set(name, factory);
+}
+
+/**
+ * Gets the names of all registered leaves.
+ */
+export function getBehaviorLeafNames(): string[] {
+  return Array.from(leaves.keys());
+}
+
+/**
+ * Builds a tree from a spec. Call validateBehaviorTreeSpec() first for untrusted data.
+ * @param spec The tree spec
+ * @param path Location of the spec, used in error messages
+ * @returns The root node
+ * @throws If the spec names a leaf that is not registered
+ */
+export function buildBehaviorTree<E>(spec: BehaviorTreeSpec, path: string = 'root'): BehaviorNode<E> {
+  switch (spec.type) {
+    case 'sequence':
+      return new Sequence<E>(spec.children.map((child, i) => buildBehaviorTree<E>(child, `${path}.children[${i}]`)));
+    case 'selector':
+      return new Selector<E>(spec.children.map((child, i) => buildBehaviorTree<E>(child, `${path}.children[${i}]`)));
+    case 'inverter':
+      return new Inverter<E>(buildBehaviorTree<E>(spec.child, `${path}.child`));
+    case 'succeeder':
+      return new Succeeder<E>(buildBehaviorTree<E>(spec.child, `${path}.child`));
+    case 'cooldown':
+      return new Cooldown<E>(buildBehaviorTree<E>(spec.child, `${path}.child`), spec.ms);
+    case 'leaf': {
+      const factory = leaves.get(spec.name);
+      if (!factory) throw new Error(`${path}: unknown leaf "${spec.name}"`);
+      return factory(spec.args ?? {});
+    }
+  }
+}
+
+/**
+ * Checks the shape of a tree spec loaded from JSON, including that every leaf is registered.
+ * @param spec The parsed spec
+ * @param path Location of the spec, used in the error message
+ * @returns A description of the first problem found, or undefined if the spec is valid
+ */
+export function validateBehaviorTreeSpec(spec: unknown, path: string = 'root'): string | undefined {
+  if (!isObject(spec)) return `${path}: not an object`;
+
+  switch (spec.type) {
+    case 'sequence':
+    case 'selector': {
+      const { children } = spec;
+      if (!Array.isArray(children) || children.length === 0) return `${path}: ${spec.type} needs children`;
+      for (let i = 0; i < children.length; i++) {
+        const error = validateBehaviorTreeSpec(children[i], `${path}.children[${i}]`);
+        if (error) return error;
+      }
+      return undefined;
+    }
+    case 'cooldown':
+      if (typeof spec.ms !== 'number' || spec.ms < 0) return `${path}: cooldown needs ms >= 0`;
+    // Fall through: cooldowns have a child like the other decorators
+    case 'inverter':
+    case 'succeeder':
+      return validateBehaviorTreeSpec(spec.child, `${path}.child`);
+    case 'leaf':
+      if (typeof spec.name !== 'string' || !leaves.has(spec.name)) return `${path}: unknown leaf "${spec.name}"`;
+      if (spec.args !== undefined && !isObject(spec.args)) return `${path}: args must be an object`;
+      return undefined;
+    default:
+      return `${path}: unknown node type "${spec.type}"`;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
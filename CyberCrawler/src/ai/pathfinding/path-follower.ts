@@ -0,0 +1,138 @@
+/**
+ * Path Follower - Walks an entity along voxel paths
+ *
+ * Each enemy owns one PathFollower. moveTo() is called every tick with the current
+ * goal: it requests paths from the PathfindingManager (repathing when the goal
+ * moves, the path is invalidated or the entity gets stuck), steers the entity's
+ * SimpleEntityController from waypoint to waypoint and jumps up ledges.
+ * While the first path is being searched the entity heads straight for the goal.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (Entity, SimpleEntityController, Vector3Like)
+ * - PathfindingManager from ./pathfinding-manager
+ * - PATH_FOLLOWING_CONFIG from ../../constants/ai-config
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Entity, SimpleEntityController, Vector3Like } from 'hytopia';
+import { PathRequest, PathfindingManager } from './pathfinding-manager';
+import { SearchStatus } from './voxel-astar';
+import { PATH_FOLLOWING_CONFIG } from '../../constants/ai-config';
+
+/**
+ * Outcome of a moveTo() call.
+ */
+export enum NavigationStatus {
+  MOVING = 'moving',        // Following a path (or heading straight while the first one is searched)
+  ARRIVED = 'arrived',      // Reached the end of the path
+  NO_PATH = 'no_path',      // No walkable route exists; the caller should fall back (e.g., dig)
+}
+
+export class PathFollower {
+  private request?: PathRequest;
+  private waypointIndex: number = 0;
+  private lastRequestAt: number = 0;
+  private lastJumpTime: number = 0;
+  private lastProgressAt: number = 0;
+  private closestDistance: number = Infinity;   // Closest the entity got to the current waypoint
+
+  /**
+   * Moves an entity toward a goal along a path. Call every tick.
+   * @param entity The entity to move (must use a SimpleEntityController)
+   * @param goal Where to go
+   * @param speed Movement speed in units per second
+   * @returns Whether the entity is moving, has arrived or cannot find a way
+   */
+  public moveTo(entity: Entity, goal: Vector3Like, speed: number): NavigationStatus {
+    const controller = entity.controller as SimpleEntityController;
+    const now = Date.now();
+
+    if (this.shouldRepath(goal, now)) {
+      this.request = PathfindingManager.instance.findPath(entity.position, goal);
+      this.waypointIndex = 1; // The first waypoint is the cell the entity stands in
+      this.lastRequestAt = now;
+      this.resetProgress(now);
+    }
+
+    const request = this.request!;
+    if (request.status === SearchStatus.NOT_FOUND) return NavigationStatus.NO_PATH;
+    if (request.status === SearchStatus.RUNNING) {
+      this.steer(controller, goal, speed);
+      return NavigationStatus.MOVING;
+    }
+
+    // Advance past reached waypoints
+    const { waypoints } = request;
+    while (this.waypointIndex < waypoints.length && horizontalDistance(entity.position, waypoints[this.waypointIndex]) <= PATH_FOLLOWING_CONFIG.WAYPOINT_REACHED_DISTANCE) {
+      this.waypointIndex++;
+      this.resetProgress(now);
+    }
+    if (this.waypointIndex >= waypoints.length) return NavigationStatus.ARRIVED;
+
+    const waypoint = waypoints[this.waypointIndex];
+    this.steer(controller, waypoint, speed);
+
+    // Jump up ledges on the way to a higher waypoint
+    if (waypoint.y > Math.floor(entity.position.y) && now - this.lastJumpTime >= PATH_FOLLOWING_CONFIG.JUMP_COOLDOWN_MS) {
+      this.jump(entity, now);
+    }
+
+    // No progress for a while: jump in case something small is in the way, then repath
+    const distance = horizontalDistance(entity.position, waypoint);
+    if (distance < this.closestDistance - 0.1) {
+      this.closestDistance = distance;
+      this.lastProgressAt = now;
+    } else if (now - this.lastProgressAt >= PATH_FOLLOWING_CONFIG.STUCK_TIMEOUT_MS) {
+      this.jump(entity, now);
+      this.request = undefined;
+    }
+
+    return NavigationStatus.MOVING;
+  }
+
+  /**
+   * Forgets the current path (e.g., when the entity switches to a different goal).
+   */
+  public reset(): void {
+    this.request = undefined;
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private shouldRepath(goal: Vector3Like, now: number): boolean {
+    const request = this.request;
+    if (!request || !request.valid) return true;
+    if (request.status === SearchStatus.RUNNING) return false;
+
+    const goalMoved = horizontalDistance(request.goal, goal) > PATH_FOLLOWING_CONFIG.REPATH_GOAL_MOVED_DISTANCE
+      || Math.abs(request.goal.y - goal.y) > PATH_FOLLOWING_CONFIG.REPATH_GOAL_MOVED_DISTANCE;
+    return goalMoved && now - this.lastRequestAt >= PATH_FOLLOWING_CONFIG.REPATH_INTERVAL_MS;
+  }
+
+  private steer(controller: SimpleEntityController | undefined, target: Vector3Like, speed: number): void {
+    if (controller?.move && controller?.face) {
+      controller.move(target, speed, { moveIgnoreAxes: { x: false, y: true, z: false } });
+      controller.face(target, speed * 2);
+    }
+  }
+
+  private jump(entity: Entity, now: number): void {
+    this.lastJumpTime = now;
+    const velocity = entity.linearVelocity;
+    entity.setLinearVelocity({ x: velocity.x, y: PATH_FOLLOWING_CONFIG.JUMP_VELOCITY, z: velocity.z });
+  }
+
+  private resetProgress(now: number): void {
+    this.closestDistance = Infinity;
+    this.lastProgressAt = now;
+  }
+}
+
+function horizontalDistance(a: Vector3Like, b: Vector3Like): number {
+  const dx = a.x - b.x;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dz * dz);
+}
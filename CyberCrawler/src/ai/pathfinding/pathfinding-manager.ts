@@ -0,0 +1,254 @@
+/**
+ * Pathfinding Manager - Budgeted, cached voxel pathfinding for the world
+ *
+ * Runs VoxelPathSearch over the world's chunk lattice. Searches are queued and
+ * share a fixed node budget per tick (PATHFINDING_CONFIG.NODE_BUDGET_PER_TICK),
+ * so many enemies asking for paths at once cannot stall the server. Results are
+ * cached by start and goal cell and reused by every enemy asking for the same
+ * route. When a block changes, found paths running next to it are invalidated,
+ * and "no path" results and running searches that read the block are dropped
+ * (the change may have opened a way) or started over. Changes elsewhere leave
+ * them alone, so a steady stream of block changes during a raid cannot keep
+ * resetting searches that need several ticks.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, ChunkEvent, Vector3Like, WorldLoopEvent)
+ * - VoxelPathSearch from ./voxel-astar
+ * - Block types from ../../constants/block-types
+ * - PATHFINDING_CONFIG from ../../constants/ai-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { ChunkEvent, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import {
+  CellBounds,
+  SearchStatus,
+  VoxelGrid,
+  VoxelPathSearch,
+  VoxelSearchOptions,
+  boundsContain,
+  cellKey,
+} from './voxel-astar';
+import { BLOCK_PROPERTIES, BLOCK_TYPES } from '../../constants/block-types';
+import { PATHFINDING_CONFIG } from '../../constants/ai-config';
+
+/**
+ * The state of a path request. The same object is updated as the search progresses,
+ * so callers can keep it and check it every tick.
+ */
+export interface PathRequest {
+  status: SearchStatus;
+  waypoints: Vector3Like[];       // Cell positions, start first (empty until found)
+  valid: boolean;                 // False once blocks along the path changed; request a new path
+  goal: Vector3Like;
+  createdAt: number;
+}
+
+interface CachedPath {
+  request: PathRequest;
+  search?: VoxelPathSearch;       // Set while the search is still running
+  readBounds?: CellBounds;        // Blocks a finished search read (kept for "no path" results)
+  expiresAt: number;
+}
+
+export class PathfindingManager {
+  private static _instance: PathfindingManager;
+  private world?: World;
+  private grid?: VoxelGrid;
+  private cache: Map<string, CachedPath> = new Map();   // "start|goal" cell keys -> path
+  private queue: CachedPath[] = [];                      // Running searches, oldest first
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the PathfindingManager.
+   */
+  public static get instance(): PathfindingManager {
+    if (!PathfindingManager._instance) {
+      PathfindingManager._instance = new PathfindingManager();
+    }
+    return PathfindingManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop (search budget) and block changes (invalidation).
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+    this.grid = createWorldGrid(world);
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+    world.on(ChunkEvent.SET_BLOCK, ({ globalCoordinate }) => this.handleBlockChange(globalCoordinate));
+
+    console.log('[PathfindingManager] Initialized.');
+  }
+
+  /**
+   * Requests a path. Returns a cached or running request for the same start and goal
+   * cells when there is one, otherwise queues a new search.
+   * @param start Where the path starts (e.g., the enemy's position)
+   * @param goal Where the path should end
+   * @returns The request; check its status every tick until it is FOUND or NOT_FOUND
+   */
+  public findPath(start: Vector3Like, goal: Vector3Like): PathRequest {
+    const now = Date.now();
+    const key = `${cellKey(Math.floor(start.x), Math.floor(start.y), Math.floor(start.z))}|${cellKey(Math.floor(goal.x), Math.floor(goal.y), Math.floor(goal.z))}`;
+
+    const cached = this.cache.get(key);
+    if (cached && cached.request.valid && (cached.search || cached.expiresAt > now)) {
+      return cached.request;
+    }
+
+    const request: PathRequest = { status: SearchStatus.RUNNING, waypoints: [], valid: true, goal: { ...goal }, createdAt: now };
+    if (!this.grid) {
+      request.status = SearchStatus.NOT_FOUND;
+      return request;
+    }
+
+    const entry: CachedPath = {
+      request,
+      search: new VoxelPathSearch(this.grid, start, goal, getSearchOptions()),
+      expiresAt: Infinity,
+    };
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.queue.push(entry);
+    this.pruneCache(now);
+    return request;
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Spends the per-tick node budget on queued searches, oldest first.
+   */
+  private tick(): void {
+    let budget = PATHFINDING_CONFIG.NODE_BUDGET_PER_TICK;
+    while (budget > 0 && this.queue.length > 0) {
+      const entry = this.queue[0];
+      const search = entry.search!;
+      budget -= Math.max(1, search.step(budget));
+
+      if (search.status === SearchStatus.RUNNING) continue;
+
+      this.queue.shift();
+      entry.search = undefined;
+      entry.readBounds = search.status === SearchStatus.NOT_FOUND ? search.getReadBounds() : undefined;
+      entry.request.status = search.status;
+      entry.request.waypoints = search.getPath() ?? [];
+      entry.expiresAt = Date.now() + (search.status === SearchStatus.FOUND
+        ? PATHFINDING_CONFIG.PATH_CACHE_TTL_MS
+        : PATHFINDING_CONFIG.NO_PATH_CACHE_TTL_MS);
+    }
+  }
+
+  /**
+   * Invalidates paths running next to a changed block, and forgets "no path" results
+   * and restarts running searches that read it.
+   */
+  private handleBlockChange(coordinate: Vector3Like): void {
+    for (const [key, entry] of this.cache) {
+      const { request } = entry;
+      if (entry.search) {
+        if (boundsContain(entry.search.getReadBounds(), coordinate)) entry.search.restart();
+        continue;
+      }
+
+      const affected = request.status === SearchStatus.NOT_FOUND
+        ? boundsContain(entry.readBounds, coordinate)
+        : isPathNear(request.waypoints, coordinate);
+      if (affected) {
+        request.valid = false;
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drops expired paths and keeps the cache under its size limit (oldest first).
+   */
+  private pruneCache(now: number): void {
+    for (const [key, entry] of this.cache) {
+      if (!entry.search && entry.expiresAt <= now) this.cache.delete(key);
+    }
+    for (const [key, entry] of this.cache) {
+      if (this.cache.size <= PATHFINDING_CONFIG.PATH_CACHE_MAX_ENTRIES) break;
+      if (!entry.search) this.cache.delete(key);
+    }
+  }
+}
+
+// ====================================
+// World adapter
+// ====================================
+
+/**
+ * Reads the world's chunk lattice as a VoxelGrid. Unloaded chunks read as air.
+ */
+function createWorldGrid(world: World): VoxelGrid {
+  const getBlockId = (x: number, y: number, z: number): number => {
+    try {
+      return world.chunkLattice.getBlockId({ x, y, z }) ?? BLOCK_TYPES.AIR;
+    } catch {
+      return BLOCK_TYPES.AIR;
+    }
+  };
+  const isLiquidId = (id: number) => id === BLOCK_TYPES.WATER || !!BLOCK_PROPERTIES[id]?.isLiquid;
+
+  return {
+    isSolid: (x, y, z) => {
+      const id = getBlockId(x, y, z);
+      return id !== BLOCK_TYPES.AIR && !isLiquidId(id);
+    },
+    isLiquid: (x, y, z) => isLiquidId(getBlockId(x, y, z)),
+  };
+}
+
+function getSearchOptions(): VoxelSearchOptions {
+  return {
+    clearance: PATHFINDING_CONFIG.CLEARANCE_BLOCKS,
+    maxStepUp: PATHFINDING_CONFIG.MAX_STEP_UP,
+    maxDrop: PATHFINDING_CONFIG.MAX_DROP,
+    diagonalCost: PATHFINDING_CONFIG.DIAGONAL_COST,
+    stepUpCost: PATHFINDING_CONFIG.STEP_UP_COST,
+    dropCostPerBlock: PATHFINDING_CONFIG.DROP_COST_PER_BLOCK,
+    maxNodes: PATHFINDING_CONFIG.MAX_NODES_PER_SEARCH,
+    goalTolerance: PATHFINDING_CONFIG.GOAL_TOLERANCE,
+  };
+}
+
+/**
+ * Checks whether a changed block could affect walking along a path: it is next to
+ * a waypoint's column, between the ground below it and the top of the clearance.
+ * Waypoints only mark turns, so the straight stretches between them are checked too.
+ */
+function isPathNear(waypoints: Vector3Like[], block: Vector3Like): boolean {
+  for (let i = 0; i < waypoints.length; i++) {
+    const from = waypoints[i];
+    const to = waypoints[i + 1] ?? from;
+    const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.z - from.z), 1);
+    for (let s = 0; s <= steps; s++) {
+      const x = Math.floor(from.x + ((to.x - from.x) * s) / steps);
+      const z = Math.floor(from.z + ((to.z - from.z) * s) / steps);
+      const y = s === steps ? to.y : from.y;
+      if (
+        Math.abs(block.x - x) <= 1 && Math.abs(block.z - z) <= 1
+        && block.y >= y - 1 && block.y <= y + PATHFINDING_CONFIG.CLEARANCE_BLOCKS
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
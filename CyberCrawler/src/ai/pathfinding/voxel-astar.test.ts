@@ -0,0 +1,256 @@
+import { describe, expect, test } from 'bun:test';
+import { Vector3Like } from 'hytopia';
+
+import {
+  SearchStatus,
+  VoxelGrid,
+  VoxelPathSearch,
+  VoxelSearchOptions,
+  boundsContain,
+  cellKey,
+  findWalkableCell,
+  isWalkable,
+} from './voxel-astar';
+
+const OPTIONS: VoxelSearchOptions = {
+  clearance: 2,
+  maxStepUp: 1,
+  maxDrop: 3,
+  diagonalCost: Math.SQRT2,
+  stepUpCost: 1.5,
+  dropCostPerBlock: 0.5,
+  maxNodes: 5000,
+  goalTolerance: 0.5,
+};
+
+/**
+ * A grid built from plain sets of solid and liquid blocks.
+ */
+class TestGrid implements VoxelGrid {
+  private solids = new Set<string>();
+  private liquids = new Set<string>();
+
+  /** Fills a box (inclusive) with solid blocks. */
+  public solid(x1: number, y1: number, z1: number, x2 = x1, y2 = y1, z2 = z1): this {
+    return this.fill(this.solids, x1, y1, z1, x2, y2, z2);
+  }
+
+  /** Fills a box (inclusive) with liquid blocks, replacing solids. */
+  public liquid(x1: number, y1: number, z1: number, x2 = x1, y2 = y1, z2 = z1): this {
+    this.fill(this.liquids, x1, y1, z1, x2, y2, z2);
+    for (const key of this.liquids) this.solids.delete(key);
+    return this;
+  }
+
+  /** Removes blocks in a box (inclusive). */
+  public clear(x1: number, y1: number, z1: number, x2 = x1, y2 = y1, z2 = z1): this {
+    for (let x = x1; x <= x2; x++) for (let y = y1; y <= y2; y++) for (let z = z1; z <= z2; z++) {
+      this.solids.delete(cellKey(x, y, z));
+      this.liquids.delete(cellKey(x, y, z));
+    }
+    return this;
+  }
+
+  public isSolid(x: number, y: number, z: number): boolean {
+    return this.solids.has(cellKey(x, y, z));
+  }
+
+  public isLiquid(x: number, y: number, z: number): boolean {
+    return this.liquids.has(cellKey(x, y, z));
+  }
+
+  private fill(set: Set<string>, x1: number, y1: number, z1: number, x2: number, y2: number, z2: number): this {
+    for (let x = x1; x <= x2; x++) for (let y = y1; y <= y2; y++) for (let z = z1; z <= z2; z++) {
+      set.add(cellKey(x, y, z));
+    }
+    return this;
+  }
+}
+
+/** Flat floor at y = 0 (feet at y = 1) spanning x/z 0..size-1. */
+function flatGrid(size: number): TestGrid {
+  return new TestGrid().solid(0, 0, 0, size - 1, 0, size - 1);
+}
+
+/** Centre of a cell with feet at y. */
+function at(x: number, y: number, z: number): Vector3Like {
+  return { x: x + 0.5, y, z: z + 0.5 };
+}
+
+function search(grid: VoxelGrid, start: Vector3Like, goal: Vector3Like, options: Partial<VoxelSearchOptions> = {}): VoxelPathSearch {
+  const pathSearch = new VoxelPathSearch(grid, start, goal, { ...OPTIONS, ...options });
+  pathSearch.step(Number.MAX_SAFE_INTEGER);
+  return pathSearch;
+}
+
+describe('grid helpers', () => {
+  test('a cell is walkable on solid ground with clearance above', () => {
+    const grid = flatGrid(3).solid(1, 2, 1);
+    expect(isWalkable(grid, 0, 1, 0, 2)).toBe(true);
+    expect(isWalkable(grid, 1, 1, 1, 2)).toBe(false); // Head in a block
+    expect(isWalkable(grid, 0, 2, 0, 2)).toBe(false); // Nothing underfoot
+  });
+
+  test('findWalkableCell snaps a position to the ground nearby', () => {
+    const grid = flatGrid(3);
+    expect(findWalkableCell(grid, { x: 1.2, y: 1.9, z: 0.7 }, 2)).toEqual({ x: 1, y: 1, z: 0 });
+    expect(findWalkableCell(grid, { x: 1.2, y: 3.1, z: 0.7 }, 2)).toEqual({ x: 1, y: 1, z: 0 });
+    expect(findWalkableCell(grid, { x: 1.2, y: 10, z: 0.7 }, 2)).toBeUndefined();
+  });
+});
+
+describe('VoxelPathSearch', () => {
+  test('walks a straight line and keeps only its ends', () => {
+    const result = search(flatGrid(10), at(0, 1, 0), at(8, 1, 0));
+    expect(result.status).toBe(SearchStatus.FOUND);
+    expect(result.getPath()).toEqual([at(0, 1, 0), at(8, 1, 0)]);
+  });
+
+  test('goes around a wall', () => {
+    // Wall along x = 4 for z = 0..5, leaving a gap at z = 6..9
+    const grid = flatGrid(10).solid(4, 1, 0, 4, 2, 5);
+    const result = search(grid, at(0, 1, 0), at(8, 1, 0));
+    expect(result.status).toBe(SearchStatus.FOUND);
+
+    const path = result.getPath()!;
+    expect(path[path.length - 1]).toEqual(at(8, 1, 0));
+    expect(path.some(point => point.z >= 6.5)).toBe(true);
+  });
+
+  test('does not cut corners diagonally', () => {
+    // Blocks at (1, 0) and (0, 1) leave only a diagonal squeeze to (1, 1)
+    const grid = flatGrid(3).solid(1, 1, 0, 1, 2, 0).solid(0, 1, 1, 0, 2, 1);
+    const result = search(grid, at(0, 1, 0), at(1, 1, 1));
+    expect(result.status).toBe(SearchStatus.NOT_FOUND);
+  });
+
+  test('jumps up one block but not two', () => {
+    const oneStep = flatGrid(6).solid(3, 1, 0, 5, 1, 5);
+    const up = search(oneStep, at(0, 1, 0), at(5, 2, 0));
+    expect(up.status).toBe(SearchStatus.FOUND);
+    expect(up.getPath()!.some(point => point.y === 2)).toBe(true);
+
+    const twoSteps = flatGrid(6).solid(3, 1, 0, 5, 2, 5);
+    expect(search(twoSteps, at(0, 1, 0), at(5, 3, 0)).status).toBe(SearchStatus.NOT_FOUND);
+  });
+
+  test('drops down within the max drop', () => {
+    // Raised platform at feet level 4 for x = 0..2, floor below for x = 3..5
+    const grid = flatGrid(6).solid(0, 1, 0, 2, 3, 5);
+    const result = search(grid, at(0, 4, 0), at(5, 1, 0));
+    expect(result.status).toBe(SearchStatus.FOUND);
+
+    expect(search(grid, at(0, 4, 0), at(5, 1, 0), { maxDrop: 2 }).status).toBe(SearchStatus.NOT_FOUND);
+  });
+
+  test('prefers walking around a step over jumping it when that is cheaper', () => {
+    // A single raised block at (2, 0) in a corridor z = 0..1
+    const grid = new TestGrid().solid(0, 0, 0, 4, 0, 1).solid(2, 1, 0);
+    const path = search(grid, at(0, 1, 0), at(4, 1, 0)).getPath()!;
+    expect(path.every(point => point.y === 1)).toBe(true);
+  });
+
+  test('never walks through water', () => {
+    // A strip of water across the floor at x = 4
+    const moat = flatGrid(10).liquid(4, 0, 0, 4, 0, 9);
+    expect(search(moat, at(0, 1, 0), at(8, 1, 0)).status).toBe(SearchStatus.NOT_FOUND);
+
+    // Shallow water at feet level blocks the cell too; leave a dry crossing at z = 9
+    const shallow = flatGrid(10).liquid(4, 1, 0, 4, 1, 8);
+    const result = search(shallow, at(0, 1, 0), at(8, 1, 0));
+    expect(result.status).toBe(SearchStatus.FOUND);
+    expect(result.getPath()!.some(point => point.z >= 8.5)).toBe(true); // Turns near the crossing
+  });
+
+  test('fails straight away when the start is not on the ground', () => {
+    const result = new VoxelPathSearch(flatGrid(3), { x: 1, y: 20, z: 1 }, at(2, 1, 2), OPTIONS);
+    expect(result.status).toBe(SearchStatus.NOT_FOUND);
+  });
+
+  test('arrives within the goal tolerance', () => {
+    const result = search(flatGrid(10), at(0, 1, 0), at(8, 1, 0), { goalTolerance: 2 });
+    const path = result.getPath()!;
+    const end = path[path.length - 1];
+    expect(Math.abs(end.x - 8.5)).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('search budget', () => {
+  test('expands at most the budget per step and resumes where it left off', () => {
+    const pathSearch = new VoxelPathSearch(flatGrid(20), at(0, 1, 0), at(18, 1, 18), OPTIONS);
+
+    expect(pathSearch.step(5)).toBe(5);
+    expect(pathSearch.status).toBe(SearchStatus.RUNNING);
+    expect(pathSearch.nodesExpanded).toBe(5);
+
+    while (pathSearch.status === SearchStatus.RUNNING) {
+      expect(pathSearch.step(5)).toBeLessThanOrEqual(5);
+    }
+    expect(pathSearch.status).toBe(SearchStatus.FOUND);
+    const path = pathSearch.getPath()!;
+    expect(path[path.length - 1]).toEqual(at(18, 1, 18));
+  });
+
+  test('gives up after maxNodes expansions', () => {
+    // The goal is walled off, so the search would flood the whole floor
+    const grid = flatGrid(30).solid(20, 1, 0, 20, 2, 29);
+    const pathSearch = new VoxelPathSearch(grid, at(0, 1, 0), at(25, 1, 0), { ...OPTIONS, maxNodes: 50 });
+    pathSearch.step(Number.MAX_SAFE_INTEGER);
+
+    expect(pathSearch.status).toBe(SearchStatus.NOT_FOUND);
+    expect(pathSearch.nodesExpanded).toBe(50);
+  });
+
+  test('restart() starts the search over', () => {
+    const grid = flatGrid(10).solid(4, 1, 0, 4, 2, 9);
+    const pathSearch = new VoxelPathSearch(grid, at(0, 1, 0), at(8, 1, 0), OPTIONS);
+    pathSearch.step(Number.MAX_SAFE_INTEGER);
+    expect(pathSearch.status).toBe(SearchStatus.NOT_FOUND);
+
+    // Dig a hole through the wall and search again
+    grid.clear(4, 1, 0, 4, 2, 0);
+    pathSearch.restart();
+    expect(pathSearch.nodesExpanded).toBe(0);
+    pathSearch.step(Number.MAX_SAFE_INTEGER);
+    expect(pathSearch.status).toBe(SearchStatus.FOUND);
+  });
+});
+
+describe('read bounds', () => {
+  test('cover the blocks around every expanded cell', () => {
+    const pathSearch = search(flatGrid(10), at(0, 1, 0), at(3, 1, 0));
+    expect(pathSearch.status).toBe(SearchStatus.FOUND);
+
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 2, y: 0, z: 0 })).toBe(true);  // Ground along the path
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 2, y: 2, z: 1 })).toBe(true);  // Head room beside it
+  });
+
+  test('leave out block changes far from the search', () => {
+    // A search still running after a few steps has only read blocks near the start
+    const grid = flatGrid(60).solid(20, 1, 0, 20, 2, 59);
+    const pathSearch = new VoxelPathSearch(grid, at(0, 1, 0), at(50, 1, 0), OPTIONS);
+    pathSearch.step(20);
+    expect(pathSearch.status).toBe(SearchStatus.RUNNING);
+
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 55, y: 1, z: 55 })).toBe(false);
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 1, y: 30, z: 1 })).toBe(false);
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 1, y: 1, z: 1 })).toBe(true);
+  });
+
+  test('include the start column when there is no ground to start from', () => {
+    const pathSearch = new VoxelPathSearch(new TestGrid(), at(5, 3, 5), at(8, 3, 8), OPTIONS);
+    expect(pathSearch.status).toBe(SearchStatus.NOT_FOUND);
+
+    // Ground placed under the start would let it start, so it is inside the bounds
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 5, y: 2, z: 5 })).toBe(true);
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 6, y: 2, z: 5 })).toBe(false);
+  });
+
+  test('are reset by restart()', () => {
+    const pathSearch = search(flatGrid(20), at(0, 1, 0), at(18, 1, 0));
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 15, y: 1, z: 0 })).toBe(true);
+
+    pathSearch.restart();
+    expect(boundsContain(pathSearch.getReadBounds(), { x: 15, y: 1, z: 0 })).toBe(false);
+  });
+});
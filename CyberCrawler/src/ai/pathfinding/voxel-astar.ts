@@ -0,0 +1,390 @@
+/**
+ * Voxel A* - Incremental A* search over a block grid
+ *
+ * Cells are identified by the block an entity's feet occupy. A cell is walkable
+ * when the block below it is solid ground and the blocks it occupies (up to the
+ * configured clearance) are free of solids and liquids. Moves go to the 8
+ * horizontal neighbours on the same level (no cutting corners), jump up onto
+ * higher neighbours or drop down to lower ones, with extra cost for jumps and
+ * drops. Liquids are never walked through.
+ *
+ * Searches run incrementally: step() expands a budgeted number of nodes, so a
+ * long search can be spread over several ticks. Each search keeps the bounding
+ * box of the blocks it has read, so a block change outside it can be ignored.
+ * The search only talks to the VoxelGrid interface, so it can be driven headless
+ * from plain data.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK types (Vector3Like)
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Vector3Like } from 'hytopia';
+
+/**
+ * Read-only view of the blocks a search runs over.
+ */
+export interface VoxelGrid {
+  isSolid(x: number, y: number, z: number): boolean;    // Blocks movement (non-air, non-liquid)
+  isLiquid(x: number, y: number, z: number): boolean;
+}
+
+export interface VoxelSearchOptions {
+  clearance: number;            // Free blocks needed above the ground
+  maxStepUp: number;
+  maxDrop: number;
+  diagonalCost: number;
+  stepUpCost: number;           // Extra cost per block jumped up
+  dropCostPerBlock: number;     // Extra cost per block dropped
+  maxNodes: number;             // Give up after expanding this many nodes
+  goalTolerance: number;        // Horizontal distance from the goal that counts as arrived
+}
+
+/**
+ * An axis-aligned box of blocks, bounds inclusive.
+ */
+export interface CellBounds {
+  minX: number;
+  minY: number;
+  minZ: number;
+  maxX: number;
+  maxY: number;
+  maxZ: number;
+}
+
+export enum SearchStatus {
+  RUNNING = 'running',
+  FOUND = 'found',
+  NOT_FOUND = 'not_found',
+}
+
+interface SearchNode {
+  x: number;
+  y: number;
+  z: number;
+  key: string;
+  g: number;
+  f: number;
+  parent?: SearchNode;
+}
+
+const HORIZONTAL_DIRECTIONS = [
+  { dx: 1, dz: 0 }, { dx: -1, dz: 0 }, { dx: 0, dz: 1 }, { dx: 0, dz: -1 },
+  { dx: 1, dz: 1 }, { dx: 1, dz: -1 }, { dx: -1, dz: 1 }, { dx: -1, dz: -1 },
+];
+
+export class VoxelPathSearch {
+  public status: SearchStatus = SearchStatus.RUNNING;
+  public nodesExpanded: number = 0;
+
+  private open: SearchNode[] = [];                            // Binary min-heap on f
+  private best: Map<string, SearchNode> = new Map();          // key -> best node found so far
+  private closed: Set<string> = new Set();
+  private result?: Vector3Like[];
+  private readBounds?: CellBounds;                            // Every block read so far
+  private readonly goalCell: Vector3Like;
+
+  /**
+   * @param grid The blocks to search over
+   * @param start The start position (snapped to the nearest walkable cell)
+   * @param goal The goal position
+   * @param options Walkability, costs and limits
+   */
+  constructor(
+    private readonly grid: VoxelGrid,
+    private readonly start: Vector3Like,
+    goal: Vector3Like,
+    private readonly options: VoxelSearchOptions
+  ) {
+    this.goalCell = { x: goal.x, y: Math.floor(goal.y), z: goal.z };
+    this.restart();
+  }
+
+  /**
+   * Throws away all progress and starts over (e.g., after blocks changed mid-search).
+   */
+  public restart(): void {
+    this.open = [];
+    this.best.clear();
+    this.closed.clear();
+    this.result = undefined;
+    this.readBounds = undefined;
+    this.nodesExpanded = 0;
+    this.status = SearchStatus.RUNNING;
+
+    // findWalkableCell looks a few blocks above and below the start
+    const x = Math.floor(this.start.x);
+    const y = Math.floor(this.start.y);
+    const z = Math.floor(this.start.z);
+    this.addReadBounds(x, y - 4, z, x, y + this.options.clearance, z);
+
+    const startCell = findWalkableCell(this.grid, this.start, this.options.clearance);
+    if (!startCell) {
+      this.status = SearchStatus.NOT_FOUND;
+      return;
+    }
+
+    const node: SearchNode = { ...startCell, key: cellKey(startCell.x, startCell.y, startCell.z), g: 0, f: 0 };
+    node.f = this.heuristic(node);
+    this.best.set(node.key, node);
+    this.push(node);
+  }
+
+  /**
+   * Expands up to `budget` nodes.
+   * @param budget Max nodes to expand in this call
+   * @returns The number of nodes expanded
+   */
+  public step(budget: number): number {
+    let expanded = 0;
+    while (this.status === SearchStatus.RUNNING && expanded < budget) {
+      const node = this.pop();
+      if (!node) {
+        this.status = SearchStatus.NOT_FOUND;
+        break;
+      }
+      if (this.closed.has(node.key)) continue;
+      this.closed.add(node.key);
+      expanded++;
+      this.nodesExpanded++;
+
+      if (this.isGoal(node)) {
+        this.result = buildPath(node);
+        this.status = SearchStatus.FOUND;
+        break;
+      }
+      if (this.nodesExpanded >= this.options.maxNodes) {
+        this.status = SearchStatus.NOT_FOUND;
+        break;
+      }
+
+      this.expand(node);
+    }
+    return expanded;
+  }
+
+  /**
+   * Gets the found path as cell positions (x/z at the cell centre, y at the feet), start first.
+   */
+  public getPath(): Vector3Like[] | undefined {
+    return this.result;
+  }
+
+  /**
+   * Gets the bounding box of every block the search has read since it (re)started.
+   * A block outside it cannot have affected the search so far.
+   */
+  public getReadBounds(): CellBounds | undefined {
+    return this.readBounds && { ...this.readBounds };
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private expand(node: SearchNode): void {
+    const { grid, options } = this;
+    const { x, y, z } = node;
+
+    // Neighbours one block away, from the deepest drop up to the head room of the highest jump
+    this.addReadBounds(x - 1, y - options.maxDrop - 1, z - 1, x + 1, y + options.clearance + options.maxStepUp, z + 1);
+
+    for (const { dx, dz } of HORIZONTAL_DIRECTIONS) {
+      const nx = x + dx;
+      const nz = z + dz;
+      const diagonal = dx !== 0 && dz !== 0;
+      const baseCost = diagonal ? options.diagonalCost : 1;
+
+      // Same level
+      if (isWalkable(grid, nx, y, nz, options.clearance)) {
+        if (!diagonal || (isClear(grid, x + dx, y, z, options.clearance) && isClear(grid, x, y, z + dz, options.clearance))) {
+          this.consider(node, nx, y, nz, baseCost);
+        }
+        continue;
+      }
+      if (diagonal) continue; // Jumps and drops only along the axes
+
+      // Jump up onto a higher neighbour (needs head room above the current cell)
+      let stepped = false;
+      for (let up = 1; up <= options.maxStepUp; up++) {
+        if (!isClear(grid, x, y + options.clearance + up - 1, z, 1)) break;
+        if (isWalkable(grid, nx, y + up, nz, options.clearance)) {
+          this.consider(node, nx, y + up, nz, baseCost + options.stepUpCost * up);
+          stepped = true;
+          break;
+        }
+      }
+      if (stepped) continue;
+
+      // Drop down to a lower neighbour (the column must be open at the current level)
+      if (!isClear(grid, nx, y, nz, options.clearance)) continue;
+      for (let down = 1; down <= options.maxDrop; down++) {
+        if (grid.isLiquid(nx, y - down, nz)) break;
+        if (isWalkable(grid, nx, y - down, nz, options.clearance)) {
+          this.consider(node, nx, y - down, nz, baseCost + options.dropCostPerBlock * down);
+          break;
+        }
+        if (grid.isSolid(nx, y - down, nz)) break;
+      }
+    }
+  }
+
+  private consider(parent: SearchNode, x: number, y: number, z: number, cost: number): void {
+    const key = cellKey(x, y, z);
+    if (this.closed.has(key)) return;
+
+    const g = parent.g + cost;
+    const existing = this.best.get(key);
+    if (existing && existing.g <= g) return;
+
+    const node: SearchNode = { x, y, z, key, g, f: 0, parent };
+    node.f = g + this.heuristic(node);
+    this.best.set(key, node);
+    this.push(node);
+  }
+
+  /**
+   * Octile distance to the goal's tolerance ring (admissible: vertical moves only add cost).
+   */
+  private heuristic(node: SearchNode): number {
+    const dx = Math.abs(node.x + 0.5 - this.goalCell.x);
+    const dz = Math.abs(node.z + 0.5 - this.goalCell.z);
+    const octile = Math.max(dx, dz) + (this.options.diagonalCost - 1) * Math.min(dx, dz);
+    return Math.max(0, octile - this.options.goalTolerance);
+  }
+
+  private isGoal(node: SearchNode): boolean {
+    const dx = node.x + 0.5 - this.goalCell.x;
+    const dz = node.z + 0.5 - this.goalCell.z;
+    return Math.sqrt(dx * dx + dz * dz) <= this.options.goalTolerance
+      && Math.abs(node.y - this.goalCell.y) <= this.options.clearance;
+  }
+
+  private addReadBounds(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): void {
+    const bounds = this.readBounds;
+    if (!bounds) {
+      this.readBounds = { minX, minY, minZ, maxX, maxY, maxZ };
+      return;
+    }
+    bounds.minX = Math.min(bounds.minX, minX);
+    bounds.minY = Math.min(bounds.minY, minY);
+    bounds.minZ = Math.min(bounds.minZ, minZ);
+    bounds.maxX = Math.max(bounds.maxX, maxX);
+    bounds.maxY = Math.max(bounds.maxY, maxY);
+    bounds.maxZ = Math.max(bounds.maxZ, maxZ);
+  }
+
+  private push(node: SearchNode): void {
+    const heap = this.open;
+    heap.push(node);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].f <= heap[i].f) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  private pop(): SearchNode | undefined {
+    const heap = this.open;
+    if (heap.length === 0) return undefined;
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+        if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// ====================================
+// Grid helpers
+// ====================================
+
+export function cellKey(x: number, y: number, z: number): string {
+  return `${x},${y},${z}`;
+}
+
+/**
+ * Checks whether a block lies inside a bounding box.
+ */
+export function boundsContain(bounds: CellBounds | undefined, block: Vector3Like): boolean {
+  if (!bounds) return false;
+  const x = Math.floor(block.x);
+  const y = Math.floor(block.y);
+  const z = Math.floor(block.z);
+  return x >= bounds.minX && x <= bounds.maxX
+    && y >= bounds.minY && y <= bounds.maxY
+    && z >= bounds.minZ && z <= bounds.maxZ;
+}
+
+/**
+ * Checks that `height` blocks starting at (x, y, z) are free of solids and liquids.
+ */
+export function isClear(grid: VoxelGrid, x: number, y: number, z: number, height: number): boolean {
+  for (let i = 0; i < height; i++) {
+    if (grid.isSolid(x, y + i, z) || grid.isLiquid(x, y + i, z)) return false;
+  }
+  return true;
+}
+
+/**
+ * Checks whether an entity can stand with its feet in block (x, y, z).
+ */
+export function isWalkable(grid: VoxelGrid, x: number, y: number, z: number, clearance: number): boolean {
+  return grid.isSolid(x, y - 1, z) && isClear(grid, x, y, z, clearance);
+}
+
+/**
+ * Finds the walkable cell an entity at a position is standing in (or just above/below).
+ * @returns The cell, or undefined if there is no ground nearby (e.g., mid-air or in water)
+ */
+export function findWalkableCell(grid: VoxelGrid, position: Vector3Like, clearance: number): Vector3Like | undefined {
+  const x = Math.floor(position.x);
+  const z = Math.floor(position.z);
+  const y = Math.floor(position.y);
+  for (const dy of [0, 1, -1, -2, -3]) {
+    if (isWalkable(grid, x, y + dy, z, clearance)) return { x, y: y + dy, z };
+  }
+  return undefined;
+}
+
+/**
+ * Walks back from the goal node and drops cells that merely continue a straight,
+ * level line, keeping the turns, jumps and drops.
+ */
+function buildPath(goal: SearchNode): Vector3Like[] {
+  const cells: SearchNode[] = [];
+  for (let node: SearchNode | undefined = goal; node; node = node.parent) {
+    cells.push(node);
+  }
+  cells.reverse();
+
+  const path: Vector3Like[] = [];
+  for (let i = 0; i < cells.length; i++) {
+    const previous = cells[i - 1];
+    const current = cells[i];
+    const next = cells[i + 1];
+    const straight = previous && next
+      && previous.y === current.y && current.y === next.y
+      && current.x - previous.x === next.x - current.x
+      && current.z - previous.z === next.z - current.z;
+    if (!straight) {
+      path.push({ x: current.x + 0.5, y: current.y, z: current.z + 0.5 });
+    }
+  }
+  return path;
+}
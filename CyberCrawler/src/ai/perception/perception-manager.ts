@@ -0,0 +1,402 @@
+/**
+ * Perception Manager - What AI-controlled entities see, hear and remember
+ *
+ * Entities registered as perceivers (enemies, see enemy-factory.ts) sense hostile
+ * entities in two ways:
+ * - Sight: inside a view cone and sight range (or very close by), confirmed by a
+ *   line-of-sight raycast from the perceiver's eyes.
+ * - Hearing: noises reported with reportNoise() (sprinting, weapon swings, gunshots,
+ *   hits) are heard by perceivers within the noise's radius, walls or not.
+ *
+ * Every sensed target is remembered with its last known position until it has not
+ * been sensed for PERCEPTION_CONFIG.MEMORY_DURATION_MS. Perceivers are UNAWARE,
+ * SUSPICIOUS (heard or remember something) or ALERTED (see a target or were hurt).
+ * Becoming alerted to a target alerts nearby allies to it as well. Spotting a target
+ * adds threat so the ThreatManager switches from the house objective to players;
+ * AI code queries canSee()/isAware()/getLastKnownPosition() to chase or investigate.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, Vector3Like, WorldLoopEvent)
+ * - Damage pipeline hooks from ../../combat/damage-pipeline
+ * - FactionManager and ThreatManager from ../../combat
+ * - Geometry helpers from ../../physics/physicsSystem
+ * - PERCEPTION_CONFIG from ../../constants/ai-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { onPostDamage, resolveDamageable } from '../../combat/damage-pipeline';
+import { DamageEvent } from '../../combat/damage-types';
+import { FactionRelation } from '../../combat/faction-types';
+import { FactionManager } from '../../combat/faction-manager';
+import { ThreatManager } from '../../combat/threat-manager';
+import { distanceBetween, getFacingDirection } from '../../physics/physicsSystem';
+import { PERCEPTION_CONFIG } from '../../constants/ai-config';
+
+export enum AlertState {
+  UNAWARE = 'unaware',
+  SUSPICIOUS = 'suspicious',   // Heard something or remembers a target it can no longer see
+  ALERTED = 'alerted',         // Sees a target, was hurt, or was alerted by an ally
+}
+
+export enum SenseType {
+  SIGHT = 'sight',
+  HEARING = 'hearing',
+  ALERT = 'alert',             // Told by an ally or hurt by the target
+}
+
+/**
+ * Sight and hearing of one perceiver. Unset fields use PERCEPTION_CONFIG defaults.
+ */
+export interface PerceptionProfile {
+  sightRange?: number;
+  viewAngleDegrees?: number;   // Full width of the view cone
+  hearingMultiplier?: number;  // Scales the radius of every noise this perceiver hears
+}
+
+/**
+ * What a perceiver remembers about a target.
+ */
+export interface PerceivedTarget {
+  entity: Entity;
+  lastKnownPosition: Vector3Like;
+  lastSensedAt: number;
+  sense: SenseType;            // How it was last sensed
+  visible: boolean;            // In sight as of the last update
+}
+
+interface PerceiverState {
+  entity: Entity;
+  profile: Required<PerceptionProfile>;
+  alertState: AlertState;
+  lastAlertAt: number;
+  memory: Map<number, PerceivedTarget>;   // target entityId -> memory
+}
+
+interface Noise {
+  source: Entity;
+  position: Vector3Like;
+  radius: number;
+}
+
+export class PerceptionManager {
+  private static _instance: PerceptionManager;
+  private world: World | null = null;
+  private perceivers: Map<number, PerceiverState> = new Map();   // perceiver entityId -> state
+  private pendingNoises: Map<number, Noise> = new Map();         // source entityId -> loudest noise since the last update
+  private lastUpdateAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the PerceptionManager.
+   */
+  public static get instance(): PerceptionManager {
+    if (!PerceptionManager._instance) {
+      PerceptionManager._instance = new PerceptionManager();
+    }
+    return PerceptionManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop (sight, hearing, memory) and the damage
+   * pipeline (hits are loud, and being hurt alerts the victim).
+   * Should be called once when the server starts, after the ThreatManager.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+    onPostDamage(event => this.handleDamage(event));
+
+    console.log('[PerceptionManager] Initialized.');
+  }
+
+  // ====================================
+  // Perceivers
+  // ====================================
+
+  /**
+   * Starts tracking what an entity perceives.
+   * @param entity The perceiving entity (e.g., an enemy once it spawns)
+   * @param profile Its sight and hearing
+   */
+  public register(entity: Entity, profile: PerceptionProfile = {}): void {
+    this.perceivers.set(entity.id!, {
+      entity,
+      profile: {
+        sightRange: profile.sightRange ?? PERCEPTION_CONFIG.SIGHT_RANGE,
+        viewAngleDegrees: profile.viewAngleDegrees ?? PERCEPTION_CONFIG.VIEW_ANGLE_DEGREES,
+        hearingMultiplier: profile.hearingMultiplier ?? 1,
+      },
+      alertState: AlertState.UNAWARE,
+      lastAlertAt: 0,
+      memory: new Map(),
+    });
+  }
+
+  /**
+   * Stops tracking an entity (e.g., when it despawns).
+   */
+  public unregister(entity: Entity): void {
+    this.perceivers.delete(entity.id!);
+  }
+
+  // ====================================
+  // Noise
+  // ====================================
+
+  /**
+   * Reports a noise made by an entity. Perceivers hostile to the source within the
+   * radius hear it at the next update. Repeated noises from one source between
+   * updates (e.g., sprinting every tick) count once, at the loudest radius.
+   * @param source The entity making the noise
+   * @param radius How far the noise carries
+   * @param position Where the noise is made (defaults to the source's position)
+   */
+  public reportNoise(source: Entity, radius: number, position: Vector3Like = source.position): void {
+    if (!this.initialized || source.id === undefined) return;
+
+    const pending = this.pendingNoises.get(source.id);
+    if (!pending || pending.radius < radius) {
+      this.pendingNoises.set(source.id, { source, position: { ...position }, radius });
+    }
+  }
+
+  // ====================================
+  // Queries
+  // ====================================
+
+  /**
+   * Gets how alert an entity is (UNAWARE for entities that are not perceivers).
+   */
+  public getAlertState(entity: Entity): AlertState {
+    return this.perceivers.get(entity.id!)?.alertState ?? AlertState.UNAWARE;
+  }
+
+  /**
+   * Checks whether an entity currently sees a target (as of the last update).
+   */
+  public canSee(entity: Entity, target: Entity): boolean {
+    return !!this.getMemory(entity, target)?.visible;
+  }
+
+  /**
+   * Checks whether an entity knows about a target: sees it or still remembers it.
+   */
+  public isAware(entity: Entity, target: Entity): boolean {
+    return !!this.getMemory(entity, target);
+  }
+
+  /**
+   * Gets what an entity remembers about a target.
+   */
+  public getMemory(entity: Entity, target: Entity): PerceivedTarget | undefined {
+    return this.perceivers.get(entity.id!)?.memory.get(target.id!);
+  }
+
+  /**
+   * Gets where an entity last sensed a target.
+   */
+  public getLastKnownPosition(entity: Entity, target: Entity): Vector3Like | undefined {
+    return this.getMemory(entity, target)?.lastKnownPosition;
+  }
+
+  /**
+   * Gets every target an entity knows about, visible ones first, then most recently sensed.
+   */
+  public getKnownTargets(entity: Entity): PerceivedTarget[] {
+    const state = this.perceivers.get(entity.id!);
+    if (!state) return [];
+    return Array.from(state.memory.values())
+      .sort((a, b) => Number(b.visible) - Number(a.visible) || b.lastSensedAt - a.lastSensedAt);
+  }
+
+  /**
+   * Makes an entity forget a target (e.g., after investigating its last known position).
+   */
+  public forget(entity: Entity, target: Entity): void {
+    this.perceivers.get(entity.id!)?.memory.delete(target.id!);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Runs sight, hearing, memory and alert updates every UPDATE_INTERVAL_MS.
+   */
+  private tick(): void {
+    if (!this.world) return;
+
+    const now = Date.now();
+    if (now - this.lastUpdateAt < PERCEPTION_CONFIG.UPDATE_INTERVAL_MS) return;
+    const elapsedSeconds = Math.min(1, (now - this.lastUpdateAt) / 1000);
+    this.lastUpdateAt = now;
+
+    const noises = Array.from(this.pendingNoises.values());
+    this.pendingNoises.clear();
+    const candidates = this.world.entityManager.getAllEntities().filter(entity => resolveDamageable(entity));
+
+    for (const [perceiverId, state] of this.perceivers) {
+      const { entity } = state;
+      if (!entity.isSpawned || resolveDamageable(entity)?.isDead()) {
+        this.perceivers.delete(perceiverId);
+        continue;
+      }
+
+      this.updateSight(state, candidates, now, elapsedSeconds);
+      this.updateHearing(state, noises, now);
+      this.updateMemory(state, now);
+    }
+  }
+
+  private updateSight(state: PerceiverState, candidates: Entity[], now: number, elapsedSeconds: number): void {
+    const { entity, profile } = state;
+    const eye = { x: entity.position.x, y: entity.position.y + PERCEPTION_CONFIG.EYE_HEIGHT, z: entity.position.z };
+    const forward = getFacingDirection(entity);
+    const minDot = Math.cos((profile.viewAngleDegrees / 2) * (Math.PI / 180));
+
+    const wasVisible = new Set<number>();
+    for (const [targetId, memory] of state.memory) {
+      if (memory.visible) wasVisible.add(targetId);
+      memory.visible = false;
+    }
+
+    for (const target of candidates) {
+      if (target === entity || !FactionManager.instance.canTarget(entity, target)) continue;
+
+      const dx = target.position.x - eye.x;
+      const dy = target.position.y - eye.y;
+      const dz = target.position.z - eye.z;
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (distance > profile.sightRange) continue;
+
+      // Outside the view cone only very close targets are noticed
+      const horizontal = Math.sqrt(dx * dx + dz * dz);
+      const inCone = horizontal === 0 || (dx * forward.x + dz * forward.z) / horizontal >= minDot;
+      if (!inCone && distance > PERCEPTION_CONFIG.PROXIMITY_RANGE) continue;
+
+      if (!this.hasLineOfSight(entity, eye, target.position, distance)) continue;
+
+      const spotted = !wasVisible.has(target.id!); // Just came into view
+      this.remember(state, target, target.position, SenseType.SIGHT, now, true);
+      ThreatManager.instance.addThreat(entity, target, PERCEPTION_CONFIG.SIGHT_THREAT_PER_SECOND * elapsedSeconds);
+      if (spotted) {
+        this.alert(state, target, target.position, now, true);
+      } else {
+        state.alertState = AlertState.ALERTED;
+        state.lastAlertAt = now;
+      }
+    }
+  }
+
+  private updateHearing(state: PerceiverState, noises: Noise[], now: number): void {
+    const { entity, profile } = state;
+    for (const noise of noises) {
+      if (noise.source === entity || !FactionManager.instance.canTarget(entity, noise.source)) continue;
+      if (distanceBetween(entity.position, noise.position) > noise.radius * profile.hearingMultiplier) continue;
+
+      // Sight is better information than a noise
+      if (!state.memory.get(noise.source.id!)?.visible) {
+        this.remember(state, noise.source, noise.position, SenseType.HEARING, now, false);
+      }
+      ThreatManager.instance.addThreat(entity, noise.source, PERCEPTION_CONFIG.HEARING_THREAT);
+      if (state.alertState === AlertState.UNAWARE) state.alertState = AlertState.SUSPICIOUS;
+    }
+  }
+
+  /**
+   * Forgets stale or invalid targets and calms the perceiver down over time.
+   */
+  private updateMemory(state: PerceiverState, now: number): void {
+    for (const [targetId, memory] of state.memory) {
+      if (
+        now - memory.lastSensedAt > PERCEPTION_CONFIG.MEMORY_DURATION_MS
+        || !FactionManager.instance.canTarget(state.entity, memory.entity)
+      ) {
+        state.memory.delete(targetId);
+      }
+    }
+
+    if (state.alertState === AlertState.ALERTED && now - state.lastAlertAt > PERCEPTION_CONFIG.ALERT_DURATION_MS) {
+      state.alertState = AlertState.SUSPICIOUS;
+    }
+    if (state.alertState === AlertState.SUSPICIOUS && state.memory.size === 0) {
+      state.alertState = AlertState.UNAWARE;
+    }
+  }
+
+  /**
+   * Hits are loud, and the victim is alerted to whoever hurt it.
+   */
+  private handleDamage(event: DamageEvent): void {
+    const { source, target } = event;
+    if (!source || source === target || event.isPeriodic) return;
+
+    this.reportNoise(source, PERCEPTION_CONFIG.NOISE_RADIUS.COMBAT_HIT);
+
+    const state = this.perceivers.get(target.id!);
+    if (state && FactionManager.instance.canTarget(target, source)) {
+      this.alert(state, source, source.position, Date.now(), true);
+    }
+  }
+
+  /**
+   * Alerts a perceiver to a target, adding threat so it goes after the target.
+   * @param spread Also alert nearby allies (they do not spread it further)
+   */
+  private alert(state: PerceiverState, target: Entity, position: Vector3Like, now: number, spread: boolean): void {
+    if (!state.memory.get(target.id!)?.visible) {
+      this.remember(state, target, position, SenseType.ALERT, now, false);
+    }
+    state.alertState = AlertState.ALERTED;
+    state.lastAlertAt = now;
+    ThreatManager.instance.addThreat(state.entity, target, PERCEPTION_CONFIG.ALERT_THREAT);
+
+    if (!spread) return;
+    for (const ally of this.perceivers.values()) {
+      if (ally === state || ally.alertState === AlertState.ALERTED || ally.memory.has(target.id!)) continue;
+      if (distanceBetween(ally.entity.position, state.entity.position) > PERCEPTION_CONFIG.ALERT_SPREAD_RADIUS) continue;
+      if (FactionManager.instance.getRelation(ally.entity, state.entity) !== FactionRelation.FRIENDLY) continue;
+      if (!FactionManager.instance.canTarget(ally.entity, target)) continue;
+
+      this.alert(ally, target, position, now, false);
+    }
+  }
+
+  private remember(state: PerceiverState, target: Entity, position: Vector3Like, sense: SenseType, now: number, visible: boolean): void {
+    state.memory.set(target.id!, {
+      entity: target,
+      lastKnownPosition: { x: position.x, y: position.y, z: position.z },
+      lastSensedAt: now,
+      sense,
+      visible,
+    });
+  }
+
+  /**
+   * Checks that no block lies between the perceiver's eyes and the target.
+   */
+  private hasLineOfSight(entity: Entity, eye: Vector3Like, targetPosition: Vector3Like, distance: number): boolean {
+    if (distance === 0 || !this.world) return true;
+
+    const direction = {
+      x: (targetPosition.x - eye.x) / distance,
+      y: (targetPosition.y - eye.y) / distance,
+      z: (targetPosition.z - eye.z) / distance,
+    };
+    const hit = this.world.simulation.raycast(eye, direction, distance, {
+      filterExcludeRigidBody: entity.rawRigidBody,
+    });
+    return !hit?.hitBlock;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Armor Registry - Central armor definitions for CyberCrawler
+ *
+ * Every wearable armor piece is defined here, keyed by its inventory item ID.
+ * Crafting recipes for these items live in recipe-database.ts (RecipeCategory.Armor).
+ * Additional armor can be registered at runtime with registerArmor().
+ *
+ * Dependencies:
+ * - Armor types from ./armor-types
+ * - Damage types from ./damage-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { ArmorDefinition, ArmorSlot } from './armor-types';
+import { DamageType } from './damage-types';
+
+const armorPieces: Map<string, ArmorDefinition> = new Map();
+
+const DEFAULT_ARMOR: ArmorDefinition[] = [
+  {
+    id: 'scrap_helmet',
+    name: 'Scrap Helmet',
+    slot: ArmorSlot.HELMET,
+    resistances: { [DamageType.KINETIC]: 0.1, [DamageType.EXPLOSIVE]: 0.1 },
+    maxDurability: 60,
+    iconReference: 'icons/items/scrap_helmet.png',
+  },
+  {
+    id: 'bio_filter_mask',
+    name: 'Bio-Filter Mask',
+    slot: ArmorSlot.HELMET,
+    resistances: { [DamageType.BIO]: 0.35 },
+    maxDurability: 50,
+    iconReference: 'icons/items/bio_filter_mask.png',
+  },
+  {
+    id: 'scrap_chestplate',
+    name: 'Scrap Chestplate',
+    slot: ArmorSlot.CHEST,
+    resistances: { [DamageType.KINETIC]: 0.2, [DamageType.EXPLOSIVE]: 0.15 },
+    maxDurability: 100,
+    iconReference: 'icons/items/scrap_chestplate.png',
+  },
+  {
+    id: 'insulated_coat',
+    name: 'Insulated Coat',
+    slot: ArmorSlot.CHEST,
+    resistances: { [DamageType.ENERGY]: 0.25, [DamageType.KINETIC]: 0.05 },
+    maxDurability: 80,
+    iconReference: 'icons/items/insulated_coat.png',
+  },
+  {
+    id: 'reinforced_pants',
+    name: 'Reinforced Pants',
+    slot: ArmorSlot.PANTS,
+    resistances: { [DamageType.KINETIC]: 0.1, [DamageType.EXPLOSIVE]: 0.05 },
+    maxDurability: 80,
+    iconReference: 'icons/items/reinforced_pants.png',
+  },
+  {
+    id: 'grounding_boots',
+    name: 'Grounding Boots',
+    slot: ArmorSlot.BOOTS,
+    resistances: { [DamageType.ENERGY]: 0.1, [DamageType.KINETIC]: 0.05 },
+    maxDurability: 60,
+    iconReference: 'icons/items/grounding_boots.png',
+  },
+];
+
+DEFAULT_ARMOR.forEach(registerArmor);
+
+/**
+ * Registers (or replaces) an armor definition.
+ * @param definition The armor definition
+ */
+export function registerArmor(definition: ArmorDefinition): void {
+  armorPieces.set(definition.id, definition);
+}
+
+/**
+ * Retrieve an armor definition by its item ID.
+ * @param id The armor's item ID
+ * @returns The definition, or undefined if the item is not armor
+ */
+export function getArmorDefinition(id: string): ArmorDefinition | undefined {
+  return armorPieces.get(id);
+}
+
+/**
+ * Checks whether an item ID is a registered armor piece.
+ */
+export function isArmor(id: string): boolean {
+  return armorPieces.has(id);
+}
+
+/**
+ * Gets every registered armor definition.
+ */
+export function getAllArmor(): ArmorDefinition[] {
+  return Array.from(armorPieces.values());
+}
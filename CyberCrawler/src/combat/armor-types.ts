@@ -0,0 +1,37 @@
+/**
+ * Armor Types - Shared types for the CyberCrawler armor registry
+ *
+ * An ArmorDefinition describes a wearable piece: the equipment slot it
+ * occupies, its per-damage-type resistances and how much durability it has.
+ * Definitions are keyed by the inventory item ID of the armor.
+ *
+ * Dependencies:
+ * - Damage types from ./damage-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Resistances } from './damage-types';
+
+/**
+ * Equipment slots armor can be worn in. Values match the inventory UI slots.
+ */
+export enum ArmorSlot {
+  HELMET = 'helmet',
+  CHEST = 'chest',
+  PANTS = 'pants',
+  BOOTS = 'boots',
+}
+
+/**
+ * Static description of an armor piece.
+ * See: /src/combat/armor-registry.ts
+ */
+export interface ArmorDefinition {
+  id: string;                      // Inventory item ID (e.g., 'scrap_chestplate')
+  name: string;
+  slot: ArmorSlot;
+  resistances: Resistances;        // Fraction of damage absorbed per damage type
+  maxDurability: number;           // The piece breaks (and is destroyed) at 0
+  iconReference?: string;
+}
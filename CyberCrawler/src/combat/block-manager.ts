@@ -0,0 +1,334 @@
+/**
+ * Block Manager - Shield blocking and parrying
+ *
+ * Entities holding a shield can raise it to block. While raised, hits arriving
+ * from within the shield's frontal arc are partly absorbed, draining shield
+ * energy; hits from outside the arc (e.g., from behind) ignore the block. Hits
+ * landing within the parry window right after raising the shield are parried:
+ * the hit is cancelled, part of its damage is reflected to the attacker and the
+ * attacker is staggered. When the energy runs out the shield breaks and cannot
+ * be raised for a short time. Blocking works in the damage pipeline, so melee
+ * swings, enemy attacks, body slams and projectile hits all respect it.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, WorldLoopEvent)
+ * - Damage pipeline hooks from ./damage-pipeline
+ * - PoiseManager from ./poise-manager (parry stagger)
+ * - Shield types from ./shield-types
+ * - Geometry helpers from ../physics/physicsSystem
+ * - BLOCK_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { applyDamage, onPreDamage } from './damage-pipeline';
+import { DamageEvent } from './damage-types';
+import { PoiseManager } from './poise-manager';
+import { ShieldDefinition } from './shield-types';
+import { calculateHorizontalAngle, getFacingDirection } from '../physics/physicsSystem';
+import { BLOCK_CONFIG } from '../constants/combat-config';
+
+/**
+ * What happened to a hit that reached a shield-holding entity.
+ */
+export enum BlockOutcome {
+  BLOCKED = 'blocked',
+  PARRIED = 'parried',
+  BROKEN = 'broken',    // Blocked, but the hit drained the last of the shield's energy
+}
+
+interface ShieldState {
+  entity: Entity;
+  definition: ShieldDefinition;
+  energy: number;
+  blocking: boolean;
+  raisedAt: number;
+  lastDrainAt: number;      // Last time energy was drained or the shield was lowered
+  lockedUntil: number;      // Shield cannot be raised before this time
+  dirty: boolean;           // HUD needs an update
+}
+
+export class BlockManager {
+  private static _instance: BlockManager;
+  private shields: Map<number, ShieldState> = new Map(); // entityId -> shield state
+  private reflecting: boolean = false;                   // Set while applying parry damage, so it cannot be parried back
+  private lastUpdateAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the BlockManager.
+   */
+  public static get instance(): BlockManager {
+    if (!BlockManager._instance) {
+      BlockManager._instance = new BlockManager();
+    }
+    return BlockManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the damage pipeline and the world loop (energy regeneration).
+   * Should be called once when the server starts, after the PoiseManager.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.lastUpdateAt = Date.now();
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    // Runs after the damage modifiers (status effects 50, positional 60, combos 75),
+    // so the shield absorbs the hit as it would otherwise land
+    onPreDamage(event => this.handleHit(event), 90);
+
+    console.log('[BlockManager] Initialized.');
+  }
+
+  // ====================================
+  // Holding and raising shields
+  // ====================================
+
+  /**
+   * Gives an entity a shield, or takes it away. Energy is kept while the same shield stays equipped.
+   * @param entity The entity holding the shield
+   * @param definition The shield, or undefined to remove it
+   */
+  public setShield(entity: Entity, definition: ShieldDefinition | undefined): void {
+    const existing = this.shields.get(entity.id!);
+    if (!definition) {
+      this.shields.delete(entity.id!);
+      this.sendHud(entity, undefined);
+      return;
+    }
+    if (existing?.definition.id === definition.id) return;
+
+    const state: ShieldState = {
+      entity,
+      definition,
+      energy: definition.maxEnergy,
+      blocking: false,
+      raisedAt: 0,
+      lastDrainAt: 0,
+      lockedUntil: 0,
+      dirty: false,
+    };
+    this.shields.set(entity.id!, state);
+    this.sendHud(entity, state);
+  }
+
+  /**
+   * Raises an entity's shield. Raising opens the parry window.
+   * @param entity The entity
+   * @returns True if the shield was raised
+   */
+  public raiseShield(entity: Entity): boolean {
+    const state = this.shields.get(entity.id!);
+    if (!state || state.blocking || state.energy <= 0) return false;
+
+    const now = Date.now();
+    if (now < state.lockedUntil) return false;
+
+    state.blocking = true;
+    state.raisedAt = now;
+    this.sendHud(entity, state);
+    return true;
+  }
+
+  /**
+   * Lowers an entity's shield.
+   * @param entity The entity
+   * @param lockoutMs How long the shield cannot be raised again (defaults to BLOCK_CONFIG.RAISE_COOLDOWN_MS)
+   */
+  public lowerShield(entity: Entity, lockoutMs: number = BLOCK_CONFIG.RAISE_COOLDOWN_MS): void {
+    const state = this.shields.get(entity.id!);
+    if (!state || !state.blocking) return;
+
+    const now = Date.now();
+    state.blocking = false;
+    state.lastDrainAt = now;
+    state.lockedUntil = now + lockoutMs;
+    this.sendHud(entity, state);
+  }
+
+  /**
+   * Raises the shield if it is down, lowers it if it is up.
+   * @returns True if the shield is raised afterwards
+   */
+  public toggleShield(entity: Entity): boolean {
+    if (this.isBlocking(entity)) {
+      this.lowerShield(entity);
+      return false;
+    }
+    return this.raiseShield(entity);
+  }
+
+  public isBlocking(entity: Entity): boolean {
+    return !!this.shields.get(entity.id!)?.blocking;
+  }
+
+  /**
+   * Checks whether an entity's parry window is open.
+   */
+  public isParrying(entity: Entity): boolean {
+    const state = this.shields.get(entity.id!);
+    return !!state?.blocking && Date.now() - state.raisedAt <= state.definition.parryWindowMs;
+  }
+
+  /**
+   * Resends a player's shield state on the next update (e.g., after the HUD reloads).
+   */
+  public refreshHud(entity: Entity): void {
+    const state = this.shields.get(entity.id!);
+    if (state) state.dirty = true;
+  }
+
+  /**
+   * Drops an entity's shield state without updating its HUD (e.g., when a player leaves).
+   */
+  public removeEntity(entity: Entity): void {
+    this.shields.delete(entity.id!);
+  }
+
+  /**
+   * Gets an entity's remaining shield energy (0 without a shield).
+   */
+  public getShieldEnergy(entity: Entity): number {
+    return this.shields.get(entity.id!)?.energy ?? 0;
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Pre-damage hook: parries or blocks hits arriving from the front while the shield is raised.
+   */
+  private handleHit(event: DamageEvent): void {
+    const { source, target } = event;
+    if (this.reflecting || event.isPeriodic || !source || source === target) return;
+
+    const state = this.shields.get(target.id!);
+    if (!state?.blocking || !isInFrontArc(target, source.position, state.definition.arcDegrees)) return;
+
+    if (this.isParrying(target)) {
+      this.parry(event, state);
+    } else {
+      this.block(event, state);
+    }
+  }
+
+  /**
+   * Cancels a hit, reflects part of it to the attacker and staggers them.
+   */
+  private parry(event: DamageEvent, state: ShieldState): void {
+    const { definition } = state;
+    const attacker = event.source!;
+    const reflected = event.amount * definition.parryReflectMultiplier;
+    event.cancelled = true;
+
+    this.reflecting = true;
+    try {
+      if (reflected > 0) {
+        applyDamage(attacker, { amount: reflected, type: event.type, source: state.entity });
+      }
+      PoiseManager.instance.forceStagger(attacker, state.entity);
+    } finally {
+      this.reflecting = false;
+    }
+
+    this.sendHud(state.entity, state, BlockOutcome.PARRIED);
+  }
+
+  /**
+   * Absorbs part of a hit, paid for with shield energy. Breaks the shield if the energy runs out.
+   */
+  private block(event: DamageEvent, state: ShieldState): void {
+    const { definition } = state;
+    const wanted = event.amount * definition.blockReduction;
+    const absorbed = Math.min(wanted, state.energy / definition.energyPerDamage);
+
+    state.energy = Math.max(0, state.energy - absorbed * definition.energyPerDamage);
+    state.lastDrainAt = Date.now();
+    event.amount -= absorbed;
+
+    if (event.knockback && wanted > 0) {
+      const scale = 1 - definition.blockReduction * (absorbed / wanted);
+      event.knockback = { x: event.knockback.x * scale, y: event.knockback.y * scale, z: event.knockback.z * scale };
+    }
+
+    if (state.energy <= 0) {
+      this.lowerShield(state.entity, definition.breakLockoutMs);
+      this.sendHud(state.entity, state, BlockOutcome.BROKEN);
+    } else {
+      this.sendHud(state.entity, state, BlockOutcome.BLOCKED);
+    }
+  }
+
+  /**
+   * Regenerates energy of lowered shields and drops states of despawned entities.
+   */
+  private tick(): void {
+    const now = Date.now();
+    if (now - this.lastUpdateAt < BLOCK_CONFIG.HUD_UPDATE_INTERVAL_MS) return;
+    const elapsedSeconds = (now - this.lastUpdateAt) / 1000;
+    this.lastUpdateAt = now;
+
+    for (const [id, state] of this.shields) {
+      if (!state.entity.isSpawned) {
+        this.shields.delete(id);
+        continue;
+      }
+
+      const { definition } = state;
+      if (!state.blocking && state.energy < definition.maxEnergy && now - state.lastDrainAt >= definition.regenDelayMs) {
+        state.energy = Math.min(definition.maxEnergy, state.energy + definition.energyRegenPerSecond * elapsedSeconds);
+        state.dirty = true;
+      }
+
+      if (state.dirty) {
+        this.sendHud(state.entity, state);
+      }
+    }
+  }
+
+  /**
+   * Sends a player's shield state (and what just happened to it) to their HUD.
+   */
+  private sendHud(entity: Entity, state: ShieldState | undefined, outcome?: BlockOutcome): void {
+    if (state) state.dirty = false;
+    if (!(entity instanceof PlayerEntity)) return;
+
+    entity.player.ui.sendData({
+      type: 'shield',
+      payload: state
+        ? {
+            name: state.definition.name,
+            energy: state.energy,
+            maxEnergy: state.definition.maxEnergy,
+            blocking: state.blocking,
+            lockedMs: Math.max(0, state.lockedUntil - Date.now()),
+            outcome,
+          }
+        : null,
+    });
+  }
+}
+
+// ====================================
+// Geometry helpers
+// ====================================
+
+/**
+ * Checks whether a point lies within an entity's horizontal frontal arc (its local -Z axis).
+ */
+function isInFrontArc(entity: Entity, point: Vector3Like, arcDegrees: number): boolean {
+  const toPoint = { x: point.x - entity.position.x, y: 0, z: point.z - entity.position.z };
+  const angle = calculateHorizontalAngle(getFacingDirection(entity), toPoint) * (180 / Math.PI);
+  return angle <= arcDegrees / 2;
+}
@@ -1,21 +1,18 @@
 /**
  * Combat System for CyberCrawler
- * Implements physics-based combat with momentum-based damage calculations
+ * Implements physics-based combat with momentum-based damage calculations.
+ * All damage is routed through the damage pipeline (see: ./damage-pipeline.ts).
  */
 
-import { World, Entity, EntityEvent, PlayerEntity, Vector3 } from 'hytopia'; // Reverted imports
-import { calculateMomentumDamage } from '../physics/physicsSystem';
-import { updatePlayerHealth } from '../player/playerController';
+import { World, Entity, EntityEvent, PlayerEntity, Vector3Like } from 'hytopia';
+import { calculateMomentumDamage, calculateMomentumMultiplier } from '../physics/physicsSystem';
+import { applyDamage } from './damage-pipeline';
+import { FactionManager } from './faction-manager';
+import { DamageEvent, DamageType } from './damage-types';
+import { KNOCKBACK_CONFIG } from '../constants/combat-config';
 
 // Combat constants
 const COMBAT_CONSTANTS = {
-  // Base damage multipliers for different weapon types
-  WEAPON_DAMAGE_MULTIPLIERS: {
-    FIST: 1.0,
-    LIGHT_MELEE: 1.5,
-    HEAVY_MELEE: 2.5,
-    PROJECTILE: 1.2,
-  },
   // Additional impact force for knockback
   KNOCKBACK_MULTIPLIER: 1.5,
   // Threshold velocity for registering an attack
@@ -33,195 +30,131 @@ export function initCombatSystem(world: World): void {
   }
   console.log('Initializing combat system...');
 
-  // Set up global collision handling for combat
-  // Set up global collision handling for combat
-  // NOTE: Removing reliance on impactVelocity and impactPoint in this global handler
-  // as they seem unavailable based on errors and rules. Momentum damage here is disabled.
+  // Set up global collision handling for combat.
+  // The collision payload carries no impact velocity, so it is derived from
+  // the linear velocities of the two entities instead.
   world.on(EntityEvent.ENTITY_COLLISION, ({ entity, otherEntity, started }) => {
     // Only process at the start of collision
     if (!started || !entity || !otherEntity) return;
 
-    // Call handler without impact details for basic type checking
-    handleCollisionSimple(entity, otherEntity);
+    handleCollision(entity, otherEntity);
   });
   
   console.log('Combat system initialized');
 }
 
 /**
- * Handles simple collision checks without impact details.
+ * Handles body collisions between players and enemies.
+ * A player slamming into a hostile entity fast enough (e.g., a dash) deals momentum damage.
  */
-function handleCollisionSimple(entity: Entity, otherEntity: Entity): void {
-  // Assuming 'hasTag' exists, despite TS errors. Add checks if needed.
-  const isWeapon = (entity as any).hasTag?.('weapon');
-  const isEnemy = (otherEntity as any).hasTag?.('enemy');
-  const isPlayer = otherEntity instanceof PlayerEntity;
-
-  // Basic logging for now
-  if (isWeapon && (isEnemy || isPlayer)) {
-    console.log(`Collision detected: Weapon ${entity.id} hit ${otherEntity.id}`);
-    // TODO: Implement collision-based damage/effects if needed,
-    // potentially via collider's onCollision or by adding tags/components here.
-  } else if ((entity instanceof PlayerEntity && isEnemy) || (isEnemy && isPlayer)) {
-     console.log(`Collision detected: Player/Enemy collision between ${entity.id} and ${otherEntity.id}`);
-     // TODO: Apply damage from simple collision?
-  }
+function handleCollision(entity: Entity, otherEntity: Entity): void {
+  if (!(entity instanceof PlayerEntity) || !FactionManager.instance.isHostile(entity, otherEntity)) return;
+
+  const impactVelocity = getRelativeSpeed(entity, otherEntity);
+  processMomentumDamage(entity, otherEntity, impactVelocity, entity.position);
 }
 
-// --- Momentum/Knockback functions are kept but may be unused by the global handler ---
+/**
+ * Calculates the magnitude of the velocity of one entity relative to another.
+ */
+function getRelativeSpeed(entity: Entity, otherEntity: Entity): number {
+  const a = entity.linearVelocity;
+  const b = otherEntity.linearVelocity;
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
 
 /**
- * Processes a weapon hitting an entity (Potentially unused by global handler now)
- * Kept for potential use with collider-specific onCollision handlers.
+ * Processes a melee weapon hit, scaling the weapon's base damage by the
+ * attacker's momentum and approach angle before sending it through the
+ * damage pipeline. Used by both WeaponEntity and CyberCrawlerController.
+ *
+ * @param attacker The entity swinging the weapon (usually the player)
+ * @param target The entity that was hit
+ * @param baseDamage The weapon's unmodified damage
+ * @param attackDirection Direction of the swing (e.g., camera facing direction)
+ * @param options Optional damage type and critical flag
+ * @returns The processed DamageEvent, or null if no damage was applied
  */
-function processWeaponHit(
-  weapon: Entity,
+export function processWeaponHit(
+  attacker: Entity,
   target: Entity,
-  impactVelocity: number,
-  impactPoint: Vector3
-): void {
-  // Assuming getMetadata exists
-  const weaponType = (weapon as any).getMetadata?.('weaponType') || 'FIST';
-  const damageMultiplier = COMBAT_CONSTANTS.WEAPON_DAMAGE_MULTIPLIERS[weaponType as keyof typeof COMBAT_CONSTANTS.WEAPON_DAMAGE_MULTIPLIERS] || 1.0;
-
-  // Calculate base damage from momentum
-  const weaponMass = (weapon as any).mass || 1.0; // Use safe access/default
-  const baseDamage = calculateMomentumDamage(impactVelocity, weaponMass);
-  const totalDamage = baseDamage * damageMultiplier;
-
-  applyDamage(target, totalDamage);
-  applyKnockback(weapon, target, impactVelocity, impactPoint); // Knockback might still work if called elsewhere
-
-  console.log(`Weapon hit: ${weapon.id} hit ${target.id} for ${totalDamage.toFixed(1)} damage`);
+  baseDamage: number,
+  attackDirection: Vector3Like,
+  options: { type?: DamageType; isCritical?: boolean } = {}
+): DamageEvent | null {
+  const multiplier = calculateMomentumMultiplier(attacker.linearVelocity, attackDirection);
+  const totalDamage = baseDamage * multiplier;
+  const knockbackSpeed = KNOCKBACK_CONFIG.BASE_SPEED + totalDamage * KNOCKBACK_CONFIG.SPEED_PER_DAMAGE;
+
+  return applyDamage(target, {
+    amount: totalDamage,
+    type: options.type ?? DamageType.KINETIC,
+    source: attacker,
+    isCritical: options.isCritical,
+    knockback: calculateKnockback(target, attacker.position, knockbackSpeed),
+  });
 }
 
 /**
- * Processes damage from physics-based momentum transfer (Potentially unused by global handler now)
+ * Processes damage from physics-based momentum transfer (body slams).
  */
 function processMomentumDamage(
   entity: Entity,
   target: Entity,
   impactVelocity: number,
-  impactPoint: Vector3
+  impactPoint: Vector3Like
 ): void {
-  const entityMass = (entity as any).mass || 1.0; // Use safe access/default
+  const entityMass = entity.mass || 1.0;
   const damage = calculateMomentumDamage(impactVelocity, entityMass);
 
-  if (damage > 1) { // Lowered threshold as calc might be inaccurate if called without real velocity
-    applyDamage(target, damage);
-    applyKnockback(entity, target, impactVelocity, impactPoint);
-    console.log(`Momentum damage: ${entity.id} hit ${target.id} for ${damage.toFixed(1)} damage`);
-  }
-}
-
-/**
- * Applies damage to an entity (Still used by player controller)
- */
-export function applyDamage(entity: Entity, damage: number): void {
-  // If entity has a takeDamage method, call it
-  if (typeof (entity as any).takeDamage === 'function') {
-    (entity as any).takeDamage(damage);
-    return;
-  }
-
-  if (entity instanceof PlayerEntity) {
-    const playerId = entity.player?.id;
-    // Use player ID for logging as 'name' and 'displayName' seem incorrect
-    const playerIdentifier = entity.player?.id || 'Unknown Player';
-    if (playerId) {
-      const newHealth = updatePlayerHealth(playerId, -damage);
-      console.log(`Player ${playerIdentifier} health: ${newHealth}`);
-
-      // Flash red on player entity
-      try {
-        entity.setTintColor?.({ r: 255, g: 0, b: 0 });
-        setTimeout(() => {
-          entity.setTintColor?.({ r: 255, g: 255, b: 255 });
-        }, 200);
-      } catch {}
-
-      // Update player HUD health bar if exists
-      try {
-        const playerHealthBar = (entity as any).healthBar;
-        if (playerHealthBar) {
-          playerHealthBar.setState({ health: newHealth });
-        }
-      } catch {}
-
-      // TODO: Implement player death handling
-    }
-  } else {
-    // Assuming hasMetadata/getMetadata/setMetadata exist
-    if ((entity as any).hasMetadata?.('health')) {
-      const currentHealth = (entity as any).getMetadata?.('health') as number || 0;
-      const newHealth = Math.max(0, currentHealth - damage);
-      (entity as any).setMetadata?.('health', newHealth);
-
-      if (newHealth <= 0) {
-        handleEntityDestruction(entity); // Assumes handleEntityDestruction works
-      }
-    }
+  if (damage > 1) {
+    applyDamage(target, {
+      amount: damage,
+      type: DamageType.KINETIC,
+      source: entity,
+      knockback: calculateKnockback(target, impactPoint, impactVelocity * COMBAT_CONSTANTS.KNOCKBACK_MULTIPLIER),
+    });
   }
 }
 
 /**
- * Applies knockback effect to an entity (Kept for potential use)
+ * Calculates the knockback impulse for a hit.
+ * The target is pushed away from the impact point (horizontally, with a slight
+ * upward bias), and the impulse is scaled by the target's mass so the resulting
+ * knockback speed is consistent across entities.
+ *
+ * @param target The entity being knocked back
+ * @param impactPoint Where the hit came from (e.g., attacker position)
+ * @param knockbackSpeed Desired knockback speed in m/s (capped by KNOCKBACK_CONFIG.MAX_SPEED)
+ * @returns The impulse to apply, or undefined if no direction can be determined
  */
-function applyKnockback(
-  source: Entity,
+export function calculateKnockback(
   target: Entity,
-  impactVelocity: number,
-  impactPoint: Vector3
-): void {
-  // Assuming getPosition exists
-  const targetPosition = (target as any).getPosition?.();
-  if (!targetPosition || !impactPoint) return; // Added check for impactPoint
+  impactPoint: Vector3Like,
+  knockbackSpeed: number
+): Vector3Like | undefined {
+  const targetPosition = target.position;
+  if (!targetPosition || !impactPoint) return undefined;
 
   const direction = {
     x: targetPosition.x - impactPoint.x,
-    y: targetPosition.y - impactPoint.y,
+    y: 0,
     z: targetPosition.z - impactPoint.z,
   };
 
-  const magnitude = Math.sqrt(direction.x**2 + direction.y**2 + direction.z**2);
-  if (magnitude > 0) {
-    direction.x /= magnitude;
-    direction.y /= magnitude;
-    direction.z /= magnitude;
-    direction.y += 0.3; // Slight upward component
-
-    const targetMass = (target as any).mass || 1.0; // Safe access/default
-    const knockbackForce = impactVelocity * targetMass * COMBAT_CONSTANTS.KNOCKBACK_MULTIPLIER;
-
-    // Assuming applyImpulse exists
-    (target as any).applyImpulse?.({
-      x: direction.x * knockbackForce,
-      y: direction.y * knockbackForce,
-      z: direction.z * knockbackForce,
-    });
-  }
-}
+  const magnitude = Math.sqrt(direction.x ** 2 + direction.z ** 2);
+  if (magnitude === 0) return undefined;
 
-/**
- * Handles entity destruction when health reaches zero (Kept for use by applyDamage)
- */
-function handleEntityDestruction(entity: Entity): void {
-  // Assuming hasMetadata/getMetadata exist
-  const hasCustomDestruction = (entity as any).hasMetadata?.('onDestroy');
-  const onDestroyFn = (entity as any).getMetadata?.('onDestroy');
-
-  if (hasCustomDestruction && typeof onDestroyFn === 'function') {
-    try {
-      onDestroyFn(entity);
-    } catch (e) {
-      console.error(`Error executing onDestroy for entity ${entity.id}:`, e);
-      (entity as any).despawn?.(); // Fallback, assuming despawn exists
-    }
-  } else {
-    // Default destruction
-    console.log(`Default destruction for ${entity.id}`);
-    (entity as any).despawn?.(); // Assuming despawn exists
-  }
+  direction.x /= magnitude;
+  direction.z /= magnitude;
+  direction.y = KNOCKBACK_CONFIG.UPWARD_BIAS; // Slight upward component
+
+  const targetMass = target.mass || 1.0;
+  const impulse = Math.min(knockbackSpeed, KNOCKBACK_CONFIG.MAX_SPEED) * targetMass;
 
-  console.log(`Entity ${entity.id} destroyed`);
+  return {
+    x: direction.x * impulse,
+    y: direction.y * impulse,
+    z: direction.z * impulse,
+  };
 }
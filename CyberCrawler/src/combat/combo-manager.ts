@@ -0,0 +1,243 @@
+/**
+ * Combo Manager - Chain impacts and cooperative hit bonuses
+ *
+ * Tracks the recent hit history of every damaged entity across all attackers.
+ * Hits landing within COMBO_CONFIG.DECAY_MS of each other build a chain, and each
+ * hit in the chain raises the damage of the next one. Chains grow faster when
+ * several players contribute, and when the chain is passed between players
+ * (volleying). Combo counts are shown on the target (ComboDisplay, e.g. enemy
+ * health bars) and on the attacking player's HUD.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, WorldLoopEvent)
+ * - Damage pipeline hooks from ./damage-pipeline
+ * - Combo constants from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { onPostDamage, onPreDamage, resolveDamageable } from './damage-pipeline';
+import { DamageEvent } from './damage-types';
+import { COMBO_CONFIG } from '../constants/combat-config';
+
+/**
+ * A single hit recorded in a target's history.
+ */
+export interface ComboHit {
+  attackerId: number;
+  isPlayer: boolean;
+  amount: number;
+  timestamp: number;
+}
+
+/**
+ * UI-friendly summary of a target's current chain.
+ */
+export interface ComboSummary {
+  count: number;          // Hits in the chain (0 when no chain is active)
+  multiplier: number;     // Damage multiplier the next hit will receive
+  players: number;        // Distinct players contributing to the chain
+}
+
+/**
+ * Implemented by entities that display their own combo count
+ * (e.g., enemies with a floating HealthBar).
+ */
+export interface ComboDisplay {
+  showCombo(combo: ComboSummary): void;
+}
+
+interface ComboChain {
+  entity: Entity;
+  hits: ComboHit[];
+  count: number;
+  bonus: number;             // Accumulated per-hit bonus
+  players: Set<number>;      // Entity IDs of contributing players
+  lastAttackerId?: number;
+  lastHitAt: number;
+}
+
+export class ComboManager {
+  private static _instance: ComboManager;
+  private chains: Map<number, ComboChain> = new Map();
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the ComboManager.
+   */
+  public static get instance(): ComboManager {
+    if (!ComboManager._instance) {
+      ComboManager._instance = new ComboManager();
+    }
+    return ComboManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop (chain decay) and the damage pipeline.
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    // Runs after the status effect modifiers (priority 50)
+    onPreDamage(event => {
+      if (!this.countsAsHit(event)) return;
+      event.amount *= this.getMultiplier(event.target);
+    }, 75);
+
+    onPostDamage(event => this.recordHit(event));
+
+    console.log('[ComboManager] Initialized.');
+  }
+
+  /**
+   * Gets the damage multiplier the next hit on an entity will receive.
+   * @param entity The target entity
+   * @returns 1 when no chain is active, up to COMBO_CONFIG.MAX_MULTIPLIER
+   */
+  public getMultiplier(entity: Entity): number {
+    const chain = this.getActiveChain(entity);
+    if (!chain) return 1;
+
+    const coopBonus = Math.max(0, chain.players.size - 1) * COMBO_CONFIG.COOP_BONUS_PER_EXTRA_PLAYER;
+    return Math.min(COMBO_CONFIG.MAX_MULTIPLIER, 1 + chain.bonus + coopBonus);
+  }
+
+  /**
+   * Gets the number of hits in an entity's current chain.
+   */
+  public getComboCount(entity: Entity): number {
+    return this.getActiveChain(entity)?.count ?? 0;
+  }
+
+  /**
+   * Gets the recent hits recorded on an entity, oldest first.
+   */
+  public getHitHistory(entity: Entity): ComboHit[] {
+    return [...(this.getActiveChain(entity)?.hits ?? [])];
+  }
+
+  /**
+   * Builds a UI summary of an entity's current chain.
+   */
+  public getSummary(entity: Entity): ComboSummary {
+    const chain = this.getActiveChain(entity);
+    return {
+      count: chain?.count ?? 0,
+      multiplier: this.getMultiplier(entity),
+      players: chain?.players.size ?? 0,
+    };
+  }
+
+  /**
+   * Ends an entity's chain (e.g., on death).
+   */
+  public resetCombo(entity: Entity): void {
+    if (this.chains.delete(entity.id!)) {
+      this.notifyTarget(entity);
+    }
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Only direct hits from another entity take part in chains.
+   */
+  private countsAsHit(event: DamageEvent): boolean {
+    return !!event.source && event.source !== event.target && !event.isPeriodic;
+  }
+
+  private getActiveChain(entity: Entity): ComboChain | undefined {
+    const chain = this.chains.get(entity.id!);
+    if (!chain || Date.now() - chain.lastHitAt > COMBO_CONFIG.DECAY_MS) return undefined;
+    return chain;
+  }
+
+  /**
+   * Adds a processed hit to the target's chain and updates the displays.
+   */
+  private recordHit(event: DamageEvent): void {
+    if (!this.countsAsHit(event) || event.amount <= 0) return;
+
+    const { target } = event;
+    const source = event.source!;
+
+    if (resolveDamageable(target)?.isDead()) {
+      this.resetCombo(target);
+      return;
+    }
+
+    let chain = this.getActiveChain(target);
+    if (!chain) {
+      chain = { entity: target, hits: [], count: 0, bonus: 0, players: new Set(), lastHitAt: 0 };
+      this.chains.set(target.id!, chain);
+    }
+
+    const isPlayer = source instanceof PlayerEntity;
+    const isVolley = isPlayer && chain.lastAttackerId !== undefined &&
+      chain.lastAttackerId !== source.id && chain.players.has(chain.lastAttackerId);
+
+    chain.count++;
+    chain.bonus += isVolley ? COMBO_CONFIG.VOLLEY_BONUS_PER_HIT : COMBO_CONFIG.BONUS_PER_HIT;
+    if (isPlayer) chain.players.add(source.id!);
+    chain.lastAttackerId = source.id;
+    chain.lastHitAt = event.timestamp;
+
+    chain.hits.push({ attackerId: source.id!, isPlayer, amount: event.amount, timestamp: event.timestamp });
+    if (chain.hits.length > COMBO_CONFIG.MAX_HISTORY) {
+      chain.hits.shift();
+    }
+
+    this.notifyTarget(target);
+    if (source instanceof PlayerEntity) {
+      this.notifyAttacker(source, target);
+    }
+  }
+
+  /**
+   * Shows the chain on the target's own display.
+   */
+  private notifyTarget(entity: Entity): void {
+    const display = entity as unknown as ComboDisplay;
+    if (typeof display.showCombo === 'function') {
+      display.showCombo(this.getSummary(entity));
+    }
+  }
+
+  /**
+   * Sends the chain the player just extended to their HUD.
+   */
+  private notifyAttacker(attacker: PlayerEntity, target: Entity): void {
+    attacker.player.ui.sendData({
+      type: 'combo',
+      payload: { ...this.getSummary(target), targetId: target.id, decayMs: COMBO_CONFIG.DECAY_MS },
+    });
+  }
+
+  /**
+   * Drops chains that have decayed or whose target is gone.
+   */
+  private tick(): void {
+    const now = Date.now();
+    for (const [id, chain] of this.chains) {
+      if (!chain.entity.isSpawned) {
+        this.chains.delete(id);
+      } else if (now - chain.lastHitAt > COMBO_CONFIG.DECAY_MS) {
+        this.chains.delete(id);
+        this.notifyTarget(chain.entity);
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Damage Pipeline - Single entry point for dealing damage in CyberCrawler
+ *
+ * Every source of damage (melee, projectiles, environment) calls applyDamage.
+ * The pipeline builds a DamageEvent, runs pre-damage hooks (which may modify
+ * or cancel it), mitigates it by the target's resistances, hands it to the
+ * target's Damageable implementation, and then runs post-damage hooks for
+ * feedback, logging and bookkeeping.
+ *
+ * The hook registry, event construction and mitigation live in
+ * ./damage-processing.ts; this module ties them to entities.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity, PlayerEntity
+ * - Damage types from ./damage-types
+ * - Processing stages from ./damage-processing
+ * - Player health adapter from ../player/player-health
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity } from 'hytopia';
+
+// Project modules
+import { Damageable, DamageEvent, DamageOptions } from './damage-types';
+import { createDamageEvent, finishDamage, prepareDamage } from './damage-processing';
+import { getPlayerDamageable } from '../player/player-health';
+
+// Systems subscribe to the pipeline's hooks through this module
+export { onPostDamage, onPreDamage } from './damage-processing';
+
+// ====================================
+// Main functionality
+// ====================================
+
+/**
+ * Type guard for entities implementing the Damageable contract.
+ * @param entity The entity to check
+ * @returns True if the entity can receive DamageEvents directly
+ */
+export function isDamageable(entity: unknown): entity is Entity & Damageable {
+  if (!(entity instanceof Entity)) return false;
+
+  const candidate = entity as Entity & Partial<Damageable>;
+  return (
+    typeof candidate.takeDamage === 'function' &&
+    typeof candidate.isDead === 'function' &&
+    typeof candidate.health === 'number'
+  );
+}
+
+/**
+ * Resolves the Damageable implementation for an entity, if any.
+ * @param entity The entity to resolve
+ * @returns The Damageable for the entity, or null if it cannot take damage
+ */
+export function resolveDamageable(entity: Entity): Damageable | null {
+  if (isDamageable(entity)) return entity;
+  if (entity instanceof PlayerEntity) return getPlayerDamageable(entity);
+  return null;
+}
+
+/**
+ * Applies damage to an entity through the damage pipeline.
+ *
+ * @param target The entity receiving damage
+ * @param options Damage amount, type, source, crit flag and knockback
+ * @returns The processed DamageEvent, or null if the target cannot take
+ *          damage or the event was cancelled by a hook
+ *
+ * Example usage:
+ *   applyDamage(enemy, { amount: 15, type: DamageType.KINETIC, source: playerEntity });
+ */
+export function applyDamage(target: Entity, options: DamageOptions): DamageEvent | null {
+  const damageable = resolveDamageable(target);
+  if (!damageable || damageable.isDead()) return null;
+
+  const event = createDamageEvent(target, options);
+  if (!prepareDamage(event, damageable.resistances)) return null;
+
+  damageable.takeDamage(event);
+
+  if (event.knockback && target.isSpawned) {
+    target.applyImpulse(event.knockback);
+  }
+
+  finishDamage(event);
+  return event;
+}
+
+/**
+ * Rolls whether an attack is a critical hit.
+ * @param chance Probability between 0 and 1
+ * @returns True if the attack crits
+ */
+export function rollCritical(chance: number): boolean {
+  return Math.random() < chance;
+}
@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { Entity } from 'hytopia';
+
+import {
+  createDamageEvent,
+  finishDamage,
+  getResistance,
+  onPostDamage,
+  onPreDamage,
+  prepareDamage,
+} from './damage-processing';
+import { DamageEvent, DamageType } from './damage-types';
+import { ARMOR_CONFIG, CRITICAL_HIT_MULTIPLIER } from '../constants/combat-config';
+
+const target = {} as Entity;
+let unsubscribers: (() => void)[] = [];
+
+function hit(amount: number, type: DamageType = DamageType.KINETIC, isCritical = false): DamageEvent {
+  return createDamageEvent(target, { amount, type, isCritical });
+}
+
+afterEach(() => {
+  unsubscribers.forEach(unsubscribe => unsubscribe());
+  unsubscribers = [];
+});
+
+describe('createDamageEvent', () => {
+  test('fills in defaults', () => {
+    const event = createDamageEvent(target, { amount: 10 });
+    expect(event.type).toBe(DamageType.KINETIC);
+    expect(event.baseAmount).toBe(10);
+    expect(event.amount).toBe(10);
+    expect(event.isCritical).toBe(false);
+    expect(event.isPeriodic).toBe(false);
+    expect(event.cancelled).toBe(false);
+  });
+
+  test('multiplies critical hits but keeps the base amount', () => {
+    const event = hit(10, DamageType.ENERGY, true);
+    expect(event.amount).toBe(10 * CRITICAL_HIT_MULTIPLIER);
+    expect(event.baseAmount).toBe(10);
+  });
+});
+
+describe('damage hooks', () => {
+  test('run by priority, then in registration order', () => {
+    const order: string[] = [];
+    unsubscribers.push(
+      onPreDamage(() => order.push('default-a')),
+      onPreDamage(() => order.push('late'), 200),
+      onPreDamage(() => order.push('early'), 10),
+      onPreDamage(() => order.push('default-b')),
+    );
+
+    prepareDamage(hit(10), undefined);
+    expect(order).toEqual(['early', 'default-a', 'default-b', 'late']);
+  });
+
+  test('see the changes of earlier hooks', () => {
+    unsubscribers.push(
+      onPreDamage(event => { event.amount *= 2; }, 10),
+      onPreDamage(event => { event.amount += 5; }, 20),
+    );
+
+    const event = hit(10);
+    prepareDamage(event, undefined);
+    expect(event.amount).toBe(25);
+  });
+
+  test('stop at the first hook that cancels', () => {
+    let laterRan = false;
+    unsubscribers.push(
+      onPreDamage(event => { event.cancelled = true; }, 10),
+      onPreDamage(() => { laterRan = true; }, 20),
+    );
+
+    expect(prepareDamage(hit(10), undefined)).toBe(false);
+    expect(laterRan).toBe(false);
+  });
+
+  test('keep running when a hook throws', () => {
+    const originalError = console.error;
+    console.error = () => {};
+    let ran = false;
+    unsubscribers.push(
+      onPreDamage(() => { throw new Error('broken hook'); }, 10),
+      onPreDamage(() => { ran = true; }, 20),
+    );
+
+    try {
+      expect(prepareDamage(hit(10), undefined)).toBe(true);
+    } finally {
+      console.error = originalError;
+    }
+    expect(ran).toBe(true);
+  });
+
+  test('can be unregistered', () => {
+    let calls = 0;
+    const unsubscribe = onPreDamage(() => { calls++; });
+    prepareDamage(hit(10), undefined);
+    unsubscribe();
+    prepareDamage(hit(10), undefined);
+    expect(calls).toBe(1);
+  });
+
+  test('post-damage hooks see the mitigated event', () => {
+    let seen = 0;
+    unsubscribers.push(onPostDamage(event => { seen = event.amount; }));
+
+    const event = hit(20);
+    prepareDamage(event, { [DamageType.KINETIC]: 0.25 });
+    finishDamage(event);
+    expect(seen).toBe(15);
+  });
+});
+
+describe('mitigation', () => {
+  test('absorbs the resisted fraction of the matching type only', () => {
+    const resistances = { [DamageType.ENERGY]: 0.5 };
+
+    const energy = hit(40, DamageType.ENERGY);
+    prepareDamage(energy, resistances);
+    expect(energy.amount).toBe(20);
+    expect(energy.mitigatedAmount).toBe(20);
+
+    const kinetic = hit(40, DamageType.KINETIC);
+    prepareDamage(kinetic, resistances);
+    expect(kinetic.amount).toBe(40);
+    expect(kinetic.mitigatedAmount).toBe(0);
+  });
+
+  test('applies after the pre-damage hooks', () => {
+    unsubscribers.push(onPreDamage(event => { event.amount *= 2; }));
+
+    const event = hit(10, DamageType.BIO);
+    prepareDamage(event, { [DamageType.BIO]: 0.5 });
+    expect(event.amount).toBe(10);
+  });
+
+  test('turns weaknesses into extra damage', () => {
+    const event = hit(10, DamageType.EXPLOSIVE);
+    prepareDamage(event, { [DamageType.EXPLOSIVE]: -0.5 });
+    expect(event.amount).toBe(15);
+    expect(event.mitigatedAmount).toBe(-5);
+  });
+
+  test('never leaves negative damage', () => {
+    unsubscribers.push(onPreDamage(event => { event.amount = -10; }));
+
+    const event = hit(10);
+    prepareDamage(event, undefined);
+    expect(event.amount).toBe(0);
+  });
+
+  test('clamps resistances to the configured range', () => {
+    expect(getResistance({ [DamageType.KINETIC]: 2 }, DamageType.KINETIC)).toBe(ARMOR_CONFIG.MAX_RESISTANCE);
+    expect(getResistance({ [DamageType.KINETIC]: -5 }, DamageType.KINETIC)).toBe(ARMOR_CONFIG.MIN_RESISTANCE);
+    expect(getResistance(undefined, DamageType.KINETIC)).toBe(0);
+  });
+});
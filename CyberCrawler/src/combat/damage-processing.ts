@@ -0,0 +1,160 @@
+/**
+ * Damage Processing - The world-free stages of the damage pipeline
+ *
+ * Builds DamageEvents, keeps the pre/post-damage hook registry and runs the hooks
+ * and resistance mitigation on an event. applyDamage (./damage-pipeline.ts)
+ * strings these stages together around the target's Damageable; they only touch
+ * the event itself, so they can be tested without a running world.
+ *
+ * Dependencies:
+ * - Damage types from ./damage-types
+ * - CRITICAL_HIT_MULTIPLIER and ARMOR_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity } from 'hytopia';
+
+// Project modules
+import { DamageEvent, DamageOptions, DamageType, Resistances } from './damage-types';
+import { ARMOR_CONFIG, CRITICAL_HIT_MULTIPLIER } from '../constants/combat-config';
+
+// ====================================
+// Hook registry
+// ====================================
+
+/**
+ * A hook receives the event being processed. Pre-damage hooks may mutate it.
+ */
+export type DamageHook = (event: DamageEvent) => void;
+
+interface RegisteredHook {
+  hook: DamageHook;
+  priority: number;
+}
+
+const preDamageHooks: RegisteredHook[] = [];
+const postDamageHooks: RegisteredHook[] = [];
+
+/**
+ * Inserts a hook keeping the list sorted by priority (lower runs first).
+ * Hooks with equal priority run in registration order.
+ */
+function addHook(list: RegisteredHook[], hook: DamageHook, priority: number): () => void {
+  const entry = { hook, priority };
+  const index = list.findIndex(existing => existing.priority > priority);
+  if (index === -1) {
+    list.push(entry);
+  } else {
+    list.splice(index, 0, entry);
+  }
+
+  return () => {
+    const i = list.indexOf(entry);
+    if (i !== -1) list.splice(i, 1);
+  };
+}
+
+/**
+ * Registers a hook that runs before damage is applied.
+ * Use it to scale `event.amount` (buffs, armor) or set `event.cancelled`.
+ *
+ * @param hook The hook function
+ * @param priority Ordering key; lower values run first (default 100)
+ * @returns A function that unregisters the hook
+ */
+export function onPreDamage(hook: DamageHook, priority: number = 100): () => void {
+  return addHook(preDamageHooks, hook, priority);
+}
+
+/**
+ * Registers a hook that runs after damage has been applied to the target.
+ * The event should be treated as read-only at this point.
+ *
+ * @param hook The hook function
+ * @param priority Ordering key; lower values run first (default 100)
+ * @returns A function that unregisters the hook
+ */
+export function onPostDamage(hook: DamageHook, priority: number = 100): () => void {
+  return addHook(postDamageHooks, hook, priority);
+}
+
+/**
+ * Runs every hook in a list, isolating failures so one broken
+ * subscriber cannot stop the rest of the pipeline.
+ */
+function runHooks(list: RegisteredHook[], event: DamageEvent, stopOnCancel: boolean): void {
+  for (const { hook } of [...list]) {
+    try {
+      hook(event);
+    } catch (error) {
+      console.error('[DamagePipeline] Damage hook threw an error:', error);
+    }
+    if (stopOnCancel && event.cancelled) return;
+  }
+}
+
+// ====================================
+// Processing stages
+// ====================================
+
+/**
+ * Builds the DamageEvent for a hit. Critical hits are multiplied by CRITICAL_HIT_MULTIPLIER.
+ * @param target The entity receiving damage
+ * @param options Damage amount, type, source, crit flag and knockback
+ */
+export function createDamageEvent(target: Entity, options: DamageOptions): DamageEvent {
+  const isCritical = options.isCritical ?? false;
+  return {
+    target,
+    source: options.source,
+    type: options.type ?? DamageType.KINETIC,
+    baseAmount: options.amount,
+    amount: isCritical ? options.amount * CRITICAL_HIT_MULTIPLIER : options.amount,
+    mitigatedAmount: 0,
+    isCritical,
+    knockback: options.knockback,
+    isPeriodic: options.isPeriodic ?? false,
+    isRanged: options.isRanged ?? false,
+    hitPoint: options.hitPoint,
+    cancelled: false,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Runs the pre-damage hooks on an event, then mitigates it by the target's resistances.
+ * Hooks stop running as soon as one cancels the event.
+ * @param event The event to process
+ * @param resistances The target's resistances, if any
+ * @returns False if a hook cancelled the event
+ */
+export function prepareDamage(event: DamageEvent, resistances: Resistances | undefined): boolean {
+  runHooks(preDamageHooks, event, true);
+  if (event.cancelled) return false;
+
+  event.amount = Math.max(0, event.amount);
+  event.mitigatedAmount = event.amount * getResistance(resistances, event.type);
+  event.amount = Math.max(0, event.amount - event.mitigatedAmount);
+  return true;
+}
+
+/**
+ * Runs the post-damage hooks on an event that has been applied.
+ */
+export function finishDamage(event: DamageEvent): void {
+  runHooks(postDamageHooks, event, false);
+}
+
+/**
+ * Gets the fraction of damage of a type absorbed by a set of resistances,
+ * clamped to ARMOR_CONFIG.MIN_RESISTANCE..MAX_RESISTANCE.
+ * @param resistances The target's resistances, if any
+ * @param type The damage type
+ * @returns The absorbed fraction (negative for weaknesses)
+ */
+export function getResistance(resistances: Resistances | undefined, type: DamageType): number {
+  const value = resistances?.[type] ?? 0;
+  return Math.max(ARMOR_CONFIG.MIN_RESISTANCE, Math.min(ARMOR_CONFIG.MAX_RESISTANCE, value));
+}
@@ -0,0 +1,90 @@
+/**
+ * Damage Types - Shared types for the CyberCrawler damage pipeline
+ *
+ * Defines the damage type enum, the DamageEvent passed through the pipeline,
+ * and the Damageable contract that any entity able to take damage implements.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity, Vector3Like
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Entity, Vector3Like } from 'hytopia';
+
+// ====================================
+// Damage types
+// ====================================
+
+/**
+ * Categories of damage. Used by resistances, effects and UI styling.
+ */
+export enum DamageType {
+  KINETIC = 'kinetic',
+  ENERGY = 'energy',
+  EXPLOSIVE = 'explosive',
+  BIO = 'bio',
+}
+
+/**
+ * Fraction of incoming damage absorbed per damage type (0.2 = 20% less damage).
+ * Negative values are weaknesses (-0.25 = 25% more damage).
+ */
+export type Resistances = { [type in DamageType]?: number };
+
+// ====================================
+// Damage event
+// ====================================
+
+/**
+ * Options supplied by a caller of applyDamage.
+ * Only the amount is required; everything else has a sensible default.
+ */
+export interface DamageOptions {
+  amount: number;              // Raw damage before any pipeline modifiers
+  type?: DamageType;           // Defaults to DamageType.KINETIC
+  source?: Entity;             // Entity responsible for the damage (attacker, projectile owner)
+  isCritical?: boolean;        // Whether the hit was a critical hit
+  knockback?: Vector3Like;     // Impulse to apply to the target, if any (see calculateKnockback)
+  isPeriodic?: boolean;        // Damage-over-time tick (burn, bleed) rather than a hit
+  isRanged?: boolean;          // Delivered by a projectile or beam rather than in melee
+  hitPoint?: Vector3Like;      // World position of the impact, if known (used for hit feedback)
+}
+
+/**
+ * A single damage instance travelling through the pipeline.
+ * Pre-damage hooks may mutate `amount`, `knockback` or set `cancelled`.
+ */
+export interface DamageEvent {
+  target: Entity;
+  source?: Entity;
+  type: DamageType;
+  baseAmount: number;          // Amount as originally requested (read-only by convention)
+  amount: number;              // Amount after modifiers; this is what gets applied
+  mitigatedAmount: number;     // Damage absorbed by the target's resistances (negative for weaknesses)
+  isCritical: boolean;
+  knockback?: Vector3Like;
+  isPeriodic: boolean;
+  isRanged: boolean;
+  hitPoint?: Vector3Like;
+  cancelled: boolean;
+  timestamp: number;           // Date.now() when the event was created
+}
+
+// ====================================
+// Damageable contract
+// ====================================
+
+/**
+ * Contract for anything that can receive a DamageEvent.
+ * Entities implement this directly; players are wrapped by an adapter.
+ * See: /src/player/player-health.ts
+ */
+export interface Damageable {
+  readonly health: number;
+  readonly maxHealth: number;
+  readonly maxPoise?: number;  // Poise pool before staggering; see /src/combat/poise-manager.ts
+  readonly resistances?: Resistances; // Innate resistances or worn armor; applied by applyDamage
+  takeDamage(event: DamageEvent): void;
+  isDead(): boolean;
+}
@@ -0,0 +1,158 @@
+/**
+ * Explosions - Radial entity and block damage
+ *
+ * createExplosion damages every damageable entity within the radius through the
+ * damage pipeline (linear distance falloff, occluded by solid blocks), knocks
+ * them away from the center and damages every registered block in the sphere
+ * through the BlockHealthManager. EMP explosions stun instead of dealing damage
+ * and leave terrain intact; they spare the thrower and anyone the thrower may
+ * not damage (allies, protected players).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, Audio, Vector3Like)
+ * - Damage pipeline from ./damage-pipeline
+ * - Status effects from ./status-effect-manager
+ * - FactionManager from ./faction-manager (who an EMP may stun)
+ * - BlockHealthManager from ../world/block-health-manager
+ * - Explosion constants from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Audio, Entity, Vector3Like, World } from 'hytopia';
+
+// Project modules
+import { applyDamage, resolveDamageable } from './damage-pipeline';
+import { DamageType } from './damage-types';
+import { calculateKnockback } from './combatSystem';
+import { StatusEffectManager } from './status-effect-manager';
+import { FactionManager } from './faction-manager';
+import { BlockHealthManager } from '../world/block-health-manager';
+import { EXPLOSION_CONFIG } from '../constants/combat-config';
+
+const OCCLUSION_TOLERANCE = 0.5; // Blocks this close to the target do not count as cover
+
+export interface ExplosionOptions {
+  center: Vector3Like;
+  radius: number;            // Radius in meters
+  power: number;             // Damage at the center
+  source?: Entity;           // Entity responsible (thrower, shooter)
+  isEmp?: boolean;           // Stun instead of damaging; does not damage blocks
+  damageBlocks?: boolean;    // Defaults to true for non-EMP explosions
+}
+
+/**
+ * Detonates an explosion.
+ * @param world The world the explosion happens in
+ * @param options Center, radius, power and variant of the explosion
+ * @returns The entities affected (damaged or stunned)
+ */
+export function createExplosion(world: World, options: ExplosionOptions): Entity[] {
+  const { center, radius } = options;
+  const affected: Entity[] = [];
+  if (radius <= 0) return affected;
+
+  for (const entity of world.entityManager.getAllEntities()) {
+    if (!entity.isSpawned || !resolveDamageable(entity)) continue;
+
+    const distance = getDistance(center, entity.position);
+    if (distance > radius) continue;
+
+    const occluded = isOccluded(world, center, entity, distance);
+    if (options.isEmp) {
+      // The stun bypasses the damage pipeline, so apply its faction rules here; the thrower is never stunned
+      if (entity === options.source || !FactionManager.instance.canDamage(options.source, entity)) continue;
+      if (!occluded && StatusEffectManager.instance.applyEffect(entity, 'emp_stun', options.source)) {
+        affected.push(entity);
+      }
+      continue;
+    }
+
+    const falloff = getFalloff(distance, radius);
+    const damage = options.power * falloff * (occluded ? EXPLOSION_CONFIG.OCCLUDED_DAMAGE_MULTIPLIER : 1);
+    if (damage <= 0) continue;
+
+    const event = applyDamage(entity, {
+      amount: damage,
+      type: DamageType.EXPLOSIVE,
+      source: options.source,
+      knockback: calculateKnockback(entity, center, options.power * EXPLOSION_CONFIG.KNOCKBACK_SPEED_PER_POWER * falloff),
+    });
+    if (event) affected.push(entity);
+  }
+
+  if (!options.isEmp && (options.damageBlocks ?? true)) {
+    damageBlocksInSphere(options);
+  }
+
+  playExplosionSound(world, center);
+  return affected;
+}
+
+// ====================================
+// Internal helpers
+// ====================================
+
+function getDistance(a: Vector3Like, b: Vector3Like): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
+/**
+ * Linear falloff from 1 at the center to MIN_FALLOFF at the edge.
+ */
+function getFalloff(distance: number, radius: number): number {
+  const t = Math.min(1, distance / radius);
+  return 1 - t * (1 - EXPLOSION_CONFIG.MIN_FALLOFF);
+}
+
+/**
+ * Checks whether a solid block lies between the explosion and an entity.
+ * Other entities do not provide cover.
+ */
+function isOccluded(world: World, center: Vector3Like, entity: Entity, distance: number): boolean {
+  if (distance <= OCCLUSION_TOLERANCE) return false;
+
+  const target = entity.position;
+  const direction = {
+    x: (target.x - center.x) / distance,
+    y: (target.y - center.y) / distance,
+    z: (target.z - center.z) / distance,
+  };
+
+  const hit = world.simulation.raycast(center, direction, distance);
+  return !!hit?.hitBlock && hit.hitDistance < distance - OCCLUSION_TOLERANCE;
+}
+
+/**
+ * Damages every registered block whose center lies within the explosion radius.
+ */
+function damageBlocksInSphere(options: ExplosionOptions): void {
+  const { center, radius, power } = options;
+  const blockHealth = BlockHealthManager.instance;
+
+  for (let x = Math.floor(center.x - radius); x <= Math.floor(center.x + radius); x++) {
+    for (let y = Math.floor(center.y - radius); y <= Math.floor(center.y + radius); y++) {
+      for (let z = Math.floor(center.z - radius); z <= Math.floor(center.z + radius); z++) {
+        const coord = { x, y, z };
+        const distance = getDistance(center, { x: x + 0.5, y: y + 0.5, z: z + 0.5 });
+        if (distance > radius || !blockHealth.isBlockRegistered(coord)) continue;
+
+        blockHealth.damageBlock(coord, power * EXPLOSION_CONFIG.BLOCK_DAMAGE_MULTIPLIER * getFalloff(distance, radius));
+      }
+    }
+  }
+}
+
+function playExplosionSound(world: World, position: Vector3Like): void {
+  try {
+    new Audio({
+      uri: EXPLOSION_CONFIG.SOUND_URI,
+      volume: EXPLOSION_CONFIG.SOUND_VOLUME,
+      position,
+      referenceDistance: EXPLOSION_CONFIG.SOUND_REFERENCE_DISTANCE,
+    }).play(world);
+  } catch (error) {
+    console.error('[Explosions] Failed to play explosion sound:', error);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Faction Manager - Allegiance, teams and friendly-fire rules
+ *
+ * Decides whether one entity may damage or target another. Every entity belongs
+ * to a faction (players, enemies or neutral, see FACTIONS); the relation between
+ * factions comes from the FACTION_RELATIONS matrix. Players can join teams: with
+ * PvP enabled, players on different teams (or without a team) are hostile.
+ * Areas in FACTION_AREA_OVERRIDES can force PvP off and protect players, e.g. a
+ * safe village. The damage pipeline cancels damage the rules do not allow, and
+ * enemy AI only targets hostile entities.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (Entity, PlayerEntity, Vector3Like)
+ * - Damage pipeline hooks from ./damage-pipeline
+ * - Faction constants from ../constants/faction-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, Vector3Like } from 'hytopia';
+
+// Project modules
+import { onPreDamage, resolveDamageable } from './damage-pipeline';
+import { FactionAreaOverride, FactionRelation } from './faction-types';
+import {
+  FACTIONS,
+  FACTION_AREA_OVERRIDES,
+  FACTION_CONFIG,
+  FACTION_RELATIONS,
+} from '../constants/faction-config';
+
+export class FactionManager {
+  private static _instance: FactionManager;
+  private entityFactions: Map<number, string> = new Map(); // entityId -> explicit faction
+  private playerTeams: Map<string, string> = new Map();    // playerId -> teamId
+  private pvpEnabled: boolean = FACTION_CONFIG.PVP_ENABLED_BY_DEFAULT;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the FactionManager.
+   */
+  public static get instance(): FactionManager {
+    if (!FactionManager._instance) {
+      FactionManager._instance = new FactionManager();
+    }
+    return FactionManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the damage pipeline.
+   * Should be called once when the server starts, before other damage hooks matter.
+   */
+  public initialize(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    // Runs before every other modifier so disallowed hits are dropped early
+    onPreDamage(event => {
+      if (!this.canDamage(event.source, event.target)) {
+        event.cancelled = true;
+      }
+    }, 0);
+
+    console.log('[FactionManager] Initialized.');
+  }
+
+  // ====================================
+  // Factions and teams
+  // ====================================
+
+  /**
+   * Assigns an entity to a faction, overriding its default.
+   * @param entity The entity
+   * @param faction A faction ID (see FACTIONS)
+   */
+  public setFaction(entity: Entity, faction: string): void {
+    this.entityFactions.set(entity.id!, faction);
+  }
+
+  /**
+   * Gets an entity's faction. Without an explicit assignment, players belong to
+   * FACTIONS.PLAYERS, other damageable entities to FACTIONS.ENEMIES and
+   * everything else to FACTIONS.NEUTRAL.
+   */
+  public getFaction(entity: Entity): string {
+    const assigned = this.entityFactions.get(entity.id!);
+    if (assigned) return assigned;
+
+    if (entity instanceof PlayerEntity) return FACTIONS.PLAYERS;
+    if (entity.tag === 'enemy' || resolveDamageable(entity)) return FACTIONS.ENEMIES;
+    return FACTIONS.NEUTRAL;
+  }
+
+  /**
+   * Removes an entity's explicit faction (e.g., when it despawns).
+   */
+  public clearFaction(entity: Entity): void {
+    this.entityFactions.delete(entity.id!);
+  }
+
+  /**
+   * Puts a player on a team, or removes them from their team.
+   * @param playerId The ID of the player
+   * @param teamId The team to join, or null to leave
+   */
+  public setPlayerTeam(playerId: string, teamId: string | null): void {
+    if (teamId) {
+      this.playerTeams.set(playerId, teamId);
+    } else {
+      this.playerTeams.delete(playerId);
+    }
+  }
+
+  /**
+   * Gets a player's team, if any.
+   */
+  public getPlayerTeam(playerId: string): string | undefined {
+    return this.playerTeams.get(playerId);
+  }
+
+  /**
+   * Drops a player's team membership (e.g., when they leave).
+   */
+  public removePlayer(playerId: string): void {
+    this.playerTeams.delete(playerId);
+  }
+
+  /**
+   * Turns server-wide PvP on or off. Area overrides still apply.
+   */
+  public setPvpEnabled(enabled: boolean): void {
+    this.pvpEnabled = enabled;
+    console.log(`[FactionManager] PvP ${enabled ? 'enabled' : 'disabled'}.`);
+  }
+
+  public isPvpEnabled(): boolean {
+    return this.pvpEnabled;
+  }
+
+  // ====================================
+  // Relations and rules
+  // ====================================
+
+  /**
+   * Gets the area override covering a position, if any.
+   */
+  public getAreaOverride(position: Vector3Like): FactionAreaOverride | undefined {
+    return FACTION_AREA_OVERRIDES.find(area =>
+      position.x >= area.min.x && position.x <= area.max.x &&
+      position.z >= area.min.z && position.z <= area.max.z
+    );
+  }
+
+  /**
+   * Gets how `entity` relates to `other`, taking teams, PvP and the area `other` stands in into account.
+   */
+  public getRelation(entity: Entity, other: Entity): FactionRelation {
+    if (entity === other) return FactionRelation.FRIENDLY;
+
+    if (entity instanceof PlayerEntity && other instanceof PlayerEntity) {
+      const team = this.getPlayerTeam(entity.player.id);
+      if (team && team === this.getPlayerTeam(other.player.id)) return FactionRelation.FRIENDLY;
+
+      const pvp = this.getAreaOverride(other.position)?.pvp ?? this.pvpEnabled;
+      return pvp ? FactionRelation.HOSTILE : FactionRelation.FRIENDLY;
+    }
+
+    const faction = this.getFaction(entity);
+    const otherFaction = this.getFaction(other);
+    if (faction === otherFaction) return FactionRelation.FRIENDLY;
+
+    return FACTION_RELATIONS[faction]?.[otherFaction]
+      ?? FACTION_RELATIONS[otherFaction]?.[faction]
+      ?? FactionRelation.NEUTRAL;
+  }
+
+  /**
+   * Checks whether two entities are hostile to each other.
+   */
+  public isHostile(entity: Entity, other: Entity): boolean {
+    return this.getRelation(entity, other) === FactionRelation.HOSTILE;
+  }
+
+  /**
+   * Checks whether an attacker may damage a target.
+   * Damage without a source (environment) and self-inflicted damage are always allowed.
+   * @param attacker The entity dealing damage, if any
+   * @param target The entity receiving damage
+   * @returns True if the damage is allowed
+   */
+  public canDamage(attacker: Entity | undefined, target: Entity): boolean {
+    if (!attacker || attacker === target) return true;
+
+    if (this.isProtected(attacker, target)) return false;
+
+    const relation = this.getRelation(attacker, target);
+    return relation !== FactionRelation.FRIENDLY || FACTION_CONFIG.FRIENDLY_FIRE;
+  }
+
+  /**
+   * Checks whether an AI-controlled entity may pick a target: it must be hostile,
+   * alive and not protected by an area override.
+   */
+  public canTarget(entity: Entity, target: Entity): boolean {
+    if (!target.isSpawned || !this.isHostile(entity, target) || this.isProtected(entity, target)) return false;
+
+    const damageable = resolveDamageable(target);
+    return !!damageable && !damageable.isDead();
+  }
+
+  /**
+   * Finds the nearest entity an entity may target.
+   * @param entity The searching entity
+   * @param radius Search radius in meters
+   * @returns The nearest valid target, or undefined
+   */
+  public findNearestHostile(entity: Entity, radius: number): Entity | undefined {
+    if (!entity.world) return undefined;
+
+    let nearest: Entity | undefined;
+    let nearestDistance = radius;
+    for (const other of entity.world.entityManager.getAllEntities()) {
+      if (other === entity || !this.canTarget(entity, other)) continue;
+
+      const distance = Math.sqrt(
+        (other.position.x - entity.position.x) ** 2 +
+        (other.position.y - entity.position.y) ** 2 +
+        (other.position.z - entity.position.z) ** 2
+      );
+      if (distance <= nearestDistance) {
+        nearest = other;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Players inside a protecting area cannot be hurt or targeted by non-players.
+   */
+  private isProtected(attacker: Entity, target: Entity): boolean {
+    if (!(target instanceof PlayerEntity) || attacker instanceof PlayerEntity) return false;
+    return !!this.getAreaOverride(target.position)?.protectPlayers;
+  }
+}
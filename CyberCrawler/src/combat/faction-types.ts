@@ -0,0 +1,32 @@
+/**
+ * Faction Types - Shared types for factions, teams and friendly-fire rules
+ *
+ * Every entity belongs to a faction (players, enemies, neutral). The relation
+ * between two factions decides whether their members may damage and target each
+ * other. Players can additionally be grouped into teams, and areas of the world
+ * can override the rules (e.g., a safe village without PvP).
+ *
+ * @author CyberCrawler Team
+ */
+
+/**
+ * How members of one faction treat members of another.
+ */
+export enum FactionRelation {
+  HOSTILE = 'hostile',     // May damage and target each other
+  NEUTRAL = 'neutral',     // May damage each other but are never targeted by AI
+  FRIENDLY = 'friendly',   // Cannot damage each other unless friendly fire is enabled
+}
+
+/**
+ * A region of the world that overrides the faction rules.
+ * Bounds are absolute world X/Z coordinates; the area spans every height.
+ */
+export interface FactionAreaOverride {
+  id: string;
+  name: string;
+  min: { x: number; z: number };
+  max: { x: number; z: number };
+  pvp?: boolean;              // Forces PvP on or off inside the area
+  protectPlayers?: boolean;   // Non-player attackers cannot damage or target players inside the area
+}
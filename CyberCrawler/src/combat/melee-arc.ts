@@ -0,0 +1,65 @@
+/**
+ * Melee Arc - Geometry of the melee arc test
+ *
+ * Pure math shared by melee hit detection (see ./melee-detection.ts): whether a
+ * point lies inside the horizontal arc in front of an attacker. It works on
+ * plain vectors only, so it can be tested without a running world.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK types (Vector3Like)
+ * - MELEE_ATTACK_RADIUS from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Vector3Like } from 'hytopia';
+
+// Project modules
+import { MELEE_ATTACK_RADIUS } from '../constants/combat-config';
+
+/**
+ * Flattens a vector onto the horizontal plane and normalizes it.
+ * @returns The unit horizontal direction, or -Z (forward) for vertical or zero vectors
+ */
+export function normalizeHorizontal(vector: Vector3Like): Vector3Like {
+  const length = Math.sqrt(vector.x ** 2 + vector.z ** 2);
+  if (length === 0) return { x: 0, y: 0, z: -1 };
+  return { x: vector.x / length, y: 0, z: vector.z / length };
+}
+
+/**
+ * Tests whether a target position lies inside a melee arc.
+ * Targets within MELEE_ATTACK_RADIUS of the origin are inside regardless of angle;
+ * further away they must lie within half the arc of the forward direction.
+ * Reach gets MELEE_ATTACK_RADIUS of slack, since target bodies have some size.
+ * @param origin The attacker's position
+ * @param forward The unit horizontal attack direction (see normalizeHorizontal)
+ * @param targetPosition Where the target is tested
+ * @param range Reach in meters
+ * @param halfArc Half the arc's width in radians
+ * @returns The distance to the target, or undefined if it is outside the arc
+ */
+export function getMeleeArcDistance(
+  origin: Vector3Like,
+  forward: Vector3Like,
+  targetPosition: Vector3Like,
+  range: number,
+  halfArc: number
+): number | undefined {
+  const toTarget = {
+    x: targetPosition.x - origin.x,
+    y: targetPosition.y - origin.y,
+    z: targetPosition.z - origin.z,
+  };
+  const distance = Math.sqrt(toTarget.x ** 2 + toTarget.y ** 2 + toTarget.z ** 2);
+  if (distance - MELEE_ATTACK_RADIUS > range) return undefined;
+
+  if (distance > MELEE_ATTACK_RADIUS) {
+    const horizontal = normalizeHorizontal(toTarget);
+    const angle = Math.acos(Math.max(-1, Math.min(1, forward.x * horizontal.x + forward.z * horizontal.z)));
+    if (angle > halfArc) return undefined;
+  }
+
+  return distance;
+}
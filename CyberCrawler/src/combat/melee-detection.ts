@@ -0,0 +1,168 @@
+/**
+ * Melee Detection - Arc-shaped melee hit detection
+ *
+ * Replaces single-ray melee checks with a horizontal arc sweep in front of the
+ * attacker. Every damageable entity inside the arc (and with line of sight) is
+ * returned, nearest first and capped at the weapon's max targets, together with
+ * the blocks the arc touches. Player swings are lag compensated: targets are
+ * tested where the player saw them (see ../networking/lag-compensation.ts), and
+ * swings needing more rewind than allowed are rejected.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (Entity, Vector3Like)
+ * - resolveDamageable from ./damage-pipeline
+ * - FactionManager from ./faction-manager (allies are never hit)
+ * - LagCompensation from ../networking/lag-compensation
+ * - Arc geometry from ./melee-arc
+ * - Melee constants from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, Vector3Like } from 'hytopia';
+
+// Project modules
+import { resolveDamageable } from './damage-pipeline';
+import { FactionManager } from './faction-manager';
+import { LagCompensation } from '../networking/lag-compensation';
+import { getMeleeArcDistance, normalizeHorizontal } from './melee-arc';
+import { MELEE_BLOCK_RAY_SPACING_DEGREES } from '../constants/combat-config';
+
+export interface MeleeSweepOptions {
+  range: number;          // Reach in meters
+  arcDegrees: number;     // Full horizontal width of the arc
+  maxTargets: number;     // Max entities a single swing can hit
+}
+
+export interface MeleeSweepResult {
+  entities: Entity[];         // Hit entities, nearest first
+  blocks: Vector3Like[];      // Block coordinates inside the arc (nearest face hit per ray)
+  rejected?: boolean;         // The attacker's latency exceeded the max rewind; nothing was tested
+  rewoundMs?: number;         // How far back targets were tested
+}
+
+/**
+ * Finds every target inside a melee arc in front of the attacker.
+ * Entities the attacker may not damage (allies, protected players) are skipped.
+ * Entities within MELEE_ATTACK_RADIUS of the attacker are hit regardless of angle;
+ * further away they must lie within half the arc of the attack direction.
+ * Targets are tested at their lag-compensated positions; blocks are not rewound.
+ *
+ * @param attacker The entity swinging
+ * @param direction The attack direction (e.g., camera facing direction)
+ * @param options Range, arc width and target cap of the swing
+ * @returns The entities and blocks hit by the swing
+ */
+export function findMeleeTargets(
+  attacker: Entity,
+  direction: Vector3Like,
+  options: MeleeSweepOptions
+): MeleeSweepResult {
+  const world = attacker.world;
+  if (!world) return { entities: [], blocks: [] };
+
+  const rewind = LagCompensation.instance.getRewind(attacker);
+  if (!rewind) return { entities: [], blocks: [], rejected: true };
+
+  const origin = attacker.position;
+  const forward = normalizeHorizontal(direction);
+  const halfArc = (options.arcDegrees / 2) * (Math.PI / 180);
+
+  const candidates: { entity: Entity; distance: number }[] = [];
+
+  for (const entity of world.entityManager.getAllEntities()) {
+    if (entity === attacker || entity.parent === attacker || !entity.isSpawned) continue;
+    if (!resolveDamageable(entity) || !FactionManager.instance.canDamage(attacker, entity)) continue;
+
+    const targetPosition = rewind.rewindMs > 0
+      ? LagCompensation.instance.getPositionAt(entity, rewind.timestamp)
+      : entity.position;
+    const distance = getMeleeArcDistance(origin, forward, targetPosition, options.range, halfArc);
+    if (distance === undefined) continue;
+
+    if (!hasLineOfSight(attacker, targetPosition, distance)) continue;
+
+    candidates.push({ entity, distance });
+  }
+
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  return {
+    entities: candidates.slice(0, Math.max(0, options.maxTargets)).map(c => c.entity),
+    blocks: findBlocksInArc(attacker, forward, direction.y, halfArc, options.range),
+    rewoundMs: rewind.rewindMs,
+  };
+}
+
+// ====================================
+// Internal helpers
+// ====================================
+
+/**
+ * Checks that no block lies between the attacker and the target's (possibly rewound) position.
+ */
+function hasLineOfSight(attacker: Entity, targetPosition: Vector3Like, distance: number): boolean {
+  if (distance === 0 || !attacker.world) return true;
+
+  const origin = attacker.position;
+  const direction = {
+    x: (targetPosition.x - origin.x) / distance,
+    y: (targetPosition.y - origin.y) / distance,
+    z: (targetPosition.z - origin.z) / distance,
+  };
+
+  const hit = attacker.world.simulation.raycast(origin, direction, distance, {
+    filterExcludeRigidBody: attacker.rawRigidBody,
+  });
+  return !hit?.hitBlock;
+}
+
+/**
+ * Fans rays across the arc and collects the blocks they hit.
+ */
+function findBlocksInArc(
+  attacker: Entity,
+  forward: Vector3Like,
+  pitch: number,
+  halfArc: number,
+  range: number
+): Vector3Like[] {
+  const world = attacker.world;
+  if (!world) return [];
+
+  const spacing = MELEE_BLOCK_RAY_SPACING_DEGREES * (Math.PI / 180);
+  const rayCount = Math.max(1, Math.floor((halfArc * 2) / spacing) + 1);
+  const seen = new Set<string>();
+  const blocks: Vector3Like[] = [];
+
+  for (let i = 0; i < rayCount; i++) {
+    const angle = rayCount === 1 ? 0 : -halfArc + (i * halfArc * 2) / (rayCount - 1);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const rayDirection = {
+      x: forward.x * cos - forward.z * sin,
+      y: pitch,
+      z: forward.x * sin + forward.z * cos,
+    };
+    const length = Math.sqrt(rayDirection.x ** 2 + rayDirection.y ** 2 + rayDirection.z ** 2);
+
+    const hit = world.simulation.raycast(
+      attacker.position,
+      { x: rayDirection.x / length, y: rayDirection.y / length, z: rayDirection.z / length },
+      range,
+      { filterExcludeRigidBody: attacker.rawRigidBody }
+    );
+
+    const coord = hit?.hitBlock?.globalCoordinate;
+    if (!coord) continue;
+
+    const key = `${coord.x},${coord.y},${coord.z}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      blocks.push({ ...coord });
+    }
+  }
+
+  return blocks;
+}
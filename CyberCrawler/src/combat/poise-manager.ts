@@ -0,0 +1,193 @@
+/**
+ * Poise Manager - Tracks poise and staggers entities whose poise breaks
+ *
+ * Every damageable entity has a poise meter. Damage drains it; when it runs out
+ * the entity is staggered (the 'staggered' status effect: stunned and taking
+ * bonus damage), plays a hurt animation and refills its poise. Poise regenerates
+ * after a short period without being hit. The manager also records the last hit
+ * time so AI controllers can let knockback play out before moving again.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, WorldLoopEvent)
+ * - Damage pipeline from ./damage-pipeline
+ * - Status effects from ./status-effect-manager
+ * - Poise and knockback constants from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { onPostDamage, resolveDamageable } from './damage-pipeline';
+import { DamageEvent, DamageType } from './damage-types';
+import { StatusEffectManager } from './status-effect-manager';
+import { STATUS_EFFECTS } from '../constants/status-effect-config';
+import { KNOCKBACK_CONFIG, POISE_CONFIG } from '../constants/combat-config';
+
+interface PoiseState {
+  entity: Entity;
+  poise: number;
+  maxPoise: number;
+  lastHitAt: number;
+  immuneUntil: number;
+}
+
+export class PoiseManager {
+  private static _instance: PoiseManager;
+  private states: Map<number, PoiseState> = new Map();
+  private lastTickAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the PoiseManager.
+   */
+  public static get instance(): PoiseManager {
+    if (!PoiseManager._instance) {
+      PoiseManager._instance = new PoiseManager();
+    }
+    return PoiseManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop (regeneration) and the damage pipeline.
+   * Should be called once when the server starts, after the StatusEffectManager.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    this.lastTickAt = Date.now();
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    onPostDamage(event => this.handleDamage(event));
+
+    console.log('[PoiseManager] Initialized.');
+  }
+
+  /**
+   * Gets an entity's current poise.
+   * @param entity The entity
+   * @returns Current poise, or the entity's max poise if it has not been hit
+   */
+  public getPoise(entity: Entity): number {
+    return this.states.get(entity.id!)?.poise ?? this.getMaxPoise(entity);
+  }
+
+  /**
+   * Checks whether an entity is currently staggered.
+   */
+  public isStaggered(entity: Entity): boolean {
+    return StatusEffectManager.instance.hasEffect(entity, 'staggered');
+  }
+
+  /**
+   * Checks whether an entity was hit recently enough that its knockback should
+   * not be overridden by its controller.
+   * @param entity The entity
+   * @returns True while within KNOCKBACK_CONFIG.HIT_RECOVERY_MS of the last hit
+   */
+  public isInHitRecovery(entity: Entity): boolean {
+    const state = this.states.get(entity.id!);
+    return !!state && Date.now() - state.lastHitAt < KNOCKBACK_CONFIG.HIT_RECOVERY_MS;
+  }
+
+  /**
+   * Staggers an entity immediately, regardless of its poise (e.g., after a parry).
+   * @param entity The entity to stagger
+   * @param source The entity responsible, if any
+   */
+  public forceStagger(entity: Entity, source?: Entity): void {
+    this.stagger(this.getOrTrack(entity), source);
+  }
+
+  /**
+   * Resets an entity's poise to full (e.g., on respawn).
+   */
+  public resetPoise(entity: Entity): void {
+    this.states.delete(entity.id!);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private getMaxPoise(entity: Entity): number {
+    return resolveDamageable(entity)?.maxPoise ?? POISE_CONFIG.DEFAULT_MAX_POISE;
+  }
+
+  private getOrTrack(entity: Entity): PoiseState {
+    let state = this.states.get(entity.id!);
+    if (!state) {
+      const maxPoise = this.getMaxPoise(entity);
+      state = { entity, poise: maxPoise, maxPoise, lastHitAt: 0, immuneUntil: 0 };
+      this.states.set(entity.id!, state);
+    }
+    return state;
+  }
+
+  /**
+   * Drains poise for a processed hit and staggers the target if it breaks.
+   */
+  private handleDamage(event: DamageEvent): void {
+    const { target } = event;
+    if (!target.isSpawned || event.amount <= 0) return;
+
+    const state = this.getOrTrack(target);
+    const now = Date.now();
+    state.lastHitAt = now;
+
+    // Dead targets and targets still recovering from a stagger keep their poise
+    if (resolveDamageable(target)?.isDead() || now < state.immuneUntil) return;
+
+    const isHeavyHit = event.isCritical || event.type === DamageType.EXPLOSIVE;
+    const poiseDamage = event.amount * POISE_CONFIG.POISE_DAMAGE_PER_DAMAGE *
+      (isHeavyHit ? POISE_CONFIG.HEAVY_HIT_POISE_MULTIPLIER : 1);
+
+    state.poise = Math.max(0, state.poise - poiseDamage);
+    if (state.poise <= 0) {
+      this.stagger(state, event.source);
+    }
+  }
+
+  /**
+   * Puts an entity into the staggered state and refills its poise.
+   */
+  private stagger(state: PoiseState, source?: Entity): void {
+    const { entity } = state;
+    if (!StatusEffectManager.instance.applyEffect(entity, 'staggered', source)) return;
+
+    try {
+      entity.startModelOneshotAnimations([POISE_CONFIG.STAGGER_ANIMATION]);
+    } catch {}
+
+    state.poise = state.maxPoise;
+    state.immuneUntil = Date.now() + STATUS_EFFECTS.staggered.durationMs + POISE_CONFIG.STAGGER_IMMUNITY_MS;
+  }
+
+  /**
+   * Regenerates poise for entities that have not been hit recently.
+   */
+  private tick(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastTickAt) / 1000;
+    this.lastTickAt = now;
+
+    for (const [id, state] of this.states) {
+      if (!state.entity.isSpawned) {
+        this.states.delete(id);
+        continue;
+      }
+      if (now - state.lastHitAt < POISE_CONFIG.REGEN_DELAY_MS) continue;
+
+      state.poise = Math.min(state.maxPoise, state.poise + POISE_CONFIG.REGEN_PER_SECOND * elapsedSeconds);
+      if (state.poise >= state.maxPoise && now >= state.immuneUntil) {
+        this.states.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Positional Bonuses - Flanking, elevation, rear support and front line bonuses
+ *
+ * Implements the "Positional Role System" from COMBAT_SYSTEM_DESIGN.md. For every
+ * hit the attack angle relative to the target's facing, the height difference and
+ * the allies and enemies nearby are evaluated:
+ * - Attack bonuses (player attackers): flanking, backstab, elevation and rear support.
+ * - Defensive bonuses (player targets): front line and shoulder to shoulder.
+ * Active bonuses are sent to the player UI so players can learn the system.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, WorldLoopEvent)
+ * - Damage pipeline hooks from ./damage-pipeline
+ * - FactionManager from ./faction-manager (who counts as an ally or enemy)
+ * - Geometry helpers from ../physics/physicsSystem
+ * - Positional constants from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { onPreDamage, resolveDamageable } from './damage-pipeline';
+import { DamageEvent } from './damage-types';
+import { FactionManager } from './faction-manager';
+import { FactionRelation } from './faction-types';
+import { distanceBetween, getFacingDirection } from '../physics/physicsSystem';
+import { POSITIONAL_CONFIG } from '../constants/combat-config';
+
+/**
+ * A positional bonus active for one hit (attack) or one moment (defensive).
+ */
+export interface PositionalBonus {
+  id: string;
+  name: string;
+  description: string;
+  modifier: number;       // Damage bonus (attack) or damage reduction (defensive), e.g. 0.15
+}
+
+/**
+ * Position of one entity relative to another, as used by the bonus rules.
+ */
+export interface PositionalContext {
+  attackAngleDegrees: number;   // 0 = attacking the target's front, 180 = from directly behind
+  heightDifference: number;     // Attacker height above the target (negative when below)
+  nearbyAllies: number;         // Allies of the evaluated entity within the shoulder radius
+  nearbyEnemies: number;        // Enemies of the evaluated entity within the front line radius
+}
+
+export class PositionalBonusManager {
+  private static _instance: PositionalBonusManager;
+  private world: World | null = null;
+  private lastStances: Map<string, string> = new Map(); // playerId -> active defensive bonus IDs
+  private lastStanceCheckAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the PositionalBonusManager.
+   */
+  public static get instance(): PositionalBonusManager {
+    if (!PositionalBonusManager._instance) {
+      PositionalBonusManager._instance = new PositionalBonusManager();
+    }
+    return PositionalBonusManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the damage pipeline and the world loop (HUD stance updates).
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    // Runs after the status effect modifiers (priority 50) and before combo chains (priority 75)
+    onPreDamage(event => this.applyBonuses(event), 60);
+
+    console.log('[PositionalBonusManager] Initialized.');
+  }
+
+  /**
+   * Evaluates the attack bonuses an attacker gets against a target.
+   * @param attacker The attacking entity
+   * @param target The entity being hit
+   * @param isRanged Whether the hit was delivered by a projectile or beam
+   * @returns The active attack bonuses
+   */
+  public getAttackBonuses(attacker: Entity, target: Entity, isRanged: boolean): PositionalBonus[] {
+    const context = this.getContext(attacker, target);
+    const bonuses: PositionalBonus[] = [];
+
+    if (context.attackAngleDegrees >= POSITIONAL_CONFIG.BACKSTAB_MIN_ANGLE_DEGREES) {
+      bonuses.push({
+        id: 'backstab',
+        name: 'Backstab',
+        description: 'Attacking from behind the target',
+        modifier: POSITIONAL_CONFIG.BACKSTAB_DAMAGE_BONUS,
+      });
+    } else if (context.attackAngleDegrees >= POSITIONAL_CONFIG.FLANK_MIN_ANGLE_DEGREES) {
+      bonuses.push({
+        id: 'flanking',
+        name: 'Flanking',
+        description: 'Attacking from the side the target is not facing',
+        modifier: POSITIONAL_CONFIG.FLANK_DAMAGE_BONUS,
+      });
+    }
+
+    if (isRanged && context.heightDifference >= POSITIONAL_CONFIG.ELEVATION_MIN_HEIGHT) {
+      bonuses.push({
+        id: 'elevation',
+        name: 'High Ground',
+        description: 'Ranged attack from above the target',
+        modifier: POSITIONAL_CONFIG.ELEVATION_RANGED_BONUS,
+      });
+    }
+
+    if (isRanged && this.hasRearSupport(attacker, target)) {
+      bonuses.push({
+        id: 'rear_support',
+        name: 'Rear Support',
+        description: 'Ranged attack from behind an ally engaging the target',
+        modifier: POSITIONAL_CONFIG.REAR_SUPPORT_RANGED_BONUS,
+      });
+    }
+
+    return bonuses;
+  }
+
+  /**
+   * Evaluates the defensive bonuses an entity currently has.
+   * @param entity The entity taking damage
+   * @returns The active defensive bonuses
+   */
+  public getDefensiveBonuses(entity: Entity): PositionalBonus[] {
+    const context = this.getContext(entity, entity);
+    const bonuses: PositionalBonus[] = [];
+
+    if (context.nearbyEnemies > 0) {
+      bonuses.push({
+        id: 'front_line',
+        name: 'Front Line',
+        description: 'Engaging enemies at close range',
+        modifier: POSITIONAL_CONFIG.FRONT_LINE_DAMAGE_REDUCTION,
+      });
+    }
+
+    const allies = Math.min(context.nearbyAllies, POSITIONAL_CONFIG.SHOULDER_MAX_ALLIES);
+    if (allies > 0) {
+      bonuses.push({
+        id: 'shoulder_to_shoulder',
+        name: 'Shoulder to Shoulder',
+        description: `Standing next to ${allies} all${allies === 1 ? 'y' : 'ies'}`,
+        modifier: allies * POSITIONAL_CONFIG.SHOULDER_REDUCTION_PER_ALLY,
+      });
+    }
+
+    return bonuses;
+  }
+
+  /**
+   * Measures the position of an attacker relative to a target.
+   * When attacker and target are the same entity only the nearby counts are meaningful.
+   */
+  public getContext(attacker: Entity, target: Entity): PositionalContext {
+    const facing = getFacingDirection(target);
+    const toAttacker = horizontalDirection(target.position, attacker.position);
+    const isSamePosition = toAttacker.x === 0 && toAttacker.z === 0;
+    const dot = facing.x * toAttacker.x + facing.z * toAttacker.z;
+
+    return {
+      attackAngleDegrees: isSamePosition ? 0 : Math.acos(Math.max(-1, Math.min(1, dot))) * (180 / Math.PI),
+      heightDifference: attacker.position.y - target.position.y,
+      nearbyAllies: this.countNearby(attacker, POSITIONAL_CONFIG.SHOULDER_ALLY_RADIUS, true),
+      nearbyEnemies: this.countNearby(attacker, POSITIONAL_CONFIG.FRONT_LINE_ENEMY_RADIUS, false),
+    };
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Pre-damage hook: scales player hits by attack bonuses and
+   * damage taken by players by defensive bonuses.
+   */
+  private applyBonuses(event: DamageEvent): void {
+    if (event.isPeriodic) return;
+    const { source, target } = event;
+
+    if (source instanceof PlayerEntity && source !== target) {
+      const bonuses = this.getAttackBonuses(source, target, event.isRanged);
+      if (bonuses.length > 0) {
+        event.amount *= 1 + bonuses.reduce((total, bonus) => total + bonus.modifier, 0);
+        source.player.ui.sendData({ type: 'positional-bonuses', payload: { kind: 'attack', bonuses } });
+      }
+    }
+
+    if (target instanceof PlayerEntity && source && source !== target) {
+      const reduction = this.getTotalReduction(this.getDefensiveBonuses(target));
+      event.amount *= 1 - reduction;
+    }
+  }
+
+  private getTotalReduction(bonuses: PositionalBonus[]): number {
+    const total = bonuses.reduce((sum, bonus) => sum + bonus.modifier, 0);
+    return Math.min(POSITIONAL_CONFIG.MAX_DAMAGE_REDUCTION, total);
+  }
+
+  /**
+   * Checks whether an ally is between the shooter and the target, engaging it up close.
+   */
+  private hasRearSupport(attacker: Entity, target: Entity): boolean {
+    if (!this.world) return false;
+    const shooterDistance = distanceBetween(attacker.position, target.position);
+
+    return this.world.entityManager.getAllEntities().some(entity =>
+      entity !== attacker &&
+      entity instanceof PlayerEntity &&
+      isAlly(attacker, entity) &&
+      distanceBetween(entity.position, target.position) <= POSITIONAL_CONFIG.REAR_SUPPORT_ALLY_RADIUS &&
+      distanceBetween(entity.position, target.position) < shooterDistance
+    );
+  }
+
+  /**
+   * Counts living allies or enemies of an entity within a radius.
+   */
+  private countNearby(entity: Entity, radius: number, allies: boolean): number {
+    const relation = allies ? FactionRelation.FRIENDLY : FactionRelation.HOSTILE;
+
+    if (!this.world) return 0;
+
+    let count = 0;
+    for (const other of this.world.entityManager.getAllEntities()) {
+      if (other === entity || !other.isSpawned) continue;
+
+      const damageable = resolveDamageable(other);
+      if (!damageable || damageable.isDead()) continue;
+      if (FactionManager.instance.getRelation(entity, other) !== relation) continue;
+
+      if (distanceBetween(entity.position, other.position) <= radius) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Re-evaluates every player's defensive bonuses and sends changes to their HUD.
+   */
+  private tick(): void {
+    if (!this.world) return;
+
+    const now = Date.now();
+    if (now - this.lastStanceCheckAt < POSITIONAL_CONFIG.STANCE_UPDATE_INTERVAL_MS) return;
+    this.lastStanceCheckAt = now;
+
+    const seen = new Set<string>();
+    for (const entity of this.world.entityManager.getAllPlayerEntities()) {
+      const playerId = entity.player.id;
+      seen.add(playerId);
+
+      const bonuses = this.getDefensiveBonuses(entity);
+      const key = bonuses.map(bonus => `${bonus.id}:${bonus.modifier}`).join('|');
+      if (this.lastStances.get(playerId) === key) continue;
+
+      this.lastStances.set(playerId, key);
+      entity.player.ui.sendData({
+        type: 'positional-bonuses',
+        payload: { kind: 'defense', bonuses, totalReduction: this.getTotalReduction(bonuses) },
+      });
+    }
+
+    for (const playerId of this.lastStances.keys()) {
+      if (!seen.has(playerId)) this.lastStances.delete(playerId);
+    }
+  }
+}
+
+// ====================================
+// Geometry helpers
+// ====================================
+
+function horizontalDirection(from: Vector3Like, to: Vector3Like): Vector3Like {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const length = Math.sqrt(dx * dx + dz * dz);
+  return length === 0 ? { x: 0, y: 0, z: 0 } : { x: dx / length, y: 0, z: dz / length };
+}
+
+function isAlly(a: Entity, b: Entity): boolean {
+  return FactionManager.instance.getRelation(a, b) === FactionRelation.FRIENDLY;
+}
@@ -0,0 +1,125 @@
+/**
+ * Ranged Weapons - Firing logic for crafted ranged weapons and throwables
+ *
+ * Launches the projectile configured on a ranged WeaponDefinition: a
+ * ProjectileEntity for physical shots or an instant energy beam. Throwables
+ * (grenades) are launched the same way along an arc.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, Vector3Like)
+ * - Projectile family from ../entities/projectiles
+ * - Projectile and throwable definitions from ../constants/projectile-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, Vector3Like, World } from 'hytopia';
+
+// Project modules
+import { ProjectileEntity } from '../entities/projectiles/projectile-entity';
+import { fireEnergyBeam } from '../entities/projectiles/energy-beam';
+import { ProjectileKind, ProjectileLaunchOptions } from '../entities/projectiles/projectile-types';
+import { PROJECTILE_TYPES, THROWABLES } from '../constants/projectile-config';
+import { WeaponDefinition } from './weapon-types';
+
+// Last throw time per thrower entity ID
+const lastThrowTimes: Map<number, number> = new Map();
+
+/**
+ * Launches a projectile of the given type.
+ * @param world The world to fire into
+ * @param projectileId ID of the projectile in PROJECTILE_TYPES
+ * @param launch Owner, origin, direction and damage of the shot
+ * @returns True if the projectile was fired
+ */
+export function launchProjectile(world: World, projectileId: string, launch: ProjectileLaunchOptions): boolean {
+  const definition = PROJECTILE_TYPES[projectileId];
+  if (!definition) {
+    console.warn(`[RangedWeapons] Unknown projectile type "${projectileId}".`);
+    return false;
+  }
+
+  try {
+    if (definition.kind === ProjectileKind.BEAM) {
+      fireEnergyBeam(world, definition, launch);
+    } else {
+      new ProjectileEntity(definition, launch).fire(world);
+    }
+    return true;
+  } catch (error) {
+    console.error(`[RangedWeapons] Failed to launch projectile "${projectileId}":`, error);
+    return false;
+  }
+}
+
+/**
+ * Fires a ranged weapon's projectile from a shooter. Fire rate is enforced by
+ * the wielding WeaponEntity.
+ * @param shooter The entity firing (usually the player)
+ * @param weapon The ranged weapon's definition
+ * @param direction Aim direction (e.g., camera facing direction)
+ * @param isCritical Whether the shot is a critical hit
+ * @returns True if a shot was fired
+ */
+export function fireRangedWeapon(
+  shooter: Entity,
+  weapon: WeaponDefinition,
+  direction: Vector3Like,
+  isCritical: boolean = false
+): boolean {
+  const world = shooter.world;
+  if (!weapon.projectileId || !world || !shooter.isSpawned) return false;
+
+  const length = Math.sqrt(direction.x ** 2 + direction.y ** 2 + direction.z ** 2) || 1;
+  const aim = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
+  const origin = {
+    x: shooter.position.x,
+    y: shooter.position.y + (weapon.muzzleHeight ?? 0),
+    z: shooter.position.z,
+  };
+
+  return launchProjectile(world, weapon.projectileId, {
+    owner: shooter,
+    origin,
+    direction: aim,
+    damage: weapon.damage,
+    isCritical,
+  });
+}
+
+/**
+ * Checks whether an item ID is a throwable (e.g., 'emp_grenade').
+ */
+export function isThrowable(itemId: string): boolean {
+  return itemId in THROWABLES;
+}
+
+/**
+ * Throws a throwable item from an entity, respecting its cooldown.
+ * The caller is responsible for consuming the item from the inventory.
+ * @param thrower The entity throwing (usually the player)
+ * @param itemId Inventory item ID of the throwable
+ * @param direction Aim direction (e.g., camera facing direction)
+ * @returns True if the item was thrown
+ */
+export function throwGrenade(thrower: Entity, itemId: string, direction: Vector3Like): boolean {
+  const throwable = THROWABLES[itemId];
+  const world = thrower.world;
+  if (!throwable || !world || !thrower.isSpawned) return false;
+
+  const now = Date.now();
+  if (now - (lastThrowTimes.get(thrower.id!) ?? 0) < throwable.throwCooldownMs) return false;
+  lastThrowTimes.set(thrower.id!, now);
+
+  // Aim slightly upward so throws arc
+  const raised = { x: direction.x, y: direction.y + throwable.upwardAim, z: direction.z };
+  const length = Math.sqrt(raised.x ** 2 + raised.y ** 2 + raised.z ** 2) || 1;
+
+  return launchProjectile(world, throwable.projectileId, {
+    owner: thrower,
+    origin: { x: thrower.position.x, y: thrower.position.y + 1, z: thrower.position.z },
+    direction: { x: raised.x / length, y: raised.y / length, z: raised.z / length },
+    damage: 0,
+  });
+}
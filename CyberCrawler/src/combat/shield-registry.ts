@@ -0,0 +1,59 @@
+/**
+ * Shield Registry - Central shield definitions for CyberCrawler
+ *
+ * Every equippable shield is defined here, keyed by its inventory item ID.
+ * Crafting recipes for these items live in recipe-database.ts (RecipeCategory.Utility).
+ * Additional shields can be registered at runtime with registerShield().
+ *
+ * Dependencies:
+ * - Shield types from ./shield-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { ShieldDefinition } from './shield-types';
+
+const shields: Map<string, ShieldDefinition> = new Map();
+
+const DEFAULT_SHIELDS: ShieldDefinition[] = [
+  {
+    id: 'energy_shield',
+    name: 'Energy Shield',
+    arcDegrees: 120,
+    blockReduction: 0.8,
+    maxEnergy: 100,
+    energyPerDamage: 2,
+    energyRegenPerSecond: 20,
+    regenDelayMs: 1500,
+    breakLockoutMs: 2500,
+    parryWindowMs: 250,
+    parryReflectMultiplier: 0.5,
+    iconReference: 'icons/items/portable_shield.png',
+  },
+];
+
+DEFAULT_SHIELDS.forEach(registerShield);
+
+/**
+ * Registers (or replaces) a shield definition.
+ * @param definition The shield definition
+ */
+export function registerShield(definition: ShieldDefinition): void {
+  shields.set(definition.id, definition);
+}
+
+/**
+ * Retrieve a shield definition by its item ID.
+ * @param id The shield's item ID
+ * @returns The definition, or undefined if the item is not a shield
+ */
+export function getShieldDefinition(id: string): ShieldDefinition | undefined {
+  return shields.get(id);
+}
+
+/**
+ * Checks whether an item ID is a registered shield.
+ */
+export function isShield(id: string): boolean {
+  return shields.has(id);
+}
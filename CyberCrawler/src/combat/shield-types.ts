@@ -0,0 +1,28 @@
+/**
+ * Shield Types - Shared types for the CyberCrawler shield registry
+ *
+ * A ShieldDefinition describes a blocking item: the frontal arc it covers, how much
+ * of a blocked hit it absorbs, its energy pool and the parry window after raising it.
+ * Definitions are keyed by the inventory item ID of the shield.
+ *
+ * @author CyberCrawler Team
+ */
+
+/**
+ * Static description of a shield.
+ * See: /src/combat/shield-registry.ts
+ */
+export interface ShieldDefinition {
+  id: string;                      // Inventory item ID (e.g., 'energy_shield')
+  name: string;
+  arcDegrees: number;              // Frontal arc covered while blocking (attacks outside it ignore the block)
+  blockReduction: number;          // Fraction of a blocked hit's damage and knockback absorbed
+  maxEnergy: number;
+  energyPerDamage: number;         // Energy drained per point of damage absorbed
+  energyRegenPerSecond: number;
+  regenDelayMs: number;            // Time after lowering or absorbing a hit before energy regenerates
+  breakLockoutMs: number;          // Time the shield cannot be raised after its energy runs out
+  parryWindowMs: number;           // Hits within this time after raising are parried
+  parryReflectMultiplier: number;  // Fraction of a parried hit's damage reflected to the attacker
+  iconReference?: string;
+}
@@ -0,0 +1,284 @@
+/**
+ * Status Effect Manager - Applies, ticks and expires timed status effects
+ *
+ * This singleton tracks every status effect attached to any entity. It runs
+ * damage-over-time ticks through the damage pipeline, expires effects, exposes
+ * aggregated modifiers (speed, damage dealt/taken, stun) and pushes the current
+ * effects to the player HUD or the entity's own display (enemy health bars).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, WorldLoopEvent)
+ * - Damage pipeline from ./damage-pipeline
+ * - FactionManager from ./faction-manager (who may debuff whom)
+ * - Effect definitions from ../constants/status-effect-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { applyDamage, onPreDamage } from './damage-pipeline';
+import { FactionManager } from './faction-manager';
+import {
+  ActiveStatusEffect,
+  StatusEffectDefinition,
+  StatusEffectDisplay,
+  StatusEffectStacking,
+  StatusEffectSummary,
+  StatusModifierTotals,
+} from './status-effect-types';
+import { STATUS_EFFECTS } from '../constants/status-effect-config';
+
+interface TrackedEntity {
+  entity: Entity;
+  effects: Map<string, ActiveStatusEffect>;
+}
+
+/**
+ * Called whenever an effect is applied (or stacked/refreshed) on an entity.
+ */
+export type StatusEffectListener = (entity: Entity, definition: StatusEffectDefinition, source?: Entity) => void;
+
+const NO_MODIFIERS: StatusModifierTotals = {
+  speedMultiplier: 1,
+  damageDealtMultiplier: 1,
+  damageTakenMultiplier: 1,
+  stunned: false,
+};
+
+export class StatusEffectManager {
+  private static _instance: StatusEffectManager;
+  private tracked: Map<number, TrackedEntity> = new Map();
+  private listeners: StatusEffectListener[] = [];
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the StatusEffectManager.
+   */
+  public static get instance(): StatusEffectManager {
+    if (!StatusEffectManager._instance) {
+      StatusEffectManager._instance = new StatusEffectManager();
+    }
+    return StatusEffectManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop and the damage pipeline.
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    // Damage dealt/taken modifiers from buffs and debuffs
+    onPreDamage(event => {
+      if (event.source) {
+        event.amount *= this.getModifiers(event.source).damageDealtMultiplier;
+      }
+      event.amount *= this.getModifiers(event.target).damageTakenMultiplier;
+    }, 50);
+
+    console.log('[StatusEffectManager] Initialized.');
+  }
+
+  /**
+   * Applies a status effect to an entity, stacking or refreshing it if already active.
+   * Debuffs with a source follow the same faction rules as damage (FactionManager.canDamage),
+   * so allies, protected players and PvP-off players cannot be stunned or set burning.
+   * @param entity The entity receiving the effect
+   * @param effectId The ID of the effect in STATUS_EFFECTS
+   * @param source Optional entity responsible for the effect
+   * @returns True if the effect was applied
+   */
+  public applyEffect(entity: Entity, effectId: string, source?: Entity): boolean {
+    const definition = STATUS_EFFECTS[effectId];
+    if (!definition) {
+      console.warn(`[StatusEffectManager] Unknown status effect "${effectId}".`);
+      return false;
+    }
+    if (!entity.isSpawned) return false;
+    if (definition.isDebuff && source && !FactionManager.instance.canDamage(source, entity)) return false;
+
+    const now = Date.now();
+    const tracked = this.getOrTrack(entity);
+    const existing = tracked.effects.get(effectId);
+
+    if (existing) {
+      if (definition.stacking === StatusEffectStacking.STACK) {
+        existing.stacks = Math.min(definition.maxStacks, existing.stacks + 1);
+      }
+      existing.expiresAt = now + definition.durationMs;
+      existing.source = source ?? existing.source;
+    } else {
+      tracked.effects.set(effectId, {
+        definition,
+        stacks: 1,
+        expiresAt: now + definition.durationMs,
+        nextTickAt: now + (definition.tickIntervalMs ?? 0),
+        source,
+      });
+    }
+
+    this.notifyDisplay(tracked);
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(entity, definition, source);
+      } catch (error) {
+        console.error('[StatusEffectManager] Effect listener threw an error:', error);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Subscribes to effects being applied (e.g., for the combat log).
+   * @param listener Called with the entity, the effect definition and its source
+   * @returns A function that removes the listener
+   */
+  public onEffectApplied(listener: StatusEffectListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Removes a single effect from an entity.
+   * @param entity The entity
+   * @param effectId The ID of the effect to remove
+   */
+  public removeEffect(entity: Entity, effectId: string): void {
+    const tracked = this.tracked.get(entity.id!);
+    if (tracked?.effects.delete(effectId)) {
+      this.notifyDisplay(tracked);
+    }
+  }
+
+  /**
+   * Removes every effect from an entity (e.g., on death).
+   * @param entity The entity
+   */
+  public clearEffects(entity: Entity): void {
+    const tracked = this.tracked.get(entity.id!);
+    if (!tracked) return;
+    tracked.effects.clear();
+    this.notifyDisplay(tracked);
+    this.tracked.delete(entity.id!);
+  }
+
+  /**
+   * Checks whether an entity currently has an effect.
+   */
+  public hasEffect(entity: Entity, effectId: string): boolean {
+    return this.tracked.get(entity.id!)?.effects.has(effectId) ?? false;
+  }
+
+  /**
+   * Aggregates the modifiers of every active effect on an entity.
+   * @param entity The entity
+   * @returns The combined modifiers (neutral values if no effects)
+   */
+  public getModifiers(entity: Entity): StatusModifierTotals {
+    const tracked = this.tracked.get(entity.id!);
+    if (!tracked || tracked.effects.size === 0) return NO_MODIFIERS;
+
+    const totals = { ...NO_MODIFIERS };
+    for (const effect of tracked.effects.values()) {
+      const modifiers = effect.definition.modifiers;
+      if (!modifiers) continue;
+      const scale = (multiplier?: number) => 1 + ((multiplier ?? 1) - 1) * effect.stacks;
+      totals.speedMultiplier *= scale(modifiers.speedMultiplier);
+      totals.damageDealtMultiplier *= scale(modifiers.damageDealtMultiplier);
+      totals.damageTakenMultiplier *= scale(modifiers.damageTakenMultiplier);
+      totals.stunned = totals.stunned || !!modifiers.stunned;
+    }
+    return totals;
+  }
+
+  /**
+   * Builds UI summaries of the effects on an entity.
+   */
+  public getEffectSummaries(entity: Entity): StatusEffectSummary[] {
+    const tracked = this.tracked.get(entity.id!);
+    return tracked ? this.summarize(tracked) : [];
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private getOrTrack(entity: Entity): TrackedEntity {
+    let tracked = this.tracked.get(entity.id!);
+    if (!tracked) {
+      tracked = { entity, effects: new Map() };
+      this.tracked.set(entity.id!, tracked);
+    }
+    return tracked;
+  }
+
+  /**
+   * Runs damage ticks and expiry for every tracked entity.
+   */
+  private tick(): void {
+    const now = Date.now();
+    for (const [id, tracked] of this.tracked) {
+      if (!tracked.entity.isSpawned) {
+        this.tracked.delete(id);
+        continue;
+      }
+
+      let changed = false;
+      for (const [effectId, effect] of tracked.effects) {
+        const { tickIntervalMs, tickDamage, tickDamageType } = effect.definition;
+        if (tickIntervalMs && tickDamage && now >= effect.nextTickAt) {
+          effect.nextTickAt = now + tickIntervalMs;
+          applyDamage(tracked.entity, {
+            amount: tickDamage * effect.stacks,
+            type: tickDamageType,
+            source: effect.source,
+            isPeriodic: true,
+          });
+        }
+        if (now >= effect.expiresAt) {
+          tracked.effects.delete(effectId);
+          changed = true;
+        }
+      }
+
+      if (changed) this.notifyDisplay(tracked);
+    }
+  }
+
+  private summarize(tracked: TrackedEntity): StatusEffectSummary[] {
+    const now = Date.now();
+    return Array.from(tracked.effects.values()).map(effect => ({
+      id: effect.definition.id,
+      name: effect.definition.name,
+      iconReference: effect.definition.iconReference,
+      isDebuff: effect.definition.isDebuff,
+      stacks: effect.stacks,
+      remainingMs: Math.max(0, effect.expiresAt - now),
+    }));
+  }
+
+  /**
+   * Pushes the current effects to the player HUD or the entity's own display.
+   */
+  private notifyDisplay(tracked: TrackedEntity): void {
+    const summaries = this.summarize(tracked);
+    const entity = tracked.entity;
+
+    if (entity instanceof PlayerEntity) {
+      entity.player.ui.sendData({ type: 'status-effects', payload: summaries });
+    } else if (typeof (entity as unknown as StatusEffectDisplay).showStatusEffects === 'function') {
+      (entity as unknown as StatusEffectDisplay).showStatusEffects(summaries);
+    }
+  }
+}
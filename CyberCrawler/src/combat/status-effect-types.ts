@@ -0,0 +1,102 @@
+/**
+ * Status Effect Types - Shared types for timed status effects
+ *
+ * Describes effect definitions (burn, bleed, EMP stun, buffs), the runtime
+ * state of an effect attached to an entity, and the aggregated modifiers
+ * other systems read each tick.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity
+ * - DamageType from ./damage-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Entity } from 'hytopia';
+import { DamageType } from './damage-types';
+
+// ====================================
+// Definitions
+// ====================================
+
+/**
+ * How re-applying an effect that is already active behaves.
+ * REFRESH resets the duration; STACK adds a stack (up to maxStacks) and resets the duration.
+ */
+export enum StatusEffectStacking {
+  REFRESH = 'refresh',
+  STACK = 'stack',
+}
+
+/**
+ * Modifiers an effect contributes. Multipliers are per stack:
+ * a 1.1 multiplier at 3 stacks contributes 1 + 0.1 * 3 = 1.3.
+ */
+export interface StatusEffectModifiers {
+  speedMultiplier?: number;
+  damageDealtMultiplier?: number;
+  damageTakenMultiplier?: number;
+  stunned?: boolean;
+}
+
+/**
+ * Static description of a status effect.
+ */
+export interface StatusEffectDefinition {
+  id: string;                     // Unique identifier (e.g., 'burn', 'combat_stim')
+  name: string;                   // Display name
+  iconReference?: string;         // Optional icon for the HUD
+  isDebuff: boolean;              // Harmful: follows faction rules when applied, coloured red in the UI
+  durationMs: number;             // Lifetime after the most recent application
+  stacking: StatusEffectStacking;
+  maxStacks: number;
+  modifiers?: StatusEffectModifiers;
+  tickIntervalMs?: number;        // Damage-over-time interval
+  tickDamage?: number;            // Damage per tick per stack
+  tickDamageType?: DamageType;
+}
+
+// ====================================
+// Runtime state
+// ====================================
+
+/**
+ * A status effect currently attached to an entity.
+ */
+export interface ActiveStatusEffect {
+  definition: StatusEffectDefinition;
+  stacks: number;
+  expiresAt: number;              // Date.now() timestamp
+  nextTickAt: number;             // Date.now() timestamp of the next damage tick
+  source?: Entity;                // Entity that applied the effect
+}
+
+/**
+ * Combined modifiers from every active effect on an entity.
+ */
+export interface StatusModifierTotals {
+  speedMultiplier: number;
+  damageDealtMultiplier: number;
+  damageTakenMultiplier: number;
+  stunned: boolean;
+}
+
+/**
+ * UI-friendly summary of an active effect, sent to the HUD and health bars.
+ */
+export interface StatusEffectSummary {
+  id: string;
+  name: string;
+  iconReference?: string;
+  isDebuff: boolean;
+  stacks: number;
+  remainingMs: number;
+}
+
+/**
+ * Implemented by entities that display their own status effects
+ * (e.g., enemies with a floating HealthBar).
+ */
+export interface StatusEffectDisplay {
+  showStatusEffects(effects: StatusEffectSummary[]): void;
+}
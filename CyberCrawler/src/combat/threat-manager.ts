@@ -0,0 +1,280 @@
+/**
+ * Threat Manager - Per-enemy threat (aggro) tables
+ *
+ * Every AI-controlled entity keeps a threat table of the hostile entities it knows
+ * about. Damage dealt to the enemy, healing done near it, taunts and simply standing
+ * close all generate threat, and threat decays over time. The enemy's current target
+ * is the entry with the most threat; the player house is an objective with a constant
+ * threat of THREAT_CONFIG.HOUSE_THREAT, so enemies march on the house until someone
+ * draws their attention. Any hostile damageable entity can be a target, so player
+ * deployables take part without extra wiring.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, WorldLoopEvent)
+ * - Damage pipeline hooks from ./damage-pipeline
+ * - FactionManager from ./faction-manager (who may be targeted)
+ * - Threat tables from ./threat-tables
+ * - distanceBetween from ../physics/physicsSystem
+ * - THREAT_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { onPostDamage, resolveDamageable } from './damage-pipeline';
+import { DamageEvent } from './damage-types';
+import { FactionManager } from './faction-manager';
+import { ThreatEntry, ThreatTables } from './threat-tables';
+import { distanceBetween } from '../physics/physicsSystem';
+import { THREAT_CONFIG } from '../constants/combat-config';
+
+export type { ThreatEntry } from './threat-tables';
+
+/**
+ * What an enemy can be after.
+ */
+export enum ThreatTargetKind {
+  ENTITY = 'entity', // A player, deployable or other hostile entity
+  HOUSE = 'house',   // The player house objective
+}
+
+/**
+ * The target an enemy has selected, with the threat that put it there.
+ */
+export interface ThreatTarget {
+  kind: ThreatTargetKind;
+  entity?: Entity;        // Set when kind is ENTITY
+  threat: number;
+}
+
+export class ThreatManager {
+  private static _instance: ThreatManager;
+  private world: World | null = null;
+  private tables: ThreatTables = new ThreatTables((enemy, entity) => FactionManager.instance.canTarget(enemy, entity));
+  private lastTauntAt: Map<number, number> = new Map(); // taunter entityId -> timestamp
+  private lastUpdateAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the ThreatManager.
+   */
+  public static get instance(): ThreatManager {
+    if (!ThreatManager._instance) {
+      ThreatManager._instance = new ThreatManager();
+    }
+    return ThreatManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop (decay, proximity) and the damage pipeline.
+   * Should be called once when the server starts, after the FactionManager.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+    this.lastUpdateAt = Date.now();
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+    onPostDamage(event => this.recordDamage(event));
+
+    console.log('[ThreatManager] Initialized.');
+  }
+
+  // ====================================
+  // Generating threat
+  // ====================================
+
+  /**
+   * Adds threat toward an entity on an enemy's table.
+   * Ignored when the enemy may not target the entity (see FactionManager.canTarget).
+   * @param enemy The entity whose table is updated
+   * @param entity The entity generating threat
+   * @param amount Threat to add
+   */
+  public addThreat(enemy: Entity, entity: Entity, amount: number): void {
+    this.tables.addThreat(enemy, entity, amount);
+  }
+
+  /**
+   * Generates threat for healing: every enemy near the healed entity that may
+   * target the healer adds threat toward the healer.
+   * @param healer The entity doing the healing
+   * @param healed The entity being healed
+   * @param amount Health restored
+   */
+  public addHealingThreat(healer: Entity, healed: Entity, amount: number): void {
+    this.tables.addHealingThreat(healer, healed, amount);
+  }
+
+  /**
+   * Taunts nearby enemies: the taunter's threat on each of them is raised above
+   * their current top threat, so they switch to the taunter.
+   * @param taunter The taunting entity
+   * @returns The number of enemies taunted, or 0 while the taunt is on cooldown
+   */
+  public taunt(taunter: Entity): number {
+    if (this.getTauntCooldownRemaining(taunter) > 0) return 0;
+    this.lastTauntAt.set(taunter.id!, Date.now());
+
+    let taunted = 0;
+    for (const [, table] of this.tables.entries()) {
+      const { owner } = table;
+      if (!FactionManager.instance.canTarget(owner, taunter)) continue;
+      if (distanceBetween(owner.position, taunter.position) > THREAT_CONFIG.TAUNT_RADIUS) continue;
+
+      const topThreat = Math.max(THREAT_CONFIG.HOUSE_THREAT, ...Array.from(table.entries.values(), entry => entry.threat));
+      const current = table.entries.get(taunter.id!)?.threat ?? 0;
+      this.addThreat(owner, taunter, topThreat - current + THREAT_CONFIG.TAUNT_THREAT);
+      table.currentTargetId = taunter.id;
+      taunted++;
+    }
+    return taunted;
+  }
+
+  /**
+   * Gets how long until an entity may taunt again.
+   * @returns Remaining cooldown in milliseconds (0 when ready)
+   */
+  public getTauntCooldownRemaining(taunter: Entity): number {
+    const last = this.lastTauntAt.get(taunter.id!);
+    if (last === undefined) return 0;
+    return Math.max(0, THREAT_CONFIG.TAUNT_COOLDOWN_MS - (Date.now() - last));
+  }
+
+  // ====================================
+  // Reading threat
+  // ====================================
+
+  /**
+   * Selects the target an enemy should pursue: the highest threat, where the house
+   * objective counts as THREAT_CONFIG.HOUSE_THREAT. The current target keeps a
+   * THREAT_CONFIG.TARGET_SWITCH_MARGIN advantage so enemies do not flip-flop.
+   * @param enemy The enemy entity
+   * @returns The selected target
+   */
+  public getCurrentTarget(enemy: Entity): ThreatTarget {
+    const table = this.tables.getOrCreate(enemy);
+    const weigh = (id: number | undefined, threat: number) =>
+      id === table.currentTargetId ? threat * THREAT_CONFIG.TARGET_SWITCH_MARGIN : threat;
+
+    let best: ThreatEntry | undefined;
+    let bestScore = weigh(undefined, THREAT_CONFIG.HOUSE_THREAT);
+    for (const entry of table.entries.values()) {
+      if (!FactionManager.instance.canTarget(enemy, entry.entity)) continue;
+
+      const score = weigh(entry.entity.id, entry.threat);
+      if (score > bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+
+    table.currentTargetId = best?.entity.id;
+    return best
+      ? { kind: ThreatTargetKind.ENTITY, entity: best.entity, threat: best.threat }
+      : { kind: ThreatTargetKind.HOUSE, threat: THREAT_CONFIG.HOUSE_THREAT };
+  }
+
+  /**
+   * Gets an enemy's threat toward an entity.
+   */
+  public getThreat(enemy: Entity, entity: Entity): number {
+    return this.tables.getThreat(enemy, entity);
+  }
+
+  /**
+   * Gets an enemy's threat table, highest threat first.
+   */
+  public getThreatTable(enemy: Entity): ThreatEntry[] {
+    const table = this.tables.get(enemy);
+    if (!table) return [];
+    return Array.from(table.entries.values(), entry => ({ ...entry })).sort((a, b) => b.threat - a.threat);
+  }
+
+  /**
+   * Clears an enemy's threat table (e.g., when it resets or despawns).
+   */
+  public clearThreat(enemy: Entity): void {
+    this.tables.delete(enemy);
+  }
+
+  /**
+   * Forgets an entity everywhere (e.g., a leaving player): its own table, its
+   * entries on every enemy's table and its taunt cooldown.
+   */
+  public removeEntity(entity: Entity): void {
+    this.tables.removeEntity(entity);
+    this.lastTauntAt.delete(entity.id!);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Post-damage hook: damage dealt to an AI-controlled entity generates threat toward the attacker.
+   */
+  private recordDamage(event: DamageEvent): void {
+    const { source, target } = event;
+    if (target instanceof PlayerEntity) return;
+
+    if (resolveDamageable(target)?.isDead()) {
+      this.clearThreat(target);
+      return;
+    }
+
+    if (source && source !== target) {
+      this.addThreat(target, source, event.amount * THREAT_CONFIG.DAMAGE_MULTIPLIER);
+    }
+  }
+
+  /**
+   * Applies decay and proximity threat, and drops tables of despawned or dead enemies
+   * and entries that can no longer be targeted.
+   */
+  private tick(): void {
+    if (!this.world) return;
+
+    const now = Date.now();
+    if (now - this.lastUpdateAt < THREAT_CONFIG.UPDATE_INTERVAL_MS) return;
+    const elapsedSeconds = (now - this.lastUpdateAt) / 1000;
+    this.lastUpdateAt = now;
+
+    const decay = Math.pow(1 - THREAT_CONFIG.DECAY_PER_SECOND, elapsedSeconds);
+    const candidates = this.world.entityManager.getAllEntities().filter(entity => resolveDamageable(entity));
+
+    for (const [, table] of this.tables.entries()) {
+      const owner = table.owner;
+      if (!owner.isSpawned || resolveDamageable(owner)?.isDead()) {
+        this.tables.delete(owner);
+        continue;
+      }
+
+      for (const [entityId, entry] of table.entries) {
+        entry.threat *= decay;
+        if (entry.threat < THREAT_CONFIG.MIN_THREAT || !FactionManager.instance.canTarget(owner, entry.entity)) {
+          table.entries.delete(entityId);
+        }
+      }
+
+      for (const candidate of candidates) {
+        const distance = distanceBetween(owner.position, candidate.position);
+        if (distance > THREAT_CONFIG.PROXIMITY_RADIUS) continue;
+
+        const closeness = 1 - distance / THREAT_CONFIG.PROXIMITY_RADIUS;
+        this.addThreat(owner, candidate, THREAT_CONFIG.PROXIMITY_THREAT_PER_SECOND * closeness * elapsedSeconds);
+      }
+    }
+
+    for (const [taunterId, last] of this.lastTauntAt) {
+      if (now - last >= THREAT_CONFIG.TAUNT_COOLDOWN_MS) this.lastTauntAt.delete(taunterId);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import { Entity } from 'hytopia';
+
+import { ThreatTables } from './threat-tables';
+import { THREAT_CONFIG } from '../constants/combat-config';
+
+let nextId = 1;
+
+function entity(x: number, z: number = 0): Entity {
+  return { id: nextId++, position: { x, y: 0, z } } as Entity;
+}
+
+/** Enemies may target players only. */
+function tablesFor(players: Entity[]): ThreatTables {
+  return new ThreatTables((_enemy, target) => players.includes(target));
+}
+
+describe('addThreat', () => {
+  test('accumulates threat per entity', () => {
+    const enemy = entity(0);
+    const player = entity(1);
+    const tables = tablesFor([player]);
+
+    tables.addThreat(enemy, player, 10);
+    tables.addThreat(enemy, player, 5);
+    expect(tables.getThreat(enemy, player)).toBe(15);
+  });
+
+  test('ignores entities the enemy may not target, itself and non-positive amounts', () => {
+    const enemy = entity(0);
+    const ally = entity(1);
+    const player = entity(2);
+    const tables = tablesFor([player]);
+
+    tables.addThreat(enemy, ally, 10);
+    tables.addThreat(enemy, enemy, 10);
+    tables.addThreat(enemy, player, 0);
+    expect(tables.get(enemy)).toBeUndefined();
+  });
+});
+
+describe('addHealingThreat', () => {
+  test('healing near an enemy raises the healer\'s threat on its table', () => {
+    const enemy = entity(0);
+    const healer = entity(5);
+    const tables = tablesFor([healer]);
+    tables.getOrCreate(enemy);
+
+    tables.addHealingThreat(healer, healer, 20);
+    expect(tables.getThreat(enemy, healer)).toBe(20 * THREAT_CONFIG.HEALING_MULTIPLIER);
+  });
+
+  test('is measured from the healed entity, not the healer', () => {
+    const enemy = entity(0);
+    const healer = entity(THREAT_CONFIG.HEALING_RADIUS * 3);
+    const healed = entity(2);
+    const tables = tablesFor([healer, healed]);
+    tables.getOrCreate(enemy);
+
+    tables.addHealingThreat(healer, healed, 10);
+    expect(tables.getThreat(enemy, healer)).toBeGreaterThan(0);
+    expect(tables.getThreat(enemy, healed)).toBe(0);
+  });
+
+  test('leaves enemies beyond the healing radius alone', () => {
+    const near = entity(0);
+    const far = entity(THREAT_CONFIG.HEALING_RADIUS + 1);
+    const healer = entity(0, 1);
+    const tables = tablesFor([healer]);
+    tables.getOrCreate(near);
+    tables.getOrCreate(far);
+
+    tables.addHealingThreat(healer, healer, 10);
+    expect(tables.getThreat(near, healer)).toBeGreaterThan(0);
+    expect(tables.getThreat(far, healer)).toBe(0);
+  });
+
+  test('only enemies that may target the healer notice', () => {
+    const enemy = entity(0);
+    const healer = entity(1);
+    const tables = tablesFor([]);
+    tables.getOrCreate(enemy);
+
+    tables.addHealingThreat(healer, healer, 10);
+    expect(tables.getThreat(enemy, healer)).toBe(0);
+  });
+});
+
+describe('removeEntity', () => {
+  test('drops the entity\'s own table and its entries on other tables', () => {
+    const enemy = entity(0);
+    const player = entity(1);
+    const tables = tablesFor([player, enemy]);
+    tables.addThreat(enemy, player, 10);
+    tables.addThreat(player, enemy, 10);
+    tables.get(enemy)!.currentTargetId = player.id;
+
+    tables.removeEntity(player);
+    expect(tables.getThreat(enemy, player)).toBe(0);
+    expect(tables.get(enemy)!.currentTargetId).toBeUndefined();
+    expect(tables.get(player)).toBeUndefined();
+  });
+});
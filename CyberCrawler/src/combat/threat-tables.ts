@@ -0,0 +1,141 @@
+/**
+ * Threat Tables - The threat bookkeeping behind the ThreatManager
+ *
+ * Holds every enemy's threat table and the rules for adding threat to them:
+ * plain threat toward an entity, and healing threat, which every enemy near the
+ * healed entity adds toward the healer. Who may be targeted is decided by the
+ * canTarget rule passed in (FactionManager.canTarget in the game), so the tables
+ * can be tested without a running world. See ./threat-manager.ts for decay,
+ * proximity, taunts and target selection.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK types (Entity)
+ * - distanceBetween from ../physics/physicsSystem
+ * - THREAT_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity } from 'hytopia';
+
+// Project modules
+import { distanceBetween } from '../physics/physicsSystem';
+import { THREAT_CONFIG } from '../constants/combat-config';
+
+/**
+ * A single entry of a threat table.
+ */
+export interface ThreatEntry {
+  entity: Entity;
+  threat: number;
+}
+
+/**
+ * An enemy's threat table.
+ */
+export interface ThreatTable {
+  owner: Entity;
+  entries: Map<number, ThreatEntry>; // entityId -> entry
+  currentTargetId?: number;          // undefined = the house objective
+}
+
+/**
+ * Decides whether an enemy may target an entity.
+ */
+export type CanTarget = (enemy: Entity, entity: Entity) => boolean;
+
+export class ThreatTables {
+  private tables: Map<number, ThreatTable> = new Map(); // owner entityId -> table
+
+  /**
+   * @param canTarget Decides whether an enemy may target an entity
+   */
+  constructor(private readonly canTarget: CanTarget) {}
+
+  /**
+   * Adds threat toward an entity on an enemy's table.
+   * Ignored when the enemy may not target the entity.
+   * @param enemy The entity whose table is updated
+   * @param entity The entity generating threat
+   * @param amount Threat to add
+   */
+  public addThreat(enemy: Entity, entity: Entity, amount: number): void {
+    if (amount <= 0 || enemy === entity || !this.canTarget(enemy, entity)) return;
+
+    const table = this.getOrCreate(enemy);
+    const entry = table.entries.get(entity.id!);
+    if (entry) {
+      entry.threat += amount;
+    } else {
+      table.entries.set(entity.id!, { entity, threat: amount });
+    }
+  }
+
+  /**
+   * Generates threat for healing: every enemy within THREAT_CONFIG.HEALING_RADIUS
+   * of the healed entity that may target the healer adds threat toward the healer.
+   * @param healer The entity doing the healing
+   * @param healed The entity being healed
+   * @param amount Health restored
+   */
+  public addHealingThreat(healer: Entity, healed: Entity, amount: number): void {
+    const threat = amount * THREAT_CONFIG.HEALING_MULTIPLIER;
+    for (const table of this.tables.values()) {
+      if (distanceBetween(table.owner.position, healed.position) <= THREAT_CONFIG.HEALING_RADIUS) {
+        this.addThreat(table.owner, healer, threat);
+      }
+    }
+  }
+
+  /**
+   * Gets an enemy's threat toward an entity.
+   */
+  public getThreat(enemy: Entity, entity: Entity): number {
+    return this.tables.get(enemy.id!)?.entries.get(entity.id!)?.threat ?? 0;
+  }
+
+  /**
+   * Gets an enemy's table, if it has one.
+   */
+  public get(enemy: Entity): ThreatTable | undefined {
+    return this.tables.get(enemy.id!);
+  }
+
+  /**
+   * Gets an enemy's table, creating an empty one if needed.
+   */
+  public getOrCreate(enemy: Entity): ThreatTable {
+    let table = this.tables.get(enemy.id!);
+    if (!table) {
+      table = { owner: enemy, entries: new Map() };
+      this.tables.set(enemy.id!, table);
+    }
+    return table;
+  }
+
+  /**
+   * Every table, keyed by the owner's entity ID.
+   */
+  public entries(): IterableIterator<[number, ThreatTable]> {
+    return this.tables.entries();
+  }
+
+  /**
+   * Drops an enemy's table.
+   */
+  public delete(enemy: Entity): void {
+    this.tables.delete(enemy.id!);
+  }
+
+  /**
+   * Forgets an entity everywhere: its own table and its entries on every other table.
+   */
+  public removeEntity(entity: Entity): void {
+    this.tables.delete(entity.id!);
+    for (const table of this.tables.values()) {
+      table.entries.delete(entity.id!);
+      if (table.currentTargetId === entity.id) table.currentTargetId = undefined;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Weapon Registry - Central weapon definitions for CyberCrawler
+ *
+ * Every equippable weapon is defined here, keyed by its inventory item ID.
+ * Damage values mirror the crafted item stats in recipe-database.ts.
+ * Additional weapons can be registered at runtime with registerWeapon().
+ *
+ * Dependencies:
+ * - Weapon types from ./weapon-types
+ * - Damage types from ./damage-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { WeaponDefinition, WeaponKind } from './weapon-types';
+import { DamageType } from './damage-types';
+
+// Shared attachment for one-handed weapons held in the right hand
+const RIGHT_HAND = {
+  anchor: 'hand_right_anchor',
+  anchorOffset: { x: 0, y: 0.1, z: 0 },
+  anchorRotation: { x: -90, y: 0, z: 90 },
+};
+
+/**
+ * Weapon given to every player when they join.
+ */
+export const STARTER_WEAPON_ID = 'cyber_blade';
+
+const weapons: Map<string, WeaponDefinition> = new Map();
+
+const DEFAULT_WEAPONS: WeaponDefinition[] = [
+  {
+    id: 'cyber_blade',
+    name: 'Cyber Blade',
+    kind: WeaponKind.MELEE,
+    damage: 15,
+    range: 2.0,
+    attackRate: 2,
+    arcDegrees: 90,
+    maxTargets: 2,
+    damageType: DamageType.KINETIC,
+    iconReference: 'icons/items/makeshift_blade.png',
+    modelUri: 'models/items/sword.gltf',
+    modelScale: 0.8,
+    ...RIGHT_HAND,
+    attackAnimations: ['simple_interact'],
+    heldIdleAnimations: ['idle_upper', 'idle_lower'],
+    attackSoundUri: 'audio/sfx/sword-swing.mp3',
+    hitSoundUri: 'audio/sfx/damage/hit.mp3',
+  },
+  {
+    id: 'vibro_blade',
+    name: 'Vibro Blade',
+    kind: WeaponKind.MELEE,
+    damage: 15,
+    range: 2.2,
+    attackRate: 2.5,
+    arcDegrees: 140,               // Wide cleaving swings
+    maxTargets: 4,
+    damageType: DamageType.ENERGY,
+    iconReference: 'icons/items/makeshift_blade.png',
+    modelUri: 'models/items/sword.gltf',
+    modelScale: 0.9,
+    ...RIGHT_HAND,
+    attackAnimations: ['simple_interact'],
+    heldIdleAnimations: ['idle_upper', 'idle_lower'],
+    attackSoundUri: 'audio/sfx/sword-swing.mp3',
+    hitSoundUri: 'audio/sfx/damage/hit-metal-1.mp3',
+    onHitEffect: { effectId: 'burn', chance: 0.25 },
+    heat: { perAttack: 15, max: 100, coolingPerSecond: 20, unlockAt: 30 },
+  },
+  {
+    id: 'makeshift_blade',
+    name: 'Makeshift Blade',
+    kind: WeaponKind.MELEE,
+    damage: 8,
+    range: 1.8,
+    attackRate: 2,
+    arcDegrees: 70,
+    maxTargets: 1,
+    damageType: DamageType.KINETIC,
+    iconReference: 'icons/items/makeshift_blade.png',
+    modelUri: 'models/items/shears.gltf',
+    modelScale: 0.8,
+    ...RIGHT_HAND,
+    attackAnimations: ['simple_interact'],
+    heldIdleAnimations: ['idle_upper', 'idle_lower'],
+    attackSoundUri: 'audio/sfx/player/player-swing-woosh.mp3',
+    hitSoundUri: 'audio/sfx/damage/hit-wood.mp3',
+    onHitEffect: { effectId: 'bleed', chance: 0.35 },   // Jagged scrap edge
+  },
+  {
+    id: 'energy_pistol',
+    name: 'Energy Pistol',
+    kind: WeaponKind.RANGED,
+    damage: 12,
+    range: 40,
+    attackRate: 3,
+    arcDegrees: 0,
+    maxTargets: 1,
+    damageType: DamageType.ENERGY,
+    iconReference: 'icons/items/pipe_pistol.png',
+    modelUri: 'models/items/compass.gltf',
+    modelScale: 0.6,
+    ...RIGHT_HAND,
+    attackAnimations: ['simple_interact'],
+    heldIdleAnimations: ['idle_upper', 'idle_lower'],
+    attackSoundUri: 'audio/sfx/player/bow-01.mp3',
+    projectileId: 'energy_bolt',
+    muzzleHeight: 0.6,
+    heat: { perAttack: 12, max: 100, coolingPerSecond: 25, unlockAt: 40 },
+    energy: { perAttack: 5, capacity: 60, perCell: 30 },
+  },
+];
+
+DEFAULT_WEAPONS.forEach(registerWeapon);
+
+/**
+ * Registers (or replaces) a weapon definition.
+ * @param definition The weapon definition
+ */
+export function registerWeapon(definition: WeaponDefinition): void {
+  weapons.set(definition.id, definition);
+}
+
+/**
+ * Retrieve a weapon definition by its item ID.
+ * @param id The weapon's item ID
+ * @returns The definition, or undefined if the item is not a weapon
+ */
+export function getWeaponDefinition(id: string): WeaponDefinition | undefined {
+  return weapons.get(id);
+}
+
+/**
+ * Checks whether an item ID is a registered weapon.
+ */
+export function isWeapon(id: string): boolean {
+  return weapons.has(id);
+}
+
+/**
+ * Gets every registered weapon definition.
+ */
+export function getAllWeapons(): WeaponDefinition[] {
+  return Array.from(weapons.values());
+}
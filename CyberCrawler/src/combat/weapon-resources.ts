@@ -0,0 +1,312 @@
+/**
+ * Weapon Resources - Heat and energy for weapons
+ *
+ * Weapons may declare `heat` and/or `energy` in their WeaponDefinition. Each attack
+ * builds heat and uses energy. A weapon whose heat reaches its maximum overheats
+ * and is locked out until it has cooled to `unlockAt`; a weapon without enough
+ * energy cannot attack until it is reloaded from energy cells in the wielder's
+ * inventory. State is kept per wielder and weapon, so heat and energy survive
+ * switching weapons. Players receive a 'weapon-resources' UI event for the weapon
+ * they hold, which drives the heat and energy meters on the HUD.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, WorldLoopEvent)
+ * - Weapon types from ./weapon-types
+ * - InventoryManager from ../player/inventory-manager (energy cells)
+ * - WEAPON_RESOURCE_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { WeaponDefinition } from './weapon-types';
+import { InventoryManager } from '../player/inventory-manager';
+import { WEAPON_RESOURCE_CONFIG } from '../constants/combat-config';
+
+/**
+ * Why a weapon cannot attack right now.
+ */
+export enum WeaponLockReason {
+  OVERHEATED = 'overheated',
+  NO_ENERGY = 'no_energy',
+}
+
+/**
+ * UI-friendly snapshot of a weapon's resources.
+ */
+export interface WeaponResourceStatus {
+  weaponId: string;
+  heat?: number;
+  maxHeat?: number;
+  overheated: boolean;
+  energy?: number;
+  maxEnergy?: number;
+}
+
+interface WeaponResourceState {
+  definition: WeaponDefinition;
+  heat: number;
+  overheated: boolean;
+  energy: number;
+}
+
+interface WielderResources {
+  wielder: Entity;
+  weapons: Map<string, WeaponResourceState>; // weapon item ID -> state
+  activeWeaponId?: string;                   // Weapon shown on the wielder's HUD
+  dirty: boolean;                            // Active weapon changed since the last HUD update
+}
+
+export class WeaponResourceManager {
+  private static _instance: WeaponResourceManager;
+  private wielders: Map<number, WielderResources> = new Map(); // wielder entityId -> resources
+  private lastUpdateAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the WeaponResourceManager.
+   */
+  public static get instance(): WeaponResourceManager {
+    if (!WeaponResourceManager._instance) {
+      WeaponResourceManager._instance = new WeaponResourceManager();
+    }
+    return WeaponResourceManager._instance;
+  }
+
+  /**
+   * Hooks the manager into the world loop (cooling and HUD updates).
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.lastUpdateAt = Date.now();
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    console.log('[WeaponResourceManager] Initialized.');
+  }
+
+  // ====================================
+  // Attacking
+  // ====================================
+
+  /**
+   * Checks whether a weapon can attack right now.
+   * @param wielder The entity holding the weapon
+   * @param definition The weapon's definition
+   * @returns undefined if the weapon may attack, otherwise why it is locked
+   */
+  public getLockReason(wielder: Entity, definition: WeaponDefinition): WeaponLockReason | undefined {
+    if (!definition.heat && !definition.energy) return undefined;
+
+    const state = this.getState(wielder, definition);
+    if (state.overheated) return WeaponLockReason.OVERHEATED;
+    if (definition.energy && state.energy < definition.energy.perAttack) return WeaponLockReason.NO_ENERGY;
+    return undefined;
+  }
+
+  /**
+   * Spends the resources of one attack: adds heat (overheating the weapon at its
+   * maximum) and uses energy. Call after getLockReason() allowed the attack.
+   * @param wielder The entity holding the weapon
+   * @param definition The weapon's definition
+   */
+  public consumeAttack(wielder: Entity, definition: WeaponDefinition): void {
+    if (!definition.heat && !definition.energy) return;
+
+    const state = this.getState(wielder, definition);
+    if (definition.heat) {
+      state.heat = Math.min(definition.heat.max, state.heat + definition.heat.perAttack);
+      if (state.heat >= definition.heat.max) {
+        state.overheated = true;
+      }
+    }
+    if (definition.energy) {
+      state.energy = Math.max(0, state.energy - definition.energy.perAttack);
+    }
+
+    this.sendStatus(wielder, definition.id);
+  }
+
+  /**
+   * Tells the wielder's HUD that an attack was refused.
+   * @param wielder The entity holding the weapon
+   * @param definition The weapon's definition
+   * @param reason Why the weapon is locked
+   */
+  public notifyLocked(wielder: Entity, definition: WeaponDefinition, reason: WeaponLockReason): void {
+    this.sendStatus(wielder, definition.id, reason);
+  }
+
+  /**
+   * Refills a weapon's energy from energy cells in a player's inventory.
+   * Uses as few cells as needed to fill the weapon (never more than carried).
+   * @param wielder The player entity holding the weapon
+   * @param definition The weapon's definition
+   * @returns The number of energy cells used
+   */
+  public reload(wielder: PlayerEntity, definition: WeaponDefinition): number {
+    if (!definition.energy) return 0;
+
+    const playerId = wielder.player.id;
+    const state = this.getState(wielder, definition);
+    const missing = definition.energy.capacity - state.energy;
+    if (missing <= 0) return 0;
+
+    const carried = InventoryManager.instance.getItemCount(playerId, WEAPON_RESOURCE_CONFIG.ENERGY_CELL_ITEM_ID);
+    const cells = Math.min(carried, Math.ceil(missing / definition.energy.perCell));
+    if (cells <= 0) return 0;
+
+    if (!InventoryManager.instance.removeItems(playerId, [{ itemId: WEAPON_RESOURCE_CONFIG.ENERGY_CELL_ITEM_ID, quantity: cells }])) {
+      return 0;
+    }
+
+    state.energy = Math.min(definition.energy.capacity, state.energy + cells * definition.energy.perCell);
+    this.sendStatus(wielder, definition.id);
+    console.log(`[WeaponResourceManager] Player ${playerId} reloaded ${definition.id} with ${cells} energy cell(s).`);
+    return cells;
+  }
+
+  // ====================================
+  // Status and HUD
+  // ====================================
+
+  /**
+   * Marks the weapon a wielder holds, so its meters are shown on the HUD.
+   * @param wielder The entity holding the weapon
+   * @param definition The weapon's definition, or undefined when unarmed
+   */
+  public setActiveWeapon(wielder: Entity, definition: WeaponDefinition | undefined): void {
+    if (definition) this.getState(wielder, definition);
+
+    const resources = this.getWielder(wielder);
+    resources.activeWeaponId = definition?.id;
+    resources.dirty = true;
+  }
+
+  /**
+   * Gets a snapshot of a weapon's resources.
+   * @param wielder The entity holding the weapon
+   * @param definition The weapon's definition
+   */
+  public getStatus(wielder: Entity, definition: WeaponDefinition): WeaponResourceStatus {
+    return this.toStatus(this.getState(wielder, definition));
+  }
+
+  /**
+   * Resends the active weapon's meters on the next update (e.g., after the HUD reloads).
+   */
+  public refreshHud(wielder: Entity): void {
+    const resources = this.wielders.get(wielder.id!);
+    if (resources) resources.dirty = true;
+  }
+
+  /**
+   * Drops a wielder's heat and energy state (e.g., when a player leaves).
+   */
+  public removeWielder(wielder: Entity): void {
+    this.wielders.delete(wielder.id!);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private getWielder(wielder: Entity): WielderResources {
+    let resources = this.wielders.get(wielder.id!);
+    if (!resources) {
+      resources = { wielder, weapons: new Map(), dirty: false };
+      this.wielders.set(wielder.id!, resources);
+    }
+    return resources;
+  }
+
+  /**
+   * Gets (creating if needed) a wielder's state for a weapon. New weapons start cool and fully charged.
+   */
+  private getState(wielder: Entity, definition: WeaponDefinition): WeaponResourceState {
+    const resources = this.getWielder(wielder);
+    let state = resources.weapons.get(definition.id);
+    if (!state) {
+      state = { definition, heat: 0, overheated: false, energy: definition.energy?.capacity ?? 0 };
+      resources.weapons.set(definition.id, state);
+    }
+    return state;
+  }
+
+  private toStatus(state: WeaponResourceState): WeaponResourceStatus {
+    const { definition } = state;
+    return {
+      weaponId: definition.id,
+      heat: definition.heat ? state.heat : undefined,
+      maxHeat: definition.heat?.max,
+      overheated: state.overheated,
+      energy: definition.energy ? state.energy : undefined,
+      maxEnergy: definition.energy?.capacity,
+    };
+  }
+
+  /**
+   * Sends the meters of a player's active weapon to their HUD.
+   * Weapons other than the active one are not shown.
+   */
+  private sendStatus(wielder: Entity, weaponId: string, lockedReason?: WeaponLockReason): void {
+    if (!(wielder instanceof PlayerEntity)) return;
+
+    const resources = this.getWielder(wielder);
+    if (resources.activeWeaponId !== weaponId) return;
+
+    const state = resources.weapons.get(weaponId);
+    wielder.player.ui.sendData({
+      type: 'weapon-resources',
+      payload: state ? { ...this.toStatus(state), lockedReason } : null,
+    });
+    resources.dirty = false;
+  }
+
+  /**
+   * Cools every tracked weapon, releases overheat locks and refreshes HUDs.
+   */
+  private tick(): void {
+    const now = Date.now();
+    if (now - this.lastUpdateAt < WEAPON_RESOURCE_CONFIG.HUD_UPDATE_INTERVAL_MS) return;
+    const elapsedSeconds = (now - this.lastUpdateAt) / 1000;
+    this.lastUpdateAt = now;
+
+    for (const [wielderId, resources] of this.wielders) {
+      if (!resources.wielder.isSpawned) {
+        this.wielders.delete(wielderId);
+        continue;
+      }
+
+      for (const state of resources.weapons.values()) {
+        const heat = state.definition.heat;
+        if (!heat || state.heat <= 0) continue;
+
+        state.heat = Math.max(0, state.heat - heat.coolingPerSecond * elapsedSeconds);
+        if (state.overheated && state.heat <= heat.unlockAt) {
+          state.overheated = false;
+        }
+        if (state.definition.id === resources.activeWeaponId) {
+          resources.dirty = true;
+        }
+      }
+
+      if (resources.dirty) {
+        if (resources.activeWeaponId) {
+          this.sendStatus(resources.wielder, resources.activeWeaponId);
+        } else if (resources.wielder instanceof PlayerEntity) {
+          resources.wielder.player.ui.sendData({ type: 'weapon-resources', payload: null });
+          resources.dirty = false;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Weapon Types - Shared types for the CyberCrawler weapon registry
+ *
+ * A WeaponDefinition describes everything needed to build and use a weapon:
+ * stats, hit shape, model and attachment, animations, sounds, damage type and
+ * optional heat/energy resources.
+ * Definitions are keyed by the inventory item ID of the weapon.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Vector3Like
+ * - Damage types from ./damage-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Vector3Like } from 'hytopia';
+import { DamageType } from './damage-types';
+
+/**
+ * How a weapon attacks.
+ */
+export enum WeaponKind {
+  MELEE = 'melee',   // Swings hit targets in front of the wielder
+  RANGED = 'ranged', // Fires the projectile named by `projectileId`
+}
+
+/**
+ * Heat built up by attacking. A weapon that reaches `max` overheats and cannot
+ * attack until it has cooled down to `unlockAt`.
+ */
+export interface WeaponHeatConfig {
+  perAttack: number;               // Heat added by each attack
+  max: number;                     // Heat at which the weapon overheats
+  coolingPerSecond: number;
+  unlockAt: number;                // Heat an overheated weapon must cool to before it can attack again
+}
+
+/**
+ * Energy consumed by attacking. Reloaded from energy cells in the inventory.
+ */
+export interface WeaponEnergyConfig {
+  perAttack: number;               // Energy used by each attack
+  capacity: number;
+  perCell: number;                 // Energy restored per energy cell consumed on reload
+}
+
+/**
+ * Static description of a weapon type.
+ * See: /src/combat/weapon-registry.ts
+ */
+export interface WeaponDefinition {
+  id: string;                      // Inventory item ID (e.g., 'vibro_blade')
+  name: string;
+  kind: WeaponKind;
+  damage: number;
+  range: number;                   // Reach in meters (melee) or muzzle range hint (ranged)
+  attackRate: number;              // Attacks per second
+  arcDegrees: number;              // Horizontal swing arc for melee hit detection
+  maxTargets: number;              // Max entities a single swing can hit (cleaving weapons > 1)
+  damageType: DamageType;
+  iconReference?: string;
+
+  // Model and attachment
+  modelUri: string;
+  modelScale: number;
+  anchor: string;                  // Model node the weapon attaches to (e.g., 'hand_right_anchor')
+  anchorOffset: Vector3Like;       // Position relative to the anchor
+  anchorRotation: Vector3Like;     // Euler rotation (degrees) relative to the anchor
+
+  // Animations played on the wielder
+  attackAnimations: string[];
+  heldIdleAnimations?: string[];   // Idle animations while the weapon is equipped
+
+  // Sounds
+  attackSoundUri?: string;
+  hitSoundUri?: string;
+
+  // Status effect a melee hit may apply (e.g., burn, bleed; see STATUS_EFFECTS)
+  onHitEffect?: { effectId: string; chance: number };
+
+  // Resources (see /src/combat/weapon-resources.ts); weapons without them attack freely
+  heat?: WeaponHeatConfig;
+  energy?: WeaponEnergyConfig;
+
+  // Ranged weapons only
+  projectileId?: string;           // Projectile in PROJECTILE_TYPES
+  muzzleHeight?: number;           // Height above the wielder's origin shots leave from
+}
@@ -0,0 +1,77 @@
+/**
+ * AI configuration constants for CyberCrawler
+ * Pathfinding over the chunk lattice, waypoint following, perception and the
+ * behavior tree leaves enemies are built from (see ai/ and entities/enemies/enemy-behaviors.ts).
+ *
+ * @author CyberCrawler Team
+ */
+
+export const PATHFINDING_CONFIG = {
+  // Walkability
+  CLEARANCE_BLOCKS: 2,              // Free blocks needed above the ground for a cell to be walkable
+  MAX_STEP_UP: 1,                   // Blocks an enemy can jump up in one step
+  MAX_DROP: 3,                      // Blocks an enemy will drop down in one step
+
+  // Move costs (a straight step costs 1)
+  DIAGONAL_COST: Math.SQRT2,
+  STEP_UP_COST: 1.5,                // Extra cost of jumping up a block
+  DROP_COST_PER_BLOCK: 0.5,         // Extra cost per block dropped
+
+  // Search budget
+  NODE_BUDGET_PER_TICK: 400,        // Nodes expanded per world tick, shared by all searches
+  MAX_NODES_PER_SEARCH: 8000,       // Searches expanding more nodes than this give up (no path)
+  GOAL_TOLERANCE: 1.5,              // Horizontal distance from the goal that counts as arrived
+
+  // Caching
+  PATH_CACHE_TTL_MS: 10000,         // How long found paths are reused
+  NO_PATH_CACHE_TTL_MS: 3000,       // How long "no path" results are reused
+  PATH_CACHE_MAX_ENTRIES: 64,
+};
+
+export const PATH_FOLLOWING_CONFIG = {
+  WAYPOINT_REACHED_DISTANCE: 0.6,   // Horizontal distance at which a waypoint counts as reached
+  REPATH_INTERVAL_MS: 2000,         // Minimum time between path requests while the goal keeps moving
+  REPATH_GOAL_MOVED_DISTANCE: 2,    // Repath when the goal has moved this far from the path's end
+  STUCK_TIMEOUT_MS: 1500,           // No progress toward a waypoint for this long triggers a repath
+  JUMP_VELOCITY: 8,                 // Upward velocity applied to jump up a block
+  JUMP_COOLDOWN_MS: 1000,
+};
+
+export const ENEMY_BEHAVIOR_CONFIG = {
+  BLOCK_ATTACK_COOLDOWN_MS: 1000,   // Time between hits on a block that is in the way
+  DIG_SEARCH_RADIUS: 1,             // Radius searched for building blocks to dig through when no path exists
+  HOUSE_BLOCK_SEARCH_RADIUS: 2,     // Radius searched for house blocks to attack at the house
+  HOUSE_RANGE_BUFFER: 1,            // Extra distance before an enemy attacking the house walks back to it
+  INVESTIGATE_REACHED_DISTANCE: 1.5, // Distance from a last known position at which investigating enemies give up
+  FLEE_DISTANCE: 12,                // Default distance fleeing enemies keep from their target
+  WANDER_RADIUS: 6,                 // Default distance of wander points from the enemy
+  WANDER_TIMEOUT_MS: 5000,          // Give up on a wander point that was not reached in time
+};
+
+export const PERCEPTION_CONFIG = {
+  UPDATE_INTERVAL_MS: 200,          // How often sight, hearing and memory are updated
+
+  // Sight (defaults; archetypes can override them in their definition's perception)
+  SIGHT_RANGE: 20,
+  VIEW_ANGLE_DEGREES: 120,          // Full width of the view cone
+  PROXIMITY_RANGE: 2.5,             // Hostiles this close are noticed outside the view cone (still needs line of sight)
+  EYE_HEIGHT: 0.5,                  // Height above the entity's position that sight rays start from
+
+  // Hearing: noises are heard within their radius (times the listener's hearing multiplier)
+  NOISE_RADIUS: {
+    SPRINT: 8,
+    MELEE_SWING: 10,
+    GUNSHOT: 25,
+    COMBAT_HIT: 12,
+  },
+
+  // Memory and alerts
+  MEMORY_DURATION_MS: 10000,        // A target not sensed for this long is forgotten
+  ALERT_DURATION_MS: 8000,          // Alerted enemies calm down to suspicious after this long without seeing a target
+  ALERT_SPREAD_RADIUS: 12,          // Allies within this radius are alerted when an enemy spots a target
+
+  // Threat fed into the enemy's threat table (see THREAT_CONFIG)
+  ALERT_THREAT: 12,                 // On spotting a target or being alerted to it (above the house objective)
+  SIGHT_THREAT_PER_SECOND: 4,       // While the target stays in sight
+  HEARING_THREAT: 3,                // Per noise heard
+};
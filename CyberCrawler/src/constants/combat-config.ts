@@ -6,14 +6,176 @@
  */
 
 export const MELEE_ATTACK_RANGE = 2.0; // Max distance of melee attack raycast in meters
-export const MELEE_ATTACK_RADIUS = 0.8; // Radius for hit detection (not used in raycast, but for future spherecast)
+export const MELEE_ATTACK_RADIUS = 0.8; // Body radius slack for melee arc detection; targets this close are hit at any angle
+export const MELEE_ATTACK_ARC_DEGREES = 90; // Horizontal arc of unarmed melee swings
+export const UNARMED_MAX_TARGETS = 1; // Max targets an unarmed swing can hit
+export const MELEE_BLOCK_RAY_SPACING_DEGREES = 15; // Angle between the rays that find blocks inside a melee arc
 export const MELEE_ATTACK_DAMAGE = 15; // Damage dealt per melee hit
 export const MELEE_ATTACK_COOLDOWN_MS = 500; // Cooldown between melee attacks in milliseconds
 export const DAMAGE_DISPLAY_DURATION_MS = 300; // Duration to display damage feedback (e.g., tint) in ms
 export const HIT_EFFECT_DURATION_MS = 200; // Duration of hit visual effect in ms
+export const CRITICAL_HIT_CHANCE = 0.1; // Chance (0-1) that a melee hit is critical
+export const CRITICAL_HIT_MULTIPLIER = 1.5; // Damage multiplier applied to critical hits
 
-export const COMBAT_CONFIG = {
-  CYBER_BLADE_DAMAGE: 15,
-  CYBER_BLADE_RANGE: 2.0,
-  CYBER_BLADE_ATTACK_RATE: 2, // attacks per second
+/**
+ * Momentum-based melee damage scaling (see COMBAT_SYSTEM_DESIGN.md, "Momentum and Impact System").
+ * Used by calculateMomentumMultiplier in physics/physicsSystem.ts.
+ */
+export const MOMENTUM_CONFIG = {
+  VELOCITY_SCALE: 10,               // Horizontal speed (m/s) that adds +100% damage
+  MAX_MOMENTUM_MULTIPLIER: 2.0,     // Cap on the speed bonus
+  MIN_ANGLE_MULTIPLIER: 0.5,        // Floor for attacks swung away from the direction of travel
+  MIN_SPEED_FOR_ANGLE: 1.0,         // Below this speed the approach angle is ignored
+  FALLING_VELOCITY_THRESHOLD: 4.0,  // Downward speed (m/s) before a strike counts as a falling strike
+  FALLING_VELOCITY_SCALE: 20,       // Downward speed (m/s) that adds +100% damage
+  MAX_FALLING_MULTIPLIER: 1.5,      // Cap on the falling strike bonus
+};
+
+/**
+ * Knockback applied by hits. The knockback speed is multiplied by the target's
+ * mass to produce the impulse (see calculateKnockback in combat/combatSystem.ts).
+ */
+export const KNOCKBACK_CONFIG = {
+  BASE_SPEED: 2.0,          // Knockback speed (m/s) every melee hit applies
+  SPEED_PER_DAMAGE: 0.1,    // Extra knockback speed per point of damage dealt
+  MAX_SPEED: 12.0,          // Cap on knockback speed
+  UPWARD_BIAS: 0.3,         // Slight upward component so targets lift off the ground
+  HIT_RECOVERY_MS: 350,     // Time an enemy's AI pauses after a hit so knockback is not overridden
+};
+
+/**
+ * Poise and stagger. Damage drains poise; when it hits zero the entity is staggered
+ * (the 'staggered' status effect) and poise refills after a grace period.
+ */
+export const POISE_CONFIG = {
+  PLAYER_MAX_POISE: 60,             // Player poise pool
+  DEFAULT_MAX_POISE: 30,            // Poise pool for damageable entities that define none
+  POISE_DAMAGE_PER_DAMAGE: 1.0,     // Poise lost per point of damage
+  HEAVY_HIT_POISE_MULTIPLIER: 1.5,  // Extra poise damage for critical and explosive hits
+  REGEN_PER_SECOND: 15,             // Poise regenerated per second once out of combat
+  REGEN_DELAY_MS: 1500,             // Time after the last hit before poise regenerates
+  STAGGER_IMMUNITY_MS: 2500,        // Time after a stagger ends during which poise cannot break again
+  STAGGER_ANIMATION: 'hit',         // One-shot animation played when staggered
+};
+
+/**
+ * Explosions (see combat/explosions.ts). Damage and knockback fall off linearly
+ * from the center to the edge of the radius.
+ */
+export const EXPLOSION_CONFIG = {
+  MIN_FALLOFF: 0.2,                 // Fraction of full power applied at the very edge of the radius
+  OCCLUDED_DAMAGE_MULTIPLIER: 0,    // Damage multiplier for entities behind solid blocks
+  KNOCKBACK_SPEED_PER_POWER: 0.25,  // Knockback speed (m/s) per point of explosion power at the center
+  BLOCK_DAMAGE_MULTIPLIER: 1.0,     // Block damage per point of explosion power at the center
+  SOUND_URI: 'audio/sfx/damage/explode.mp3',
+  SOUND_VOLUME: 0.8,
+  SOUND_REFERENCE_DISTANCE: 15,
+};
+
+/**
+ * Combo chains (see COMBAT_SYSTEM_DESIGN.md, "Chain Impacts" and "Volleying").
+ * Hits on the same target in quick succession build a chain; every hit in the
+ * chain raises the damage multiplier of the next one. Chains shared by several
+ * players, and hits that pass the chain from one player to another, grow faster.
+ */
+export const COMBO_CONFIG = {
+  DECAY_MS: 2000,                     // Chain resets when no hit lands within this window
+  BONUS_PER_HIT: 0.05,                // Damage bonus added by each hit in the chain
+  VOLLEY_BONUS_PER_HIT: 0.1,          // Bonus for a hit from a different player than the previous hit
+  COOP_BONUS_PER_EXTRA_PLAYER: 0.15,  // Bonus per additional player contributing to the chain
+  MAX_MULTIPLIER: 2.0,                // Cap on the chain damage multiplier
+  MAX_HISTORY: 20,                    // Hits remembered per target
+};
+
+/**
+ * Positional bonuses (see COMBAT_SYSTEM_DESIGN.md, "Positional Role System").
+ * Attack bonuses apply to hits by players; defensive bonuses reduce damage taken by players.
+ * Angles are measured between the target's facing and the direction to the attacker.
+ */
+export const POSITIONAL_CONFIG = {
+  FLANK_MIN_ANGLE_DEGREES: 60,        // Attacks from beyond this angle count as flanking
+  FLANK_DAMAGE_BONUS: 0.15,
+  BACKSTAB_MIN_ANGLE_DEGREES: 135,    // Attacks from beyond this angle count as from behind (replaces flanking)
+  BACKSTAB_DAMAGE_BONUS: 0.35,
+  ELEVATION_MIN_HEIGHT: 2.0,          // Height (m) above the target for the elevation bonus
+  ELEVATION_RANGED_BONUS: 0.2,        // Extra ranged damage from higher ground
+  REAR_SUPPORT_ALLY_RADIUS: 4.0,      // An ally this close to the target, and closer than the shooter, gives rear support
+  REAR_SUPPORT_RANGED_BONUS: 0.1,
+  FRONT_LINE_ENEMY_RADIUS: 4.0,       // Enemies within this radius put a player on the front line
+  FRONT_LINE_DAMAGE_REDUCTION: 0.1,
+  SHOULDER_ALLY_RADIUS: 3.0,          // Allies within this radius stand shoulder to shoulder
+  SHOULDER_REDUCTION_PER_ALLY: 0.075,
+  SHOULDER_MAX_ALLIES: 2,
+  MAX_DAMAGE_REDUCTION: 0.3,          // Cap on combined defensive bonuses
+  STANCE_UPDATE_INTERVAL_MS: 500,     // How often players' defensive bonuses are re-evaluated for the HUD
+};
+
+/**
+ * Armor and resistances (see combat/armor-registry.ts and player/player-armor.ts).
+ * Resistances of worn armor pieces add up per damage type before clamping.
+ */
+export const ARMOR_CONFIG = {
+  MAX_RESISTANCE: 0.75,                   // Cap on the fraction of damage any target can absorb
+  MIN_RESISTANCE: -1.0,                   // Floor for weaknesses (-1 = double damage)
+  DURABILITY_LOSS_PER_HIT: 1,             // Durability every contributing armor piece loses per hit
+  DURABILITY_LOSS_PER_DAMAGE_ABSORBED: 0.5, // Extra durability lost per point of damage absorbed
+};
+
+/**
+ * Floating damage numbers (see ui/damage-numbers.ts). Numbers are SceneUIs drawn
+ * from a fixed pool; when every one is in use the oldest is recycled.
+ */
+export const DAMAGE_NUMBER_CONFIG = {
+  POOL_SIZE: 24,            // SceneUIs kept loaded for damage numbers
+  DISPLAY_MS: 900,          // How long a number is shown before returning to the pool
+  HEIGHT_OFFSET: 1.2,       // Height above the target's origin when no hit point is known
+  JITTER: 0.35,             // Random horizontal spread so simultaneous numbers do not overlap
+  VIEW_DISTANCE: 30,
+};
+
+/**
+ * Per-player combat log (see ui/combat-log.ts).
+ */
+export const COMBAT_LOG_CONFIG = {
+  MAX_ENTRIES: 50,          // Entries kept per player (server history and the scrollable panel)
+  LOG_PERIODIC_DAMAGE: false, // Whether damage-over-time ticks get their own entries
+};
+
+/**
+ * Threat (aggro) tables used by enemy AI to pick a target (see combat/threat-manager.ts).
+ * The house is a constant-threat objective; players and deployables overtake it
+ * by dealing damage, healing allies, taunting or standing close.
+ */
+export const THREAT_CONFIG = {
+  DAMAGE_MULTIPLIER: 1.0,             // Threat per point of damage dealt to the enemy
+  HEALING_MULTIPLIER: 0.5,            // Threat per point of healing done near the enemy
+  HEALING_RADIUS: 15.0,               // Enemies within this radius of the healed entity notice the healer
+  PROXIMITY_RADIUS: 10.0,             // Hostiles within this radius build threat just by being close
+  PROXIMITY_THREAT_PER_SECOND: 5.0,   // At point-blank range; falls off linearly to 0 at the radius
+  TAUNT_RADIUS: 12.0,
+  TAUNT_THREAT: 50.0,                 // Taunters get this much more than the enemy's current top threat
+  TAUNT_COOLDOWN_MS: 8000,
+  DECAY_PER_SECOND: 0.1,              // Fraction of threat lost per second
+  MIN_THREAT: 0.5,                    // Entries below this are dropped
+  HOUSE_THREAT: 10.0,                 // Constant threat of the player house objective
+  TARGET_SWITCH_MARGIN: 1.1,          // A new target needs 10% more threat than the current one
+  UPDATE_INTERVAL_MS: 250,            // How often decay and proximity threat are applied
+};
+
+/**
+ * Weapon heat and energy (see combat/weapon-resources.ts). Per-weapon values
+ * live on the weapon definitions in combat/weapon-registry.ts.
+ */
+export const WEAPON_RESOURCE_CONFIG = {
+  ENERGY_CELL_ITEM_ID: 'energy_cell', // Inventory item consumed when reloading energy
+  HUD_UPDATE_INTERVAL_MS: 100,        // How often cooling is pushed to the weapon HUD
+};
+
+/**
+ * Shield blocking and parrying (see combat/block-manager.ts). Per-shield values
+ * live on the shield definitions in combat/shield-registry.ts.
+ */
+export const BLOCK_CONFIG = {
+  RAISE_COOLDOWN_MS: 500,             // Time after lowering before the shield can be raised again (stops parry spamming)
+  HUD_UPDATE_INTERVAL_MS: 100,        // How often shield energy is pushed to the HUD while it changes
 };
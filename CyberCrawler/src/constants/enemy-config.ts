@@ -1,13 +1,24 @@
 /**
  * Enemy configuration constants for CyberCrawler
- * Defines base stats and AI parameters for basic enemy types.
+ * Shared settings for all enemies. Per-archetype stats (health, damage, speed,
+ * resistances, ...) live in the enemy registry (see entities/enemies/enemy-definitions.json).
  * 
  * @author Cline
  */
 
-export const BASIC_ENEMY_HEALTH = 50; // Starting health for basic enemy
-export const BASIC_ENEMY_DAMAGE = 10; // Damage dealt to player per attack
-export const BASIC_ENEMY_SPEED = 2.5; // Movement speed in units per second
-export const BASIC_ENEMY_DETECTION_RANGE = 10; // Distance to detect player
-export const BASIC_ENEMY_ATTACK_RANGE = 3.0; // Distance to attack player/house blocks (Increased from 1.5)
-export const BASIC_ENEMY_ATTACK_COOLDOWN_MS = 1000; // Time between attacks in ms
+export const ENEMY_CONFIG = {
+  DEFAULT_ARCHETYPE_ID: 'spider',   // Archetype spawned when none is given
+  GROUND_SENSOR_HALF_HEIGHT: 0.08,  // Sensor below the main collider that tracks grounded state
+  HURT_TINT_MS: 200,                // How long an enemy flashes red when hit
+  DESPAWN_DELAY_MS: 1000,           // Time between death and despawn (death animation)
+  SOUND_VOLUME: 0.6,
+  SOUND_REFERENCE_DISTANCE: 8,
+};
+
+export const ENEMY_MELEE_CONFIG = {
+  DEFAULT_WIND_UP_MS: 500,          // Telegraph before a swing lands, for archetypes without stats.windUpMs
+  ARC_DEGREES: 100,                 // Width of the swing, fixed in the direction the enemy faced when winding up
+  MAX_TARGETS: 1,
+  TELEGRAPH_TINT: { r: 255, g: 170, b: 0 },  // Enemies glow orange while winding up
+  INTERRUPT_GAP_MS: 150,            // A wind-up the AI stopped ticking for this long (stun, knockback) is cancelled
+};
@@ -0,0 +1,49 @@
+/**
+ * Faction configuration for CyberCrawler
+ * Defines the factions, their relationship matrix, the PvP and friendly-fire
+ * defaults, and the areas that override them (see combat/faction-manager.ts).
+ *
+ * @author CyberCrawler Team
+ */
+
+import { FactionAreaOverride, FactionRelation } from '../combat/faction-types';
+import { WORLD_AREAS, WORLD_ORIGIN } from './world-config';
+
+export const FACTIONS = {
+  PLAYERS: 'players',
+  ENEMIES: 'enemies',
+  NEUTRAL: 'neutral',
+};
+
+/**
+ * Relation between two factions, looked up in both orders.
+ * Pairs not listed are NEUTRAL; members of the same faction are FRIENDLY.
+ * Players are a special case: player vs player follows the PvP and team rules.
+ */
+export const FACTION_RELATIONS: { [faction: string]: { [other: string]: FactionRelation } } = {
+  [FACTIONS.PLAYERS]: {
+    [FACTIONS.ENEMIES]: FactionRelation.HOSTILE,
+    [FACTIONS.NEUTRAL]: FactionRelation.NEUTRAL,
+  },
+  [FACTIONS.ENEMIES]: {
+    [FACTIONS.NEUTRAL]: FactionRelation.NEUTRAL,
+  },
+};
+
+export const FACTION_CONFIG = {
+  PVP_ENABLED_BY_DEFAULT: false,  // Server-wide PvP toggle (players on different teams become hostile)
+  FRIENDLY_FIRE: false,           // Whether FRIENDLY entities can damage each other
+};
+
+const village = WORLD_AREAS.VILLAGE_CENTER;
+
+export const FACTION_AREA_OVERRIDES: FactionAreaOverride[] = [
+  {
+    id: 'safe_village',
+    name: village.name,
+    min: { x: WORLD_ORIGIN.X + village.startX, z: WORLD_ORIGIN.Z + village.startZ },
+    max: { x: WORLD_ORIGIN.X + village.startX + village.width, z: WORLD_ORIGIN.Z + village.startZ + village.depth },
+    pvp: false,
+    protectPlayers: true,
+  },
+];
@@ -0,0 +1,35 @@
+/**
+ * Input configuration for CyberCrawler
+ * Default key bindings for named input actions (see player/input-actions.ts).
+ * Keys are HYTOPIA PlayerInput keys ('ml' = left mouse, 'mr' = right mouse).
+ *
+ * @author CyberCrawler Team
+ */
+
+export const DEFAULT_INPUT_BINDINGS: { [action: string]: string } = {
+  'attack': 'ml',
+  'dash': 'mr',
+  'interact': 'e',
+  'use-item': 'q',
+  'use-consumable': 'x',
+  'taunt': 'f',
+  'reload': 'r',
+  'block': 'z',
+  'toggle-inventory': 'v',
+  'toggle-debug': 'c',
+  'hotbar-1': '1',
+  'hotbar-2': '2',
+  'hotbar-3': '3',
+  'hotbar-4': '4',
+  'hotbar-5': '5',
+  'hotbar-6': '6',
+  'hotbar-7': '7',
+  'hotbar-8': '8',
+  'hotbar-9': '9',
+};
+
+// Keys actions may be bound to. Movement keys (w, a, s, d, sp, sh) stay with the movement controller.
+export const BINDABLE_KEYS = [
+  'ml', 'mr', 'q', 'e', 'r', 'f', 'z', 'x', 'c', 'v',
+  '1', '2', '3', '4', '5', '6', '7', '8', '9',
+];
@@ -0,0 +1,19 @@
+/**
+ * Network configuration for CyberCrawler
+ * Latency measurement and lag compensation for server-authoritative hit detection
+ * (see networking/latency-tracker.ts and networking/lag-compensation.ts).
+ *
+ * @author CyberCrawler Team
+ */
+
+export const LATENCY_CONFIG = {
+  PING_INTERVAL_MS: 2000,           // How often each player's UI is pinged
+  PING_TIMEOUT_MS: 5000,            // Unanswered pings older than this are dropped
+  SMOOTHING: 0.25,                  // Weight of a new sample in the smoothed latency (0..1)
+};
+
+export const LAG_COMPENSATION_CONFIG = {
+  HISTORY_MS: 1000,                 // How much transform history is kept per entity
+  MAX_REWIND_MS: 300,               // Attacks needing more rewind than this are rejected
+  CLIENT_INTERPOLATION_MS: 50,      // How far behind the server clients render other entities
+};
@@ -0,0 +1,97 @@
+/**
+ * Projectile and ranged weapon configuration for CyberCrawler
+ * Defines projectile behaviours and the throwables that launch them.
+ * Ranged weapons reference projectiles by ID (see combat/weapon-registry.ts).
+ *
+ * @author CyberCrawler Team
+ */
+
+import { DamageType } from '../combat/damage-types';
+import { ProjectileDefinition, ProjectileKind } from '../entities/projectiles/projectile-types';
+
+export const PROJECTILE_TYPES: { [id: string]: ProjectileDefinition } = {
+  // Fast energy bolt that bounces once off walls
+  energy_bolt: {
+    id: 'energy_bolt',
+    kind: ProjectileKind.PHYSICAL,
+    damageType: DamageType.ENERGY,
+    modelUri: 'models/projectiles/laser-bullet-green-small.gltf',
+    modelScale: 1,
+    speed: 35,
+    gravityScale: 0,
+    range: 40,
+    maxLifetimeMs: 2000,
+    maxRicochets: 1,
+    ricochetSpeedRetention: 0.8,
+    pierceCount: 0,
+    blockDamageMultiplier: 0.5,
+    knockbackSpeed: 1.5,
+  },
+  // Heavy gravity-affected slug that punches through several enemies
+  scrap_slug: {
+    id: 'scrap_slug',
+    kind: ProjectileKind.PHYSICAL,
+    damageType: DamageType.KINETIC,
+    modelUri: 'models/projectiles/energy-orb-projectile.gltf',
+    modelScale: 0.4,
+    speed: 25,
+    gravityScale: 1,
+    range: 60,
+    maxLifetimeMs: 4000,
+    maxRicochets: 0,
+    ricochetSpeedRetention: 0,
+    pierceCount: 2,
+    blockDamageMultiplier: 1,
+    knockbackSpeed: 4,
+  },
+  // Instant-hit energy beam
+  energy_beam: {
+    id: 'energy_beam',
+    kind: ProjectileKind.BEAM,
+    damageType: DamageType.ENERGY,
+    modelUri: 'models/projectiles/laser-bullet-green.gltf',
+    modelScale: 0.5,
+    speed: 0,
+    gravityScale: 0,
+    range: 25,
+    maxLifetimeMs: 150,               // How long the impact flash stays visible
+    maxRicochets: 0,
+    ricochetSpeedRetention: 0,
+    pierceCount: 3,
+    blockDamageMultiplier: 0.25,
+    knockbackSpeed: 0.5,
+  },
+  // Thrown EMP grenade: bounces, then stuns everything nearby when the fuse runs out
+  emp_grenade_shell: {
+    id: 'emp_grenade_shell',
+    kind: ProjectileKind.PHYSICAL,
+    damageType: DamageType.ENERGY,
+    modelUri: 'models/projectiles/energy-orb-projectile.gltf',
+    modelScale: 0.5,
+    speed: 14,
+    gravityScale: 1,
+    range: 40,
+    maxLifetimeMs: 2000,              // Fuse time
+    maxRicochets: 3,
+    ricochetSpeedRetention: 0.4,
+    pierceCount: 0,
+    blockDamageMultiplier: 0,
+    knockbackSpeed: 0,
+    explosion: { radius: 5, power: 0, isEmp: true },
+  },
+};
+
+/**
+ * Throwable items keyed by inventory item ID. One item is consumed per throw.
+ */
+export const THROWABLES: {
+  [itemId: string]: { projectileId: string; throwCooldownMs: number; upwardAim: number };
+} = {
+  emp_grenade: {
+    projectileId: 'emp_grenade_shell',
+    throwCooldownMs: 800,
+    upwardAim: 0.25,                  // Added to the aim direction's Y so throws arc
+  },
+};
+
+export const PROJECTILE_RAYCAST_MAX_STEPS = 8; // Max raycasts per tick when passing through pierced entities
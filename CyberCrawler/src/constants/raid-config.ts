@@ -0,0 +1,43 @@
+/**
+ * Raid configuration constants for CyberCrawler
+ * Timing, wave size and composition of the enemy raids on the player house, where
+ * raiders come from and when the raid is won or lost (see world/raid-director.ts).
+ *
+ * @author CyberCrawler Team
+ */
+
+export const RAID_CONFIG = {
+  // Phases
+  TOTAL_WAVES: 10,                  // Surviving the last wave wins the raid
+  FIRST_BUILD_PHASE_MS: 90000,      // Time to prepare before the first wave
+  BUILD_PHASE_MS: 45000,            // Time to repair and build between waves
+  WAVE_TIME_LIMIT_MS: 180000,       // Raiders still alive after this retreat and the wave counts as survived
+  HUD_UPDATE_INTERVAL_MS: 1000,     // Also how often the house's block health is checked
+
+  // Wave size: (BASE_ENEMIES + ENEMIES_PER_WAVE * (wave - 1)) * (1 + ENEMIES_PER_EXTRA_PLAYER * (players - 1))
+  BASE_ENEMIES: 3,
+  ENEMIES_PER_WAVE: 2,
+  ENEMIES_PER_EXTRA_PLAYER: 0.5,    // +50% raiders for every player after the first
+  MAX_ENEMIES_ALIVE: 30,            // Raiders beyond this wait for others to die before spawning
+  SPAWN_INTERVAL_MS: 3000,          // Raiders arrive in groups rather than all at once
+  SPAWN_GROUP_SIZE: 4,
+
+  // Composition: an archetype joins once the raid's difficulty reaches fromWave, and gets
+  // weightPerWave more weight for every level of difficulty after that. Difficulty is the
+  // wave number plus EXTRA_PLAYER_DIFFICULTY for every player after the first.
+  EXTRA_PLAYER_DIFFICULTY: 0.5,
+  COMPOSITION: [
+    { archetypeId: 'spider', fromWave: 1, weight: 3, weightPerWave: 0 },
+    { archetypeId: 'stalker', fromWave: 3, weight: 0.5, weightPerWave: 0.4 },
+  ],
+
+  // Spawn points, evenly spaced along the edge of the map
+  SPAWN_POINT_COUNT: 32,
+  SPAWN_EDGE_INSET: 10,             // Blocks between the spawn points and the edge of the map
+  MAX_SPAWN_DISTANCE: 260,          // Spawn points further than this from the house are not used
+  SPAWN_POINTS_PER_WAVE: 3,         // Each wave comes from a few random spawn points
+  SPAWN_SCATTER: 3,                 // Raiders spawn up to this many blocks from their spawn point
+
+  // Losing
+  LOSE_HOUSE_HEALTH_FRACTION: 0.5,  // The raid is lost when the house is down to this much of its block health
+};
@@ -0,0 +1,89 @@
+/**
+ * Status effect configuration for CyberCrawler
+ * Defines every timed effect that can be attached to players or enemies, and
+ * what using each consumable item does. Consumable buffs and healing mirror the
+ * effect descriptions in recipe-database.ts; burn and bleed come from weapon hits
+ * (see onHitEffect in weapon-registry.ts).
+ *
+ * @author CyberCrawler Team
+ */
+
+import { DamageType } from '../combat/damage-types';
+import { StatusEffectDefinition, StatusEffectStacking } from '../combat/status-effect-types';
+
+export const STATUS_EFFECTS: { [id: string]: StatusEffectDefinition } = {
+  // --- Debuffs ---
+  burn: {
+    id: 'burn',
+    name: 'Burning',
+    isDebuff: true,
+    durationMs: 4000,
+    stacking: StatusEffectStacking.STACK,
+    maxStacks: 3,
+    tickIntervalMs: 1000,
+    tickDamage: 3,
+    tickDamageType: DamageType.ENERGY,
+  },
+  bleed: {
+    id: 'bleed',
+    name: 'Bleeding',
+    isDebuff: true,
+    durationMs: 6000,
+    stacking: StatusEffectStacking.STACK,
+    maxStacks: 5,
+    tickIntervalMs: 1000,
+    tickDamage: 2,
+    tickDamageType: DamageType.KINETIC,
+  },
+  emp_stun: {
+    id: 'emp_stun',
+    name: 'EMP Stunned',
+    isDebuff: true,
+    durationMs: 3000,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { stunned: true },
+  },
+  staggered: {
+    id: 'staggered',
+    name: 'Staggered',
+    isDebuff: true,
+    durationMs: 1500,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { stunned: true, damageTakenMultiplier: 1.25 },
+  },
+
+  // --- Buffs (consumables) ---
+  combat_stim: {
+    id: 'combat_stim',
+    name: 'Combat Stim',
+    iconReference: 'icons/items/neural_focus.png',
+    isDebuff: false,
+    durationMs: 30000,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { damageDealtMultiplier: 1.15 },
+  },
+  reflex_enhancer: {
+    id: 'reflex_enhancer',
+    name: 'Reflex Enhancer',
+    iconReference: 'icons/items/reflex_booster.png',
+    isDebuff: false,
+    durationMs: 30000,
+    stacking: StatusEffectStacking.REFRESH,
+    maxStacks: 1,
+    modifiers: { speedMultiplier: 1.2 },
+  },
+};
+
+/**
+ * Consumable items players can use (see player/player-consumables.ts), keyed by item ID.
+ * Healing restores health instantly; effectId applies a status effect from STATUS_EFFECTS.
+ */
+export const CONSUMABLE_ITEMS: { [itemId: string]: { healing?: number; effectId?: string } } = {
+  nano_injector: { healing: 25 },
+  mutated_healing_potion: { healing: 15 },
+  reflex_enhancer: { effectId: 'reflex_enhancer' },
+  combat_stim: { effectId: 'combat_stim' },
+};
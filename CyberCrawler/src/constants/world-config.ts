@@ -118,5 +118,18 @@ export const PLAYER_CONFIG = {
     X: 150,
     Y: WORLD_HEIGHT.BASE + 3, // Y is adjusted by setupPlayer using findGroundHeight
     Z: 31
-  }
+  },
+  // Players allowed to use admin and testing commands (/raid and /pvp control, /latency <ms>, /spawn)
+  ADMIN_USERNAMES: [] as string[],
+};
+
+/**
+ * Player death and respawn settings
+ */
+export const PLAYER_DEATH_CONFIG = {
+  RESPAWN_DELAY_MS: 5000,          // Time spent on the death screen before respawning
+  RESPAWN_AT_HOUSE: true,          // Respawn at the player house door instead of SPAWN_POSITION
+  HOUSE_RESPAWN_OFFSET_Z: 2,       // Blocks in front of the door to respawn (keeps players out of the wall)
+  INVENTORY_DROP_FRACTION: 0.25,   // Fraction of each inventory stack lost on death (0 disables the penalty)
+  PROTECTED_ITEM_IDS: [] as string[], // Item IDs never lost on death
 };
@@ -210,6 +210,121 @@ function initializeRecipeDatabase(): void {
         iconReference: 'icons/items/emp_grenade.png',
       },
     },
+    // Armor (stats in combat/armor-registry.ts)
+    {
+      id: 'craft_scrap_helmet',
+      name: 'Craft Scrap Helmet',
+      description: 'Hammer scrap plating into a crude helmet.',
+      category: RecipeCategory.Armor,
+      difficulty: Difficulty.Easy,
+      craftingTime: 6,
+      materials: [
+        createMaterialFromResource('scrap_metal', 3),
+      ],
+      result: {
+        id: 'scrap_helmet',
+        name: 'Scrap Helmet',
+        quantity: 1,
+        effectDescription: '+10% kinetic and explosive resistance.',
+        iconReference: 'icons/items/scrap_helmet.png',
+      },
+    },
+    {
+      id: 'craft_bio_filter_mask',
+      name: 'Craft Bio-Filter Mask',
+      description: 'Filter mask lined with processed plant fibers.',
+      category: RecipeCategory.Armor,
+      difficulty: Difficulty.Easy,
+      craftingTime: 6,
+      materials: [
+        createMaterialFromResource('mutated_plants', 3),
+        createMaterialFromResource('scrap_metal', 1),
+      ],
+      result: {
+        id: 'bio_filter_mask',
+        name: 'Bio-Filter Mask',
+        quantity: 1,
+        effectDescription: '+35% bio resistance.',
+        iconReference: 'icons/items/bio_filter_mask.png',
+      },
+    },
+    {
+      id: 'craft_scrap_chestplate',
+      name: 'Craft Scrap Chestplate',
+      description: 'Layered scrap plates strapped into a chestpiece.',
+      category: RecipeCategory.Armor,
+      difficulty: Difficulty.Moderate,
+      craftingTime: 10,
+      materials: [
+        createMaterialFromResource('scrap_metal', 6),
+        createMaterialFromResource('tech_components', 1),
+      ],
+      result: {
+        id: 'scrap_chestplate',
+        name: 'Scrap Chestplate',
+        quantity: 1,
+        effectDescription: '+20% kinetic and +15% explosive resistance.',
+        iconReference: 'icons/items/scrap_chestplate.png',
+      },
+    },
+    {
+      id: 'craft_insulated_coat',
+      name: 'Craft Insulated Coat',
+      description: 'Coat woven with insulating fibers against energy weapons.',
+      category: RecipeCategory.Armor,
+      difficulty: Difficulty.Moderate,
+      craftingTime: 10,
+      materials: [
+        createMaterialFromResource('mutated_plants', 4),
+        createMaterialFromResource('tech_components', 2),
+      ],
+      result: {
+        id: 'insulated_coat',
+        name: 'Insulated Coat',
+        quantity: 1,
+        effectDescription: '+25% energy and +5% kinetic resistance.',
+        iconReference: 'icons/items/insulated_coat.png',
+      },
+    },
+    {
+      id: 'craft_reinforced_pants',
+      name: 'Craft Reinforced Pants',
+      description: 'Trousers reinforced with scrap metal plates.',
+      category: RecipeCategory.Armor,
+      difficulty: Difficulty.Easy,
+      craftingTime: 8,
+      materials: [
+        createMaterialFromResource('scrap_metal', 4),
+        createMaterialFromResource('mutated_plants', 1),
+      ],
+      result: {
+        id: 'reinforced_pants',
+        name: 'Reinforced Pants',
+        quantity: 1,
+        effectDescription: '+10% kinetic and +5% explosive resistance.',
+        iconReference: 'icons/items/reinforced_pants.png',
+      },
+    },
+    {
+      id: 'craft_grounding_boots',
+      name: 'Craft Grounding Boots',
+      description: 'Boots with grounding wires that bleed off energy hits.',
+      category: RecipeCategory.Armor,
+      difficulty: Difficulty.Moderate,
+      craftingTime: 8,
+      materials: [
+        createMaterialFromResource('scrap_metal', 2),
+        createMaterialFromResource('tech_components', 1),
+        createMaterialFromResource('rare_metals', 1),
+      ],
+      result: {
+        id: 'grounding_boots',
+        name: 'Grounding Boots',
+        quantity: 1,
+        effectDescription: '+10% energy and +5% kinetic resistance.',
+        iconReference: 'icons/items/grounding_boots.png',
+      },
+    },
     // Utility & Tools
     {
       id: 'craft_hacking_module',
@@ -252,7 +367,7 @@ function initializeRecipeDatabase(): void {
     {
       id: 'craft_energy_shield',
       name: 'Craft Energy Shield',
-      description: 'Construct a deployable personal energy barrier.',
+      description: 'Construct a personal energy barrier for blocking attacks.',
       category: RecipeCategory.Utility,
       difficulty: Difficulty.Complex,
       craftingTime: 18,
@@ -265,8 +380,7 @@ function initializeRecipeDatabase(): void {
         id: 'energy_shield',
         name: 'Energy Shield',
         quantity: 1,
-        duration: 10,
-        effectDescription: 'Absorbs damage for 10 seconds.',
+        effectDescription: 'Raise to absorb frontal attacks; raise just before a hit to parry it.',
         iconReference: 'icons/items/portable_shield.png',
       },
     },
@@ -0,0 +1,407 @@
+/**
+ * Enemy Behaviors - Behavior tree leaves for enemies
+ *
+ * Registers the conditions and actions enemy behavior trees are composed from
+ * (see behaviorTree in enemy-definitions.json and /src/ai/behavior-tree). Leaves
+ * read and write the enemy's blackboard:
+ * - 'target': the entity picked by has_threat_target
+ * - 'navigator': the enemy's PathFollower
+ * - 'pathBlocked': set by move_to when no walkable path exists (enables digging)
+ * - 'digBlock': the block picked by can_dig
+ * - 'windUp': the melee swing started by attack_target (see enemy-melee.ts)
+ *
+ * Conditions: in_hit_recovery, is_stunned, has_threat_target, aware_of_target,
+ * target_visible, is_alerted, target_in_range, health_below, can_dig, near_house.
+ * Actions: idle, stop, move_to, move_direct, investigate, attack_target, continue_attack,
+ * attack_house, dig_block, flee, wander.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (Entity, SimpleEntityController, Vector3Like)
+ * - Behavior tree nodes and the leaf registry from ../../ai/behavior-tree
+ * - PathFollower from ../../ai/pathfinding/path-follower
+ * - PerceptionManager from ../../ai/perception/perception-manager
+ * - Combat managers (status effects, poise, threat)
+ * - Telegraphed melee attacks from ./enemy-melee
+ * - House helpers from ../../utils/house-utils
+ * - ENEMY_BEHAVIOR_CONFIG from ../../constants/ai-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, SimpleEntityController, Vector3Like } from 'hytopia';
+
+// Project modules
+import EnemyEntity from './enemy-entity';
+import { MeleeWindUp, startMeleeWindUp, updateMeleeWindUp } from './enemy-melee';
+import { Action, BehaviorContext, Condition, NodeStatus } from '../../ai/behavior-tree/behavior-tree';
+import { registerBehaviorLeaf } from '../../ai/behavior-tree/tree-builder';
+import { NavigationStatus, PathFollower } from '../../ai/pathfinding/path-follower';
+import { AlertState, PerceptionManager } from '../../ai/perception/perception-manager';
+import { StatusEffectManager } from '../../combat/status-effect-manager';
+import { PoiseManager } from '../../combat/poise-manager';
+import { ThreatManager, ThreatTargetKind } from '../../combat/threat-manager';
+import { BlockHealthManager } from '../../world/block-health-manager';
+import { findNearestDestructibleBlock, getPlayerHouseLayout } from '../../utils/house-utils';
+import { BLOCK_CATEGORIES, BLOCK_TYPES } from '../../constants/block-types';
+import { ENEMY_BEHAVIOR_CONFIG } from '../../constants/ai-config';
+
+type EnemyContext = BehaviorContext<EnemyEntity>;
+
+// Building blocks enemies dig through when no path exists (walls and floors are left alone)
+const DIGGABLE_BLOCK_TYPES = new Set(BLOCK_CATEGORIES.BUILDING);
+const UNDIGGABLE_BLOCK_TYPES = new Set([BLOCK_TYPES.STONE_BRICK, BLOCK_TYPES.WOOD_PLANKS]);
+
+// ====================================
+// Conditions
+// ====================================
+
+// Let knockback play out before the AI takes over movement again
+registerBehaviorLeaf<EnemyEntity>('in_hit_recovery', () =>
+  new Condition(({ entity }) => PoiseManager.instance.isInHitRecovery(entity)));
+
+// Stunned enemies (EMP, stagger) neither move nor attack
+registerBehaviorLeaf<EnemyEntity>('is_stunned', () =>
+  new Condition(({ entity }) => !!StatusEffectManager.instance.getModifiers(entity).stunned));
+
+// Picks the entity at the top of the threat table (if it outranks the house) as 'target'
+registerBehaviorLeaf<EnemyEntity>('has_threat_target', () =>
+  new Condition(({ entity, blackboard }) => {
+    const threatTarget = ThreatManager.instance.getCurrentTarget(entity);
+    const target = threatTarget.kind === ThreatTargetKind.ENTITY ? threatTarget.entity : undefined;
+    if (!target?.isSpawned) {
+      blackboard.delete('target');
+      return false;
+    }
+    blackboard.set('target', target);
+    return true;
+  }));
+
+// 'target' is seen or still remembered (see PerceptionManager)
+registerBehaviorLeaf<EnemyEntity>('aware_of_target', () =>
+  new Condition(({ entity, blackboard }) => {
+    const target = blackboard.get<Entity>('target');
+    return !!target && PerceptionManager.instance.isAware(entity, target);
+  }));
+
+// 'target' is in sight right now
+registerBehaviorLeaf<EnemyEntity>('target_visible', () =>
+  new Condition(({ entity, blackboard }) => {
+    const target = blackboard.get<Entity>('target');
+    return !!target && PerceptionManager.instance.canSee(entity, target);
+  }));
+
+registerBehaviorLeaf<EnemyEntity>('is_alerted', () =>
+  new Condition(({ entity }) => PerceptionManager.instance.getAlertState(entity) === AlertState.ALERTED));
+
+// args: { range?: number } (defaults to the enemy's attack range)
+registerBehaviorLeaf<EnemyEntity>('target_in_range', args =>
+  new Condition(({ entity, blackboard }) => {
+    const target = blackboard.get<Entity>('target');
+    const range = typeof args.range === 'number' ? args.range : entity.definition.stats.attackRange;
+    return !!target && horizontalDistance(entity.position, target.position) <= range;
+  }));
+
+// args: { fraction: number } (of max health)
+registerBehaviorLeaf<EnemyEntity>('health_below', args =>
+  new Condition(({ entity }) => entity.health < entity.maxHealth * (typeof args.fraction === 'number' ? args.fraction : 0.25)));
+
+// Only when move_to found no path: picks an adjacent building block to dig through as 'digBlock'
+registerBehaviorLeaf<EnemyEntity>('can_dig', () =>
+  new Condition(({ entity, world, blackboard }) => {
+    if (!blackboard.get<boolean>('pathBlocked')) return false;
+
+    const current = blackboard.get<Vector3Like>('digBlock');
+    if (current && isDestructibleBlock(entity, current)) return true;
+
+    const block = findNearestDestructibleBlock(
+      world,
+      entity.position,
+      ENEMY_BEHAVIOR_CONFIG.DIG_SEARCH_RADIUS,
+      DIGGABLE_BLOCK_TYPES,
+      UNDIGGABLE_BLOCK_TYPES,
+      getPlayerHouseLayout(world).floorY // Never dig through the house floor
+    );
+    if (!block) {
+      blackboard.delete('digBlock');
+      blackboard.set('pathBlocked', false);
+      return false;
+    }
+    blackboard.set('digBlock', block);
+    return true;
+  }));
+
+// Within attack range of the house door; stays true up to HOUSE_RANGE_BUFFER further so enemies don't jitter at the edge
+registerBehaviorLeaf<EnemyEntity>('near_house', () =>
+  new Condition(({ entity, world, blackboard }) => {
+    const distance = distance3d(entity.position, getPlayerHouseLayout(world).door);
+    const range = entity.definition.stats.attackRange
+      + (blackboard.get<boolean>('atHouse') ? ENEMY_BEHAVIOR_CONFIG.HOUSE_RANGE_BUFFER : 0);
+    const atHouse = distance <= range;
+    blackboard.set('atHouse', atHouse);
+    return atHouse;
+  }));
+
+// ====================================
+// Actions
+// ====================================
+
+// Does nothing and keeps running (e.g., while knocked back)
+registerBehaviorLeaf<EnemyEntity>('idle', () => new Action(() => NodeStatus.RUNNING));
+
+// Halts and plays the idle animation
+registerBehaviorLeaf<EnemyEntity>('stop', () =>
+  new Action(({ entity }) => {
+    stopMovement(entity);
+    return NodeStatus.SUCCESS;
+  }));
+
+// args: { goal: 'target' | 'house' }
+// Walks along a voxel path. Fails when the goal is missing, reached, or has no path
+// (setting 'pathBlocked' so can_dig can take over).
+registerBehaviorLeaf<EnemyEntity>('move_to', args =>
+  new Action(context => {
+    const goal = resolveGoal(context, args.goal);
+    if (!goal) return NodeStatus.FAILURE;
+
+    const { entity, blackboard } = context;
+    const navigator = blackboard.getOrCreate('navigator', () => new PathFollower());
+    const status = navigator.moveTo(entity, goal, getSpeed(entity));
+    blackboard.set('pathBlocked', status === NavigationStatus.NO_PATH);
+    if (status !== NavigationStatus.MOVING) return NodeStatus.FAILURE;
+
+    playWalk(entity);
+    return NodeStatus.RUNNING;
+  }));
+
+// args: { goal: 'target' | 'house' }
+// Heads straight for the goal, ignoring paths (fallback when move_to fails).
+registerBehaviorLeaf<EnemyEntity>('move_direct', args =>
+  new Action(context => {
+    const goal = resolveGoal(context, args.goal);
+    if (!goal) return NodeStatus.FAILURE;
+
+    steer(context.entity, goal, getSpeed(context.entity));
+    playWalk(context.entity);
+    return NodeStatus.RUNNING;
+  }));
+
+// Walks to where 'target' was last seen or heard. Once there without spotting it,
+// the enemy forgets the target and the action succeeds.
+registerBehaviorLeaf<EnemyEntity>('investigate', () =>
+  new Action(({ entity, blackboard }) => {
+    const target = blackboard.get<Entity>('target');
+    const position = target && PerceptionManager.instance.getLastKnownPosition(entity, target);
+    if (!target || !position) return NodeStatus.FAILURE;
+
+    if (horizontalDistance(entity.position, position) <= ENEMY_BEHAVIOR_CONFIG.INVESTIGATE_REACHED_DISTANCE) {
+      PerceptionManager.instance.forget(entity, target);
+      stopMovement(entity);
+      return NodeStatus.SUCCESS;
+    }
+
+    const navigator = blackboard.getOrCreate('navigator', () => new PathFollower());
+    if (navigator.moveTo(entity, position, getSpeed(entity)) !== NavigationStatus.MOVING) {
+      steer(entity, position, getSpeed(entity));
+    }
+    playWalk(entity);
+    return NodeStatus.RUNNING;
+  }));
+
+// Faces 'target' and, when the attack cooldown allows, starts a telegraphed swing at it
+// (stored as 'windUp'; continue_attack finishes it)
+registerBehaviorLeaf<EnemyEntity>('attack_target', () =>
+  new Action(({ entity, blackboard, now }) => {
+    const target = blackboard.get<Entity>('target');
+    if (!target?.isSpawned) return NodeStatus.FAILURE;
+
+    stopMovement(entity);
+    face(entity, target.position, getSpeed(entity) * 2);
+
+    if (now - entity.lastAttackTime >= entity.definition.stats.attackCooldownMs) {
+      blackboard.set('windUp', startMeleeWindUp(entity, target, now));
+    }
+    return NodeStatus.RUNNING;
+  }));
+
+// Holds still until a started swing lands, then validates the hit. Fails when no swing
+// is in progress; place it above anything that could pull the enemy away mid-swing.
+registerBehaviorLeaf<EnemyEntity>('continue_attack', () =>
+  new Action(({ entity, blackboard, now }) => {
+    const windUp = blackboard.get<MeleeWindUp>('windUp');
+    if (!windUp) return NodeStatus.FAILURE;
+
+    const result = updateMeleeWindUp(entity, windUp, now);
+    if (result === 'winding') {
+      entity.setLinearVelocity({ x: 0, y: entity.linearVelocity.y, z: 0 });
+      return NodeStatus.RUNNING;
+    }
+
+    blackboard.delete('windUp');
+    return result === 'interrupted' ? NodeStatus.FAILURE : NodeStatus.SUCCESS;
+  }));
+
+// Faces the house door and damages the nearest house block; fails when none is in reach
+registerBehaviorLeaf<EnemyEntity>('attack_house', () =>
+  new Action(({ entity, world, now }) => {
+    face(entity, getPlayerHouseLayout(world).door, entity.speed * 2);
+    if (now - entity.lastAttackTime < entity.definition.stats.attackCooldownMs) return NodeStatus.RUNNING;
+
+    const block = findNearestDestructibleBlock(world, entity.position, ENEMY_BEHAVIOR_CONFIG.HOUSE_BLOCK_SEARCH_RADIUS);
+    if (!block) return NodeStatus.FAILURE;
+
+    entity.lastAttackTime = now;
+    playAttack(entity);
+    BlockHealthManager.instance.damageBlock(block, entity.damage);
+    return NodeStatus.RUNNING;
+  }));
+
+// Hits 'digBlock' until it breaks. Succeeds once it is destroyed (the way may be open now).
+registerBehaviorLeaf<EnemyEntity>('dig_block', () =>
+  new Action(({ entity, blackboard, now }) => {
+    const block = blackboard.get<Vector3Like>('digBlock');
+    if (!block || !isDestructibleBlock(entity, block)) {
+      blackboard.delete('digBlock');
+      return NodeStatus.FAILURE;
+    }
+
+    face(entity, block, entity.speed * 4);
+    if (now < (blackboard.get<number>('nextDigAt') ?? 0)) return NodeStatus.RUNNING;
+
+    blackboard.set('nextDigAt', now + ENEMY_BEHAVIOR_CONFIG.BLOCK_ATTACK_COOLDOWN_MS);
+    playAttack(entity);
+    if (!BlockHealthManager.instance.damageBlock(block, entity.damage)) return NodeStatus.RUNNING;
+
+    blackboard.delete('digBlock');
+    blackboard.set('pathBlocked', false);
+    return NodeStatus.SUCCESS;
+  }));
+
+// args: { distance?: number }
+// Runs directly away from 'target' until it is `distance` away, then fails.
+registerBehaviorLeaf<EnemyEntity>('flee', args =>
+  new Action(({ entity, blackboard }) => {
+    const target = blackboard.get<Entity>('target');
+    if (!target?.isSpawned) return NodeStatus.FAILURE;
+
+    const fleeDistance = typeof args.distance === 'number' ? args.distance : ENEMY_BEHAVIOR_CONFIG.FLEE_DISTANCE;
+    const dx = entity.position.x - target.position.x;
+    const dz = entity.position.z - target.position.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance >= fleeDistance) return NodeStatus.FAILURE;
+
+    // Straight away from the target (any direction when standing on top of it)
+    const angle = distance > 0.01 ? Math.atan2(dz, dx) : Math.random() * Math.PI * 2;
+    steer(entity, {
+      x: entity.position.x + Math.cos(angle) * fleeDistance,
+      y: entity.position.y,
+      z: entity.position.z + Math.sin(angle) * fleeDistance,
+    }, getSpeed(entity));
+    playWalk(entity);
+    return NodeStatus.RUNNING;
+  }));
+
+// args: { radius?: number }
+// Walks to a random point nearby. Succeeds when it gets there (or gives up), so the
+// next call picks a new point; wrap it in a cooldown to pause between wanders.
+registerBehaviorLeaf<EnemyEntity>('wander', args =>
+  new Action(({ entity, blackboard, now }) => {
+    const radius = typeof args.radius === 'number' ? args.radius : ENEMY_BEHAVIOR_CONFIG.WANDER_RADIUS;
+    let point = blackboard.get<Vector3Like>('wanderPoint');
+    if (!point) {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = radius * (0.5 + Math.random() * 0.5);
+      point = {
+        x: entity.position.x + Math.cos(angle) * distance,
+        y: entity.position.y,
+        z: entity.position.z + Math.sin(angle) * distance,
+      };
+      blackboard.set('wanderPoint', point);
+      blackboard.set('wanderUntil', now + ENEMY_BEHAVIOR_CONFIG.WANDER_TIMEOUT_MS);
+    }
+
+    if (horizontalDistance(entity.position, point) <= 1 || now >= (blackboard.get<number>('wanderUntil') ?? 0)) {
+      blackboard.delete('wanderPoint');
+      stopMovement(entity);
+      return NodeStatus.SUCCESS;
+    }
+
+    steer(entity, point, getSpeed(entity) * 0.5);
+    playWalk(entity);
+    return NodeStatus.RUNNING;
+  }));
+
+// ====================================
+// Internal helpers
+// ====================================
+
+function resolveGoal({ world, blackboard }: EnemyContext, goal: unknown): Vector3Like | undefined {
+  if (goal === 'house') return getPlayerHouseLayout(world).door;
+  if (goal === 'target') {
+    const target = blackboard.get<Entity>('target');
+    return target?.isSpawned ? target.position : undefined;
+  }
+  return undefined;
+}
+
+function getSpeed(entity: EnemyEntity): number {
+  return entity.speed * StatusEffectManager.instance.getModifiers(entity).speedMultiplier;
+}
+
+function isDestructibleBlock(entity: EnemyEntity, coordinate: Vector3Like): boolean {
+  const blockType = entity.world?.chunkLattice.getBlockType(coordinate);
+  return !!blockType && blockType.id !== BLOCK_TYPES.AIR && BlockHealthManager.instance.isBlockRegistered(coordinate);
+}
+
+function steer(entity: EnemyEntity, target: Vector3Like, speed: number): void {
+  const controller = entity.controller as SimpleEntityController;
+  if (controller?.move && controller?.face) {
+    controller.move(target, speed, { moveIgnoreAxes: { x: false, y: true, z: false } });
+    controller.face(target, speed * 2);
+  }
+}
+
+function face(entity: EnemyEntity, target: Vector3Like, speed: number): void {
+  const controller = entity.controller as SimpleEntityController;
+  controller?.face?.(target, speed);
+}
+
+function stopMovement(entity: EnemyEntity): void {
+  entity.setLinearVelocity({ x: 0, y: 0, z: 0 });
+  try {
+    entity.stopModelAnimations(entity.definition.animations.walk);
+    entity.startModelLoopedAnimations(entity.definition.animations.idle);
+  } catch {}
+}
+
+function playWalk(entity: EnemyEntity): void {
+  try {
+    entity.stopModelAnimations(entity.definition.animations.idle);
+    entity.startModelLoopedAnimations(entity.definition.animations.walk);
+  } catch {}
+}
+
+/**
+ * Plays the definition's attack animation and sound.
+ */
+function playAttack(entity: EnemyEntity): void {
+  entity.playSound('attack');
+  if (entity.definition.animations.attack) {
+    try {
+      entity.startModelOneshotAnimations(entity.definition.animations.attack);
+    } catch {}
+  }
+}
+
+function horizontalDistance(a: Vector3Like, b: Vector3Like): number {
+  const dx = a.x - b.x;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+function distance3d(a: Vector3Like, b: Vector3Like): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
@@ -0,0 +1,279 @@
+/**
+ * EnemyEntity - An enemy built from an EnemyDefinition
+ *
+ * Model, collider, stats, animations, sounds and loot all come from the
+ * definition (see: /src/entities/enemies/enemy-registry.ts).
+ * Handles taking damage, death, loot drops and health bar updates.
+ * Build enemies with createEnemy() from ./enemy-factory, which also pairs
+ * them with their AI controller.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity class
+ * - Enemy types from ./enemy-types
+ * - ENEMY_CONFIG from ../../constants/enemy-config
+ * - Health bar UI component
+ * - Damageable contract from ../../combat/damage-types
+ * - InventoryManager (loot)
+ *
+ * @author Cline
+ */
+
+import { Audio, Entity, EntityEvent, PlayerEntity, ColliderShape, ColliderOptions } from 'hytopia';
+import { ENEMY_CONFIG } from '../../constants/enemy-config';
+import { HealthBar } from '../../ui/healthBar';
+import { Damageable, DamageEvent, Resistances } from '../../combat/damage-types';
+import { StatusEffectDisplay, StatusEffectSummary } from '../../combat/status-effect-types';
+import { ComboDisplay, ComboSummary } from '../../combat/combo-manager';
+import { InventoryManager } from '../../player/inventory-manager';
+import { sendInventoryUpdate } from '../../ui/handlers/inventory-ui-handler';
+import { EnemyColliderDefinition, EnemyDefinition } from './enemy-types';
+import { rollLoot } from './enemy-registry';
+
+export class EnemyEntity extends Entity implements Damageable, StatusEffectDisplay, ComboDisplay {
+  public readonly definition: EnemyDefinition;
+  public health: number;
+  public maxHealth: number;
+  public maxPoise: number;
+  public resistances: Resistances;
+  public damage: number;
+  public speed: number;
+  public lastAttackTime: number = 0;
+  public isGrounded: boolean = false; // Track grounded state
+
+  private healthBar: HealthBar | null = null;
+  private readonly sounds: { attack?: Audio; hurt?: Audio; death?: Audio } = {};
+
+  constructor(definition: EnemyDefinition, options: Record<string, any> = {}) {
+    super({
+      modelUri: definition.modelUri,
+      modelScale: definition.modelScale,
+      modelLoopedAnimations: definition.animations.idle,
+      name: definition.name,
+      tag: 'enemy', // Used by combat collision handling and getEntitiesByTag('enemy')
+      rigidBodyOptions: {
+        enabledRotations: { x: false, y: true, z: false },
+        linearDamping: 0.1,
+        angularDamping: 0.1,
+        colliders: [
+          {
+            ...toColliderOptions(definition.collider),
+            collisionGroups: {
+              belongsTo: [4], // CollisionGroup.ENTITY
+              collidesWith: [8, 1, 4, 2], // PLAYER, BLOCK, ENTITY, ENTITY_SENSOR
+            },
+          },
+        ],
+      },
+      ...options,
+    });
+
+    const { stats } = definition;
+    this.definition = definition;
+    this.health = stats.health;
+    this.maxHealth = stats.health;
+    this.maxPoise = stats.poise;
+    this.resistances = stats.resistances ?? {};
+    this.damage = stats.damage;
+    this.speed = stats.speed;
+
+    // Add a ground sensor collider just below the main collider to track grounded state
+    this.createAndAddChildCollider({
+      shape: ColliderShape.CYLINDER,
+      radius: 0.3,
+      halfHeight: ENEMY_CONFIG.GROUND_SENSOR_HALF_HEIGHT,
+      isSensor: true,
+      relativePosition: { x: 0, y: -getColliderBottom(definition.collider), z: 0 },
+      tag: 'groundSensor',
+      onCollision: (other: any, started: any) => {
+        this.isGrounded = started;
+      },
+    });
+
+    for (const key of ['attack', 'hurt', 'death'] as const) {
+      const uri = definition.sounds?.[key];
+      if (uri) {
+        this.sounds[key] = new Audio({
+          attachedToEntity: this,
+          uri,
+          volume: ENEMY_CONFIG.SOUND_VOLUME,
+          referenceDistance: ENEMY_CONFIG.SOUND_REFERENCE_DISTANCE,
+        });
+      }
+    }
+
+    this.on(EntityEvent.SPAWN, () => {
+      if (this.world) {
+        this.healthBar = new HealthBar(this, this.health, this.maxHealth);
+        this.healthBar.load(this.world);
+      }
+      this.updateHealthBar();
+    });
+  }
+
+
+  /**
+   * Apply damage to this enemy. Called by the damage pipeline;
+   * use applyDamage() from combat/damage-pipeline instead of calling directly.
+   * @param event The processed damage event
+   */
+  public takeDamage(event: DamageEvent): void {
+    if (this.isDead()) return;
+
+    this.health = Math.max(0, this.health - event.amount);
+    this.updateHealthBar();
+
+    if (this.health <= 0) {
+      this.die(event.source);
+    } else {
+      this.playSound('hurt');
+      // Optional: flash red or play hit animation
+      try {
+        this.setTintColor?.({ r: 255, g: 0, b: 0 });
+        setTimeout(() => {
+          this.setTintColor?.({ r: 255, g: 255, b: 255 });
+        }, ENEMY_CONFIG.HURT_TINT_MS);
+      } catch {}
+    }
+  }
+
+  /**
+   * Check if this enemy is dead.
+   * @returns true if health <= 0
+   */
+  public isDead(): boolean {
+    return this.health <= 0;
+  }
+
+  /**
+   * Handle enemy death. The killer (if a player) receives the enemy's loot.
+   * @param killer The entity that landed the killing blow
+   */
+  public die(killer?: Entity): void {
+    // Play death animation or effects
+    this.playSound('death');
+    if (this.definition.animations.death) {
+      try {
+        this.startModelOneshotAnimations(this.definition.animations.death);
+      } catch {}
+    }
+
+    if (killer instanceof PlayerEntity) {
+      this.grantLoot(killer);
+    }
+
+    // Hide health bar
+    if (this.healthBar) {
+      try {
+        this.healthBar.unload();
+      } catch {}
+    }
+
+    // Despawn after short delay
+    setTimeout(() => {
+      if (this.isSpawned) {
+        this.despawn();
+      }
+    }, ENEMY_CONFIG.DESPAWN_DELAY_MS);
+  }
+
+  /**
+   * Play one of the definition's sounds, if it has one.
+   * @param key Which sound to play
+   */
+  public playSound(key: 'attack' | 'hurt' | 'death'): void {
+    if (this.world) {
+      this.sounds[key]?.play(this.world);
+    }
+  }
+
+  /**
+   * Show active status effects on the health bar.
+   * Called by the StatusEffectManager whenever this enemy's effects change.
+   * @param effects Summaries of the active effects
+   */
+  public showStatusEffects(effects: StatusEffectSummary[]): void {
+    if (this.healthBar) {
+      try {
+        this.healthBar.setStatusEffects(effects);
+      } catch {}
+    }
+  }
+
+  /**
+   * Show the current hit chain on the health bar.
+   * Called by the ComboManager whenever this enemy's chain changes.
+   * @param combo Summary of the current chain
+   */
+  public showCombo(combo: ComboSummary): void {
+    if (this.healthBar) {
+      try {
+        this.healthBar.setCombo(combo);
+      } catch {}
+    }
+  }
+
+  /**
+   * Update the health bar UI to reflect current health.
+   */
+  public updateHealthBar(): void {
+    if (this.healthBar) {
+      try {
+        this.healthBar.setHealth(this.health, this.maxHealth);
+      } catch {}
+    }
+  }
+
+  /**
+   * Rolls the loot table and adds the drops to the killer's inventory.
+   */
+  private grantLoot(killer: PlayerEntity): void {
+    const drops = rollLoot(this.definition.loot);
+    if (drops.length === 0) return;
+
+    const player = killer.player;
+    if (!InventoryManager.instance.addItems(player.id, drops)) {
+      killer.world?.chatManager.sendPlayerMessage(player, `Inventory full - ${this.definition.name} loot lost.`, 'FF0000');
+      return;
+    }
+
+    const summary = drops.map(drop => `${drop.quantity}x ${drop.itemId}`).join(', ');
+    killer.world?.chatManager.sendPlayerMessage(player, `Looted ${summary} from ${this.definition.name}.`, '00FF00');
+    sendInventoryUpdate(player);
+  }
+}
+
+// ====================================
+// Collider helpers
+// ====================================
+
+/**
+ * Converts a JSON collider description into SDK collider options.
+ */
+function toColliderOptions(collider: EnemyColliderDefinition): ColliderOptions {
+  switch (collider.shape) {
+    case 'capsule':
+      return { shape: ColliderShape.CAPSULE, radius: collider.radius, halfHeight: collider.halfHeight };
+    case 'block':
+      return { shape: ColliderShape.BLOCK, halfExtents: collider.halfExtents };
+    case 'ball':
+    default:
+      return { shape: ColliderShape.BALL, radius: collider.radius }; // BALL gives reliable ground contact
+  }
+}
+
+/**
+ * Distance from an entity's origin to the bottom of its collider.
+ */
+function getColliderBottom(collider: EnemyColliderDefinition): number {
+  switch (collider.shape) {
+    case 'capsule':
+      return (collider.halfHeight ?? 0) + (collider.radius ?? 0);
+    case 'block':
+      return collider.halfExtents?.y ?? 0;
+    case 'ball':
+    default:
+      return collider.radius ?? 0;
+  }
+}
+
+export default EnemyEntity;
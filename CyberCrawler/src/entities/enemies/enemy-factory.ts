@@ -0,0 +1,76 @@
+/**
+ * Enemy Factory - Builds enemies from archetype definitions
+ *
+ * The single place enemies are constructed: creates the EnemyEntity for a
+ * definition, gives it a SimpleEntityController for movement and pairs it with an
+ * EnemyController that runs the archetype's behavior tree every tick. Trees keep no
+ * per-enemy state, so each definition's tree is built once and shared. Enemies
+ * start perceiving (see PerceptionManager) once they spawn.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (EntityEvent, SimpleEntityController)
+ * - EnemyEntity, EnemyController and the enemy registry
+ * - buildBehaviorTree from ../../ai/behavior-tree/tree-builder
+ * - PerceptionManager from ../../ai/perception/perception-manager
+ *
+ * @author CyberCrawler Team
+ */
+
+import { EntityEvent, SimpleEntityController } from 'hytopia';
+import EnemyEntity from './enemy-entity';
+import { EnemyController } from './enemyController';
+import { EnemyDefinition } from './enemy-types';
+import { getEnemyDefinition } from './enemy-registry';
+import { BehaviorNode } from '../../ai/behavior-tree/behavior-tree';
+import { buildBehaviorTree } from '../../ai/behavior-tree/tree-builder';
+import { PerceptionManager } from '../../ai/perception/perception-manager';
+
+const behaviorTrees: WeakMap<EnemyDefinition, BehaviorNode<EnemyEntity>> = new WeakMap();
+
+/**
+ * An enemy entity and the AI controller driving it.
+ */
+export interface EnemyPair {
+  entity: EnemyEntity;
+  controller: EnemyController;
+}
+
+/**
+ * Builds an enemy (not yet spawned) from an archetype.
+ * @param archetype The archetype ID or definition
+ * @returns The entity and its AI controller, or undefined if the archetype ID is unknown
+ */
+export function createEnemy(archetype: string | EnemyDefinition): EnemyPair | undefined {
+  const definition = typeof archetype === 'string' ? getEnemyDefinition(archetype) : archetype;
+  if (!definition) {
+    console.warn(`[EnemyFactory] Unknown enemy archetype "${archetype}".`);
+    return undefined;
+  }
+
+  const entity = new EnemyEntity(definition);
+  // SimpleEntityController is the main controller and handles movement
+  entity.setController(new SimpleEntityController());
+
+  // The AI controller runs separately on the entity's tick
+  const controller = new EnemyController(getBehaviorTree(definition));
+  entity.on(EntityEvent.TICK, ({ tickDeltaMs }) => {
+    controller.tick(entity, tickDeltaMs);
+  });
+  entity.on(EntityEvent.SPAWN, () => {
+    PerceptionManager.instance.register(entity, definition.perception);
+  });
+
+  return { entity, controller };
+}
+
+/**
+ * Gets the behavior tree for a definition, building it on first use.
+ */
+function getBehaviorTree(definition: EnemyDefinition): BehaviorNode<EnemyEntity> {
+  let tree = behaviorTrees.get(definition);
+  if (!tree) {
+    tree = buildBehaviorTree<EnemyEntity>(definition.behaviorTree);
+    behaviorTrees.set(definition, tree);
+  }
+  return tree;
+}
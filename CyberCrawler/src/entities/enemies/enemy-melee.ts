@@ -0,0 +1,111 @@
+/**
+ * Enemy Melee - Telegraphed melee attacks for enemies
+ *
+ * An enemy attack has two parts. The wind-up plays the archetype's windUp (or attack)
+ * animation and attack sound and tints the enemy for stats.windUpMs. The enemy
+ * commits to the direction it faces when the wind-up starts and stands still while
+ * winding up. When the wind-up ends the swing is validated: the arc in the committed
+ * direction is swept with findMeleeTargets (reach, arc and line of sight), so players
+ * who stepped out of reach or to the side in time are missed. Whoever is still in
+ * the arc takes the enemy's damage through applyDamage, where shields, armor and
+ * the rest of the pipeline apply.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (Entity, Vector3Like)
+ * - findMeleeTargets from ../../combat/melee-detection
+ * - applyDamage from ../../combat/damage-pipeline
+ * - ENEMY_MELEE_CONFIG from ../../constants/enemy-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, Vector3Like } from 'hytopia';
+
+// Project modules
+import EnemyEntity from './enemy-entity';
+import { findMeleeTargets } from '../../combat/melee-detection';
+import { applyDamage } from '../../combat/damage-pipeline';
+import { ENEMY_MELEE_CONFIG } from '../../constants/enemy-config';
+
+/**
+ * A melee attack being wound up.
+ */
+export interface MeleeWindUp {
+  target: Entity;             // Who the attack was aimed at
+  direction: Vector3Like;     // Committed swing direction (horizontal)
+  hitAt: number;              // When the swing lands
+  lastUpdateAt: number;       // Last time the AI advanced the attack (detects interruptions)
+}
+
+/**
+ * Starts winding up an attack at a target: faces it, plays the telegraph and
+ * commits to the direction.
+ * @param entity The attacking enemy
+ * @param target The entity to attack
+ * @param now The current time
+ * @returns The wind-up to pass to updateMeleeWindUp() every tick
+ */
+export function startMeleeWindUp(entity: EnemyEntity, target: Entity, now: number): MeleeWindUp {
+  const windUpMs = entity.definition.stats.windUpMs ?? ENEMY_MELEE_CONFIG.DEFAULT_WIND_UP_MS;
+  const direction = horizontalDirection(entity.position, target.position);
+
+  // Telegraph: animation, sound and tint for the whole wind-up
+  const animations = entity.definition.animations.windUp ?? entity.definition.animations.attack;
+  if (animations) {
+    try {
+      entity.startModelOneshotAnimations(animations);
+    } catch {}
+  }
+  entity.playSound('attack');
+  try {
+    entity.setTintColor?.(ENEMY_MELEE_CONFIG.TELEGRAPH_TINT);
+    setTimeout(() => {
+      if (entity.isSpawned) entity.setTintColor?.({ r: 255, g: 255, b: 255 });
+    }, windUpMs);
+  } catch {}
+
+  return { target, direction, hitAt: now + windUpMs, lastUpdateAt: now };
+}
+
+/**
+ * Advances a wind-up. Call every tick while the attack is in progress.
+ * @param entity The attacking enemy
+ * @param windUp The wind-up from startMeleeWindUp()
+ * @param now The current time
+ * @returns 'winding' while the wind-up lasts, 'interrupted' when the AI stopped
+ *          advancing it for a while (e.g., stunned), otherwise whether the swing hit
+ */
+export function updateMeleeWindUp(entity: EnemyEntity, windUp: MeleeWindUp, now: number): 'winding' | 'interrupted' | 'hit' | 'missed' {
+  const gap = now - windUp.lastUpdateAt;
+  windUp.lastUpdateAt = now;
+  if (gap > ENEMY_MELEE_CONFIG.INTERRUPT_GAP_MS) return 'interrupted';
+  if (now < windUp.hitAt) return 'winding';
+
+  entity.lastAttackTime = now;
+  if (entity.definition.animations.windUp && entity.definition.animations.attack) {
+    try {
+      entity.startModelOneshotAnimations(entity.definition.animations.attack);
+    } catch {}
+  }
+
+  // Hit validation: whoever is still inside the committed arc is struck
+  const { entities } = findMeleeTargets(entity, windUp.direction, {
+    range: entity.definition.stats.attackRange,
+    arcDegrees: ENEMY_MELEE_CONFIG.ARC_DEGREES,
+    maxTargets: ENEMY_MELEE_CONFIG.MAX_TARGETS,
+  });
+
+  let hit = false;
+  for (const target of entities) {
+    hit = !!applyDamage(target, { amount: entity.damage, source: entity, hitPoint: target.position }) || hit;
+  }
+  return hit ? 'hit' : 'missed';
+}
+
+function horizontalDirection(from: Vector3Like, to: Vector3Like): Vector3Like {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const length = Math.sqrt(dx * dx + dz * dz);
+  return length === 0 ? { x: 0, y: 0, z: -1 } : { x: dx / length, y: 0, z: dz / length };
+}
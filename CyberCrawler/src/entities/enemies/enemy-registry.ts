@@ -0,0 +1,191 @@
+/**
+ * Enemy Registry - Enemy archetype definitions for CyberCrawler
+ *
+ * Every enemy archetype is defined here, keyed by its archetype ID. The default
+ * archetypes are loaded from enemy-definitions.json; more can be registered at
+ * runtime with registerEnemy() or loaded from parsed JSON with loadEnemyDefinitions(),
+ * which validates every entry and skips invalid ones.
+ *
+ * Dependencies:
+ * - Enemy types from ./enemy-types
+ * - Behavior tree spec validation from ../../ai/behavior-tree/tree-builder
+ *   (./enemy-behaviors registers the leaves trees may use)
+ * - Damage types from ../../combat/damage-types (resistance validation)
+ * - Default definitions from ./enemy-definitions.json
+ * - ENEMY_CONFIG from ../../constants/enemy-config
+ *
+ * @author CyberCrawler Team
+ */
+
+import { EnemyDefinition, EnemyLootEntry } from './enemy-types';
+import './enemy-behaviors'; // Registers behavior tree leaves before the definitions are validated
+import { validateBehaviorTreeSpec } from '../../ai/behavior-tree/tree-builder';
+import { DamageType } from '../../combat/damage-types';
+import { ENEMY_CONFIG } from '../../constants/enemy-config';
+import defaultEnemyDefinitions from './enemy-definitions.json';
+
+const enemies: Map<string, EnemyDefinition> = new Map();
+
+// Allowed values when validating JSON definitions
+const DAMAGE_TYPES = new Set<string>(Object.values(DamageType));
+
+loadEnemyDefinitions(defaultEnemyDefinitions);
+
+/**
+ * Registers (or replaces) an enemy archetype.
+ * @param definition The enemy definition
+ */
+export function registerEnemy(definition: EnemyDefinition): void {
+  enemies.set(definition.id, definition);
+}
+
+/**
+ * Validates and registers enemy definitions from parsed JSON (an array of definitions).
+ * Invalid entries are skipped with a warning.
+ * @param data Parsed JSON
+ * @returns The number of definitions registered
+ */
+export function loadEnemyDefinitions(data: unknown): number {
+  if (!Array.isArray(data)) {
+    console.warn('[EnemyRegistry] Enemy definitions must be an array.');
+    return 0;
+  }
+
+  let registered = 0;
+  data.forEach((entry, index) => {
+    const error = validateEnemyDefinition(entry);
+    if (error) {
+      console.warn(`[EnemyRegistry] Skipping enemy definition ${entry?.id ?? `#${index}`}: ${error}`);
+      return;
+    }
+    registerEnemy(entry as EnemyDefinition);
+    registered++;
+  });
+  return registered;
+}
+
+/**
+ * Retrieve an enemy definition by its archetype ID.
+ * @param id The archetype ID
+ * @returns The definition, or undefined if no such archetype exists
+ */
+export function getEnemyDefinition(id: string): EnemyDefinition | undefined {
+  return enemies.get(id);
+}
+
+/**
+ * Gets every registered enemy definition.
+ */
+export function getAllEnemies(): EnemyDefinition[] {
+  return Array.from(enemies.values());
+}
+
+/**
+ * Picks a random archetype, weighted by spawnWeight.
+ * @returns The picked definition, or the default archetype if no archetype has weight
+ */
+export function pickRandomEnemy(): EnemyDefinition | undefined {
+  const candidates = getAllEnemies().filter(definition => definition.spawnWeight > 0);
+  const totalWeight = candidates.reduce((sum, definition) => sum + definition.spawnWeight, 0);
+  if (totalWeight <= 0) return getEnemyDefinition(ENEMY_CONFIG.DEFAULT_ARCHETYPE_ID);
+
+  let roll = Math.random() * totalWeight;
+  for (const definition of candidates) {
+    roll -= definition.spawnWeight;
+    if (roll < 0) return definition;
+  }
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Rolls a loot table.
+ * @param loot The loot entries
+ * @returns The items dropped (entries that failed their roll are left out)
+ */
+export function rollLoot(loot: EnemyLootEntry[] = []): { itemId: string; quantity: number }[] {
+  const drops: { itemId: string; quantity: number }[] = [];
+  for (const entry of loot) {
+    if (Math.random() >= entry.chance) continue;
+    const quantity = entry.min + Math.floor(Math.random() * (entry.max - entry.min + 1));
+    if (quantity > 0) drops.push({ itemId: entry.itemId, quantity });
+  }
+  return drops;
+}
+
+// ====================================
+// Validation
+// ====================================
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Checks the shape of a definition loaded from JSON.
+ * @returns A description of the first problem found, or undefined if the definition is valid
+ */
+function validateEnemyDefinition(entry: any): string | undefined {
+  if (!entry || typeof entry !== 'object') return 'not an object';
+  if (typeof entry.id !== 'string' || !entry.id) return 'missing id';
+  if (typeof entry.name !== 'string') return 'missing name';
+  if (typeof entry.modelUri !== 'string') return 'missing modelUri';
+  if (!isNumber(entry.modelScale)) return 'missing modelScale';
+  if (!isNumber(entry.spawnWeight) || entry.spawnWeight < 0) return 'spawnWeight must be a number >= 0';
+
+  const { collider } = entry;
+  if (!collider || typeof collider !== 'object') return 'missing collider';
+  if (collider.shape === 'ball' && !isNumber(collider.radius)) return 'ball collider needs a radius';
+  if (collider.shape === 'capsule' && (!isNumber(collider.radius) || !isNumber(collider.halfHeight))) {
+    return 'capsule collider needs a radius and halfHeight';
+  }
+  if (collider.shape === 'block' && !['x', 'y', 'z'].every(axis => isNumber(collider.halfExtents?.[axis]))) {
+    return 'block collider needs halfExtents';
+  }
+  if (!['ball', 'capsule', 'block'].includes(collider.shape)) return `unknown collider shape "${collider.shape}"`;
+
+  const { stats } = entry;
+  if (!stats || typeof stats !== 'object') return 'missing stats';
+  for (const key of ['health', 'damage', 'speed', 'attackRange', 'attackCooldownMs', 'poise']) {
+    if (!isNumber(stats[key])) return `stats.${key} must be a number`;
+  }
+  if (stats.windUpMs !== undefined && (!isNumber(stats.windUpMs) || stats.windUpMs < 0)) return 'stats.windUpMs must be a number >= 0';
+  if (stats.resistances !== undefined) {
+    if (typeof stats.resistances !== 'object') return 'stats.resistances must be an object';
+    for (const [type, value] of Object.entries(stats.resistances)) {
+      if (!DAMAGE_TYPES.has(type) || !isNumber(value)) return `invalid resistance "${type}"`;
+    }
+  }
+
+  const { animations } = entry;
+  if (!animations || !isStringArray(animations.idle) || !isStringArray(animations.walk)) {
+    return 'animations need idle and walk lists';
+  }
+  if (animations.windUp !== undefined && !isStringArray(animations.windUp)) return 'animations.windUp must be a list';
+  if (animations.attack !== undefined && !isStringArray(animations.attack)) return 'animations.attack must be a list';
+  if (animations.death !== undefined && !isStringArray(animations.death)) return 'animations.death must be a list';
+
+  const treeError = validateBehaviorTreeSpec(entry.behaviorTree, 'behaviorTree');
+  if (treeError) return treeError;
+
+  if (entry.perception !== undefined) {
+    if (!entry.perception || typeof entry.perception !== 'object') return 'perception must be an object';
+    for (const key of ['sightRange', 'viewAngleDegrees', 'hearingMultiplier']) {
+      if (entry.perception[key] !== undefined && !isNumber(entry.perception[key])) return `perception.${key} must be a number`;
+    }
+  }
+
+  if (entry.loot !== undefined) {
+    if (!Array.isArray(entry.loot)) return 'loot must be a list';
+    for (const drop of entry.loot) {
+      if (typeof drop?.itemId !== 'string' || !isNumber(drop.chance) || !isNumber(drop.min) || !isNumber(drop.max)) {
+        return 'loot entries need itemId, chance, min and max';
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,92 @@
+/**
+ * Enemy Types - Shared types for the CyberCrawler enemy archetype registry
+ *
+ * An EnemyDefinition describes everything needed to build an enemy: model and
+ * collider, combat stats, animations, sounds, the behavior tree that drives its AI,
+ * what it drops and how often it spawns. Definitions only hold plain data (no SDK
+ * enums), so they can be loaded from JSON.
+ *
+ * Dependencies:
+ * - Damage types from ../../combat/damage-types
+ * - BehaviorTreeSpec from ../../ai/behavior-tree/tree-builder
+ * - PerceptionProfile from ../../ai/perception/perception-manager
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Resistances } from '../../combat/damage-types';
+import { BehaviorTreeSpec } from '../../ai/behavior-tree/tree-builder';
+import { PerceptionProfile } from '../../ai/perception/perception-manager';
+
+/**
+ * Main physics collider of an enemy. A ground sensor is added below it automatically.
+ */
+export interface EnemyColliderDefinition {
+  shape: 'ball' | 'capsule' | 'block';
+  radius?: number;                                     // ball, capsule
+  halfHeight?: number;                                 // capsule
+  halfExtents?: { x: number; y: number; z: number };   // block
+}
+
+export interface EnemyStats {
+  health: number;
+  damage: number;                  // Damage per attack (entities and blocks)
+  speed: number;                   // Movement speed in units per second
+  attackRange: number;             // Distance at which targets and house blocks are attacked
+  attackCooldownMs: number;
+  windUpMs?: number;               // Telegraph before a melee swing lands (default: ENEMY_MELEE_CONFIG.DEFAULT_WIND_UP_MS)
+  poise: number;                   // Poise pool before the enemy is staggered
+  resistances?: Resistances;       // Innate resistances, keyed by DamageType value
+}
+
+/**
+ * Model animations played by the enemy. Names must exist in the model.
+ */
+export interface EnemyAnimations {
+  idle: string[];
+  walk: string[];
+  windUp?: string[];               // Telegraph before a melee swing (falls back to attack)
+  attack?: string[];
+  death?: string[];
+}
+
+/**
+ * Sound URIs played by the enemy.
+ */
+export interface EnemySounds {
+  attack?: string;
+  hurt?: string;
+  death?: string;
+}
+
+/**
+ * One entry in a loot table. Each entry is rolled independently when the enemy dies.
+ */
+export interface EnemyLootEntry {
+  itemId: string;                  // Inventory item ID (see resource-database.ts)
+  chance: number;                  // Drop chance (0..1)
+  min: number;                     // Quantity range when dropped
+  max: number;
+}
+
+/**
+ * Static description of an enemy archetype.
+ * See: /src/entities/enemies/enemy-registry.ts
+ */
+export interface EnemyDefinition {
+  id: string;                      // Archetype ID (e.g., 'spider')
+  name: string;                    // Display name (combat log, entity name)
+
+  // Model and physics
+  modelUri: string;
+  modelScale: number;
+  collider: EnemyColliderDefinition;
+
+  stats: EnemyStats;
+  animations: EnemyAnimations;
+  sounds?: EnemySounds;
+  behaviorTree: BehaviorTreeSpec;   // AI, built from the leaves in enemy-behaviors.ts
+  perception?: PerceptionProfile;  // Sight range, view cone and hearing (defaults: PERCEPTION_CONFIG)
+  loot?: EnemyLootEntry[];         // Granted to the player who lands the killing blow
+  spawnWeight: number;             // Relative chance of being picked by random spawns (0 = never)
+}
@@ -0,0 +1,91 @@
+/**
+ * Energy Beam - Instant-hit projectile
+ *
+ * Beams resolve their whole path in a single sweep: they pierce through up to
+ * `pierceCount + 1` entities and stop at the first block, damaging it. A short
+ * impact flash is spawned where the beam ends.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity, World, Vector3Like
+ * - Hit helpers from ./projectile-impact
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, Vector3Like, World } from 'hytopia';
+
+// Project modules
+import { ProjectileDefinition, ProjectileLaunchOptions } from './projectile-types';
+import { castProjectileRay, damageProjectileBlock, damageProjectileTarget } from './projectile-impact';
+
+/**
+ * Fires an instant-hit beam.
+ * @param world The world to fire into
+ * @param definition The beam's projectile definition
+ * @param launch Owner, origin, direction and damage of the shot
+ * @returns The entities damaged by the beam
+ */
+export function fireEnergyBeam(
+  world: World,
+  definition: ProjectileDefinition,
+  launch: ProjectileLaunchOptions
+): Entity[] {
+  const { direction } = launch;
+  const hitEntityIds = new Set<number>();
+  const damaged: Entity[] = [];
+
+  let origin: Vector3Like = { ...launch.origin };
+  let remaining = definition.range;
+  let endPoint: Vector3Like | undefined;
+
+  while (remaining > 0) {
+    const hit = castProjectileRay(world, origin, direction, remaining, launch.owner, hitEntityIds);
+    if (!hit) break;
+
+    origin = { ...hit.hitPoint };
+    remaining -= hit.hitDistance;
+    endPoint = hit.hitPoint;
+
+    if (!hit.hitEntity) {
+      damageProjectileBlock(hit, definition, launch.damage);
+      break;
+    }
+
+    hitEntityIds.add(hit.hitEntity.id!);
+    if (damageProjectileTarget(hit.hitEntity, hit.hitPoint, definition, launch)) {
+      damaged.push(hit.hitEntity);
+    }
+    if (hitEntityIds.size > definition.pierceCount) break;
+  }
+
+  spawnImpactFlash(world, definition, endPoint ?? {
+    x: launch.origin.x + direction.x * definition.range,
+    y: launch.origin.y + direction.y * definition.range,
+    z: launch.origin.z + direction.z * definition.range,
+  });
+
+  return damaged;
+}
+
+/**
+ * Spawns a short-lived model where the beam ended.
+ */
+function spawnImpactFlash(world: World, definition: ProjectileDefinition, position: Vector3Like): void {
+  if (!definition.modelUri) return;
+
+  try {
+    const flash = new Entity({
+      name: 'BeamImpact',
+      modelUri: definition.modelUri,
+      modelScale: definition.modelScale ?? 1,
+      rigidBodyOptions: { colliders: [] },
+    });
+    flash.spawn(world, position);
+    setTimeout(() => {
+      if (flash.isSpawned) flash.despawn();
+    }, definition.maxLifetimeMs);
+  } catch (error) {
+    console.error('[EnergyBeam] Failed to spawn impact flash:', error);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * ProjectileEntity - A physical shot that travels through the world
+ *
+ * The projectile is a kinematic entity moved manually every tick: it sweeps a ray
+ * along its path, applies gravity (ballistic shots), damages entities it passes
+ * through (piercing), damages and ricochets off blocks, and despawns when it runs
+ * out of pierces, ricochets, range or lifetime. Explosive projectiles (grenades)
+ * detonate instead of dealing direct hit damage.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity, EntityEvent, RigidBodyType, Quaternion
+ * - Hit helpers from ./projectile-impact
+ * - Physics constants from ../../physics/physicsSystem
+ * - createExplosion from ../../combat/explosions
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, EntityEvent, Quaternion, RigidBodyType, Vector3Like, World } from 'hytopia';
+
+// Project modules
+import { ProjectileDefinition, ProjectileLaunchOptions } from './projectile-types';
+import {
+  castProjectileRay,
+  damageProjectileBlock,
+  damageProjectileTarget,
+  getBlockHitNormal,
+} from './projectile-impact';
+import { PHYSICS_CONSTANTS } from '../../physics/physicsSystem';
+import { createExplosion } from '../../combat/explosions';
+
+const RICOCHET_SURFACE_OFFSET = 0.05; // Distance a ricocheting shot is pushed off the struck face
+
+export class ProjectileEntity extends Entity {
+  private readonly definition: ProjectileDefinition;
+  private readonly launch: ProjectileLaunchOptions;
+  private velocity: Vector3Like;
+  private hitEntityIds: Set<number> = new Set();
+  private ricochetsLeft: number;
+  private distanceTravelled: number = 0;
+  private spawnedAt: number = 0;
+
+  constructor(definition: ProjectileDefinition, launch: ProjectileLaunchOptions) {
+    super({
+      name: `Projectile (${definition.id})`,
+      modelUri: definition.modelUri,
+      modelScale: definition.modelScale ?? 1,
+      rigidBodyOptions: {
+        type: RigidBodyType.KINEMATIC_POSITION,
+        colliders: [], // Hits are detected by raycasts, not colliders
+      },
+    });
+
+    this.definition = definition;
+    this.launch = launch;
+    this.ricochetsLeft = definition.maxRicochets;
+    this.velocity = {
+      x: launch.direction.x * definition.speed,
+      y: launch.direction.y * definition.speed,
+      z: launch.direction.z * definition.speed,
+    };
+
+    this.on(EntityEvent.TICK, ({ tickDeltaMs }) => this.step(tickDeltaMs));
+  }
+
+  /**
+   * Spawns the projectile at its launch origin.
+   * @param world The world to fire into
+   */
+  public fire(world: World): void {
+    this.spawnedAt = Date.now();
+    this.spawn(world, this.launch.origin);
+    this.faceVelocity();
+  }
+
+  /**
+   * Advances the projectile by one tick.
+   */
+  private step(tickDeltaMs: number): void {
+    if (!this.isSpawned || !this.world) return;
+
+    const dt = tickDeltaMs / 1000;
+    if (Date.now() - this.spawnedAt > this.definition.maxLifetimeMs || this.distanceTravelled > this.definition.range) {
+      this.finish(this.position);
+      return;
+    }
+
+    // Gravity for ballistic shots
+    this.velocity.y -= PHYSICS_CONSTANTS.GRAVITY * this.definition.gravityScale * dt;
+
+    const speed = Math.sqrt(this.velocity.x ** 2 + this.velocity.y ** 2 + this.velocity.z ** 2);
+    if (speed === 0) {
+      this.finish(this.position);
+      return;
+    }
+
+    const direction = { x: this.velocity.x / speed, y: this.velocity.y / speed, z: this.velocity.z / speed };
+    let origin = { ...this.position };
+    let remaining = speed * dt;
+
+    // Resolve every hit along this tick's path
+    while (remaining > 0) {
+      const hit = castProjectileRay(this.world, origin, direction, remaining, this.launch.owner, this.hitEntityIds);
+      if (!hit) break;
+
+      origin = { ...hit.hitPoint };
+      remaining -= hit.hitDistance;
+      this.distanceTravelled += hit.hitDistance;
+
+      if (hit.hitEntity) {
+        if (this.definition.explosion) {
+          this.finish(hit.hitPoint);
+          return;
+        }
+        this.hitEntityIds.add(hit.hitEntity.id!);
+        damageProjectileTarget(hit.hitEntity, hit.hitPoint, this.definition, this.launch);
+        if (this.hitEntityIds.size > this.definition.pierceCount) {
+          this.despawn();
+          return;
+        }
+        continue;
+      }
+
+      // Block hit: damage it, then ricochet or stop
+      const destroyed = damageProjectileBlock(hit, this.definition, this.launch.damage);
+      const normal = getBlockHitNormal(hit);
+      if (destroyed || !normal || this.ricochetsLeft <= 0) {
+        this.finish(hit.hitPoint);
+        return;
+      }
+
+      // Nudge off the surface so the next sweep does not hit the same face
+      this.ricochet(normal);
+      this.setPosition({
+        x: origin.x + normal.x * RICOCHET_SURFACE_OFFSET,
+        y: origin.y + normal.y * RICOCHET_SURFACE_OFFSET,
+        z: origin.z + normal.z * RICOCHET_SURFACE_OFFSET,
+      });
+      this.faceVelocity();
+      return;
+    }
+
+    this.distanceTravelled += remaining;
+    this.setPosition({
+      x: origin.x + direction.x * remaining,
+      y: origin.y + direction.y * remaining,
+      z: origin.z + direction.z * remaining,
+    });
+    if (this.definition.gravityScale > 0) this.faceVelocity();
+  }
+
+  /**
+   * Ends the projectile's flight, detonating it first if it is explosive.
+   * @param position Where the projectile stopped
+   */
+  private finish(position: Vector3Like): void {
+    const explosion = this.definition.explosion;
+    if (explosion && this.world) {
+      createExplosion(this.world, {
+        center: { ...position },
+        radius: explosion.radius,
+        power: explosion.power,
+        isEmp: explosion.isEmp,
+        source: this.launch.owner,
+      });
+    }
+    this.despawn();
+  }
+
+  /**
+   * Reflects the velocity about a surface normal, losing some speed.
+   */
+  private ricochet(normal: Vector3Like): void {
+    const dot = this.velocity.x * normal.x + this.velocity.y * normal.y + this.velocity.z * normal.z;
+    const retention = this.definition.ricochetSpeedRetention;
+    this.velocity = {
+      x: (this.velocity.x - 2 * dot * normal.x) * retention,
+      y: (this.velocity.y - 2 * dot * normal.y) * retention,
+      z: (this.velocity.z - 2 * dot * normal.z) * retention,
+    };
+    this.ricochetsLeft--;
+  }
+
+  /**
+   * Rotates the model to point along its velocity (models face -Z).
+   */
+  private faceVelocity(): void {
+    const { x, y, z } = this.velocity;
+    const horizontal = Math.sqrt(x * x + z * z);
+    const yaw = Math.atan2(-x, -z) * (180 / Math.PI);
+    const pitch = Math.atan2(y, horizontal) * (180 / Math.PI);
+    this.setRotation(Quaternion.fromEuler(pitch, yaw, 0));
+  }
+}
+
+export default ProjectileEntity;
@@ -0,0 +1,143 @@
+/**
+ * Projectile Impact - Hit detection and hit resolution shared by all projectiles
+ *
+ * Physical projectiles and instant beams both sweep rays through the world,
+ * skip their owner, allies, already-pierced and non-damageable entities (pickups,
+ * props), so only damageable hits count as pierces, damage entities through the
+ * damage pipeline and damage blocks through the BlockHealthManager.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, RaycastHit, Vector3Like)
+ * - Damage pipeline from ../../combat/damage-pipeline
+ * - calculateKnockback from ../../combat/combatSystem
+ * - BlockHealthManager from ../../world/block-health-manager
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, RaycastHit, Vector3Like, World } from 'hytopia';
+
+// Project modules
+import { applyDamage, resolveDamageable } from '../../combat/damage-pipeline';
+import { FactionManager } from '../../combat/faction-manager';
+import { calculateKnockback } from '../../combat/combatSystem';
+import { BlockHealthManager } from '../../world/block-health-manager';
+import { ProjectileDefinition, ProjectileLaunchOptions } from './projectile-types';
+import { PROJECTILE_RAYCAST_MAX_STEPS } from '../../constants/projectile-config';
+
+const SKIP_DISTANCE = 0.05; // Distance to advance past an ignored entity before re-casting
+
+/**
+ * Casts a ray that ignores the projectile's owner, entities that cannot take
+ * damage, entities the owner may not damage (allies pass shots through) and any
+ * entity in `ignored`.
+ * @param world The world to raycast in
+ * @param origin Ray start
+ * @param direction Normalized ray direction
+ * @param length Ray length in meters
+ * @param owner Entity that fired the projectile
+ * @param ignored IDs of entities already hit (pierced)
+ * @returns The first relevant hit, or undefined
+ */
+export function castProjectileRay(
+  world: World,
+  origin: Vector3Like,
+  direction: Vector3Like,
+  length: number,
+  owner: Entity,
+  ignored: Set<number>
+): RaycastHit | undefined {
+  let start = { ...origin };
+  let remaining = length;
+
+  for (let step = 0; step < PROJECTILE_RAYCAST_MAX_STEPS && remaining > 0; step++) {
+    const hit = world.simulation.raycast(start, direction, remaining, {
+      filterExcludeRigidBody: owner.rawRigidBody,
+    });
+    if (!hit) return undefined;
+
+    const hitEntity = hit.hitEntity;
+    if (!hitEntity || !isPassThrough(hitEntity, owner, ignored)) {
+      return hit;
+    }
+
+    // Skip past the ignored entity and keep sweeping
+    const advance = hit.hitDistance + SKIP_DISTANCE;
+    start = {
+      x: start.x + direction.x * advance,
+      y: start.y + direction.y * advance,
+      z: start.z + direction.z * advance,
+    };
+    remaining -= advance;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a projectile should fly through an entity instead of stopping.
+ */
+function isPassThrough(entity: Entity, owner: Entity, ignored: Set<number>): boolean {
+  if (entity === owner || ignored.has(entity.id!)) return true;
+  return !resolveDamageable(entity) || !FactionManager.instance.canDamage(owner, entity);
+}
+
+/**
+ * Damages an entity struck by a projectile.
+ * @returns True if damage was applied
+ */
+export function damageProjectileTarget(
+  target: Entity,
+  hitPoint: Vector3Like,
+  definition: ProjectileDefinition,
+  options: ProjectileLaunchOptions
+): boolean {
+  const event = applyDamage(target, {
+    amount: options.damage,
+    type: definition.damageType,
+    source: options.owner,
+    isCritical: options.isCritical,
+    knockback: calculateKnockback(target, options.owner.position ?? hitPoint, definition.knockbackSpeed),
+    isRanged: true,
+    hitPoint,
+  });
+  return event !== null;
+}
+
+/**
+ * Damages the block struck by a projectile, if it is destructible.
+ * @returns True if the block was destroyed
+ */
+export function damageProjectileBlock(
+  hit: RaycastHit,
+  definition: ProjectileDefinition,
+  damage: number
+): boolean {
+  const coord = hit.hitBlock?.globalCoordinate;
+  if (!coord || definition.blockDamageMultiplier <= 0) return false;
+  return BlockHealthManager.instance.damageBlock(coord, damage * definition.blockDamageMultiplier);
+}
+
+/**
+ * Approximates the surface normal of the block face a ray hit, from the hit
+ * point's offset to the block center.
+ * @param hit A raycast hit against a block
+ * @returns Unit normal of the struck face, or undefined if no block was hit
+ */
+export function getBlockHitNormal(hit: RaycastHit): Vector3Like | undefined {
+  const coord = hit.hitBlock?.globalCoordinate;
+  if (!coord) return undefined;
+
+  const offset = {
+    x: hit.hitPoint.x - (coord.x + 0.5),
+    y: hit.hitPoint.y - (coord.y + 0.5),
+    z: hit.hitPoint.z - (coord.z + 0.5),
+  };
+  const ax = Math.abs(offset.x);
+  const ay = Math.abs(offset.y);
+  const az = Math.abs(offset.z);
+
+  if (ax >= ay && ax >= az) return { x: Math.sign(offset.x), y: 0, z: 0 };
+  if (ay >= az) return { x: 0, y: Math.sign(offset.y), z: 0 };
+  return { x: 0, y: 0, z: Math.sign(offset.z) };
+}
@@ -0,0 +1,63 @@
+/**
+ * Projectile Types - Shared types for the CyberCrawler projectile family
+ *
+ * A ProjectileDefinition describes how a shot behaves (speed, gravity, ricochet,
+ * piercing, lifetime). Ranged weapons reference a definition by ID and supply
+ * the damage when firing.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity, Vector3Like
+ * - Damage types from ../../combat/damage-types
+ *
+ * @author CyberCrawler Team
+ */
+
+import { Entity, Vector3Like } from 'hytopia';
+import { DamageType } from '../../combat/damage-types';
+
+/**
+ * How a projectile travels.
+ * PHYSICAL projectiles are entities that move every tick (optionally affected by gravity);
+ * BEAM projectiles hit instantly along a ray.
+ */
+export enum ProjectileKind {
+  PHYSICAL = 'physical',
+  BEAM = 'beam',
+}
+
+/**
+ * Static description of a projectile type.
+ * See: /src/constants/projectile-config.ts
+ */
+export interface ProjectileDefinition {
+  id: string;
+  kind: ProjectileKind;
+  damageType: DamageType;
+  modelUri?: string;              // Model for physical projectiles and beam impact flashes
+  modelScale?: number;
+  speed: number;                  // Launch speed in m/s (ignored by beams)
+  gravityScale: number;           // 0 = straight line, 1 = full world gravity (ballistic)
+  range: number;                  // Max travel distance in meters
+  maxLifetimeMs: number;          // Physical projectiles despawn after this long
+  maxRicochets: number;           // Times a physical projectile bounces off blocks
+  ricochetSpeedRetention: number; // Fraction of speed kept after each ricochet
+  pierceCount: number;            // Extra enemies the shot passes through after the first hit
+  blockDamageMultiplier: number;  // Fraction of damage dealt to blocks via BlockHealthManager
+  knockbackSpeed: number;         // Knockback speed (m/s) applied to entities hit
+  explosion?: {                   // Detonates on entity hit, final block hit or fuse (lifetime) expiry
+    radius: number;
+    power: number;
+    isEmp?: boolean;
+  };
+}
+
+/**
+ * Per-shot parameters supplied by the weapon firing the projectile.
+ */
+export interface ProjectileLaunchOptions {
+  owner: Entity;                  // Entity that fired the shot; never hit by its own projectile
+  origin: Vector3Like;
+  direction: Vector3Like;         // Normalized aim direction
+  damage: number;
+  isCritical?: boolean;
+}
@@ -1,53 +1,71 @@
 import {
   Audio,
   Entity,
+  PlayerEntity,
   Quaternion,
   Vector3Like,
   World,
-  QuaternionLike,
-  RaycastHit
+  QuaternionLike
 } from 'hytopia';
 
-import { COMBAT_CONFIG } from '../../constants/combat-config';
+import { CRITICAL_HIT_CHANCE } from '../../constants/combat-config';
+import { resolveDamageable, rollCritical } from '../../combat/damage-pipeline';
+import { processWeaponHit } from '../../combat/combatSystem';
+import { fireRangedWeapon } from '../../combat/ranged-weapons';
+import { findMeleeTargets } from '../../combat/melee-detection';
+import { WeaponDefinition, WeaponKind } from '../../combat/weapon-types';
+import { WeaponResourceManager } from '../../combat/weapon-resources';
+import { StatusEffectManager } from '../../combat/status-effect-manager';
+import { PerceptionManager } from '../../ai/perception/perception-manager';
+import { PERCEPTION_CONFIG } from '../../constants/ai-config';
 
 /**
- * CyberBladeEntity - A melee weapon that deals damage in close range
+ * WeaponEntity - A held weapon built from a WeaponDefinition
  * 
- * This weapon uses the player's "simple_interact" animation as a melee attack
- * motion since there are no specific melee attack animations in the player model.
+ * Melee weapons sweep an arc in front of the wielder (see melee-detection.ts),
+ * hitting up to the definition's maxTargets entities through processWeaponHit; ranged weapons fire their definition's projectile.
+ * Model, attachment, animations, sounds and stats all come from the definition
+ * (see: /src/combat/weapon-registry.ts). Weapons with heat or energy cannot
+ * attack while overheated or out of energy (see: /src/combat/weapon-resources.ts).
+ * Melee hits may apply the definition's onHitEffect (burn, bleed).
+ * Every attack makes noise that nearby enemies can hear (see: /src/ai/perception).
  */
-export class CyberBladeEntity extends Entity {
-  private readonly _damage: number = COMBAT_CONFIG.CYBER_BLADE_DAMAGE;
-  private readonly _range: number = COMBAT_CONFIG.CYBER_BLADE_RANGE;
-  private readonly _attackRate: number = COMBAT_CONFIG.CYBER_BLADE_ATTACK_RATE;
-  private readonly _attackSound: Audio;
-  private readonly _hitSound: Audio;
+export class WeaponEntity extends Entity {
+  public readonly definition: WeaponDefinition;
+  private readonly _attackSound?: Audio;
+  private readonly _hitSound?: Audio;
   
   private _isAttacking: boolean = false;
   private _lastAttackTime: number = 0;
   
-  constructor() {
+  constructor(definition: WeaponDefinition) {
     super({
-      name: 'Cyber Blade',
-      modelUri: 'models/items/sword.gltf', // Using a basic sword model
-      modelScale: 0.8,
+      name: definition.name,
+      modelUri: definition.modelUri,
+      modelScale: definition.modelScale,
       // Set parent and relative position in the equip method
     });
+
+    this.definition = definition;
     
     // Setup sound effects
-    this._attackSound = new Audio({
-      attachedToEntity: this,
-      uri: 'audio/sfx/sword-swing.mp3',
-      volume: 0.5,
-      referenceDistance: 5,
-    });
+    if (definition.attackSoundUri) {
+      this._attackSound = new Audio({
+        attachedToEntity: this,
+        uri: definition.attackSoundUri,
+        volume: 0.5,
+        referenceDistance: 5,
+      });
+    }
     
-    this._hitSound = new Audio({
-      attachedToEntity: this,
-      uri: 'audio/sfx/hit.mp3',
-      volume: 0.7,
-      referenceDistance: 5,
-    });
+    if (definition.hitSoundUri) {
+      this._hitSound = new Audio({
+        attachedToEntity: this,
+        uri: definition.hitSoundUri,
+        volume: 0.7,
+        referenceDistance: 5,
+      });
+    }
   }
   
   /**
@@ -57,16 +75,20 @@ export class CyberBladeEntity extends Entity {
   public equip(parentEntity: Entity): void {
     if (!this.isSpawned || !this.world) return;
     
-    // Set parent and position relative to player's hand
-    this.setParent(parentEntity, 'hand_right_anchor');
-    this.setPosition({ x: 0, y: 0.1, z: 0 });
-    this.setRotation(Quaternion.fromEuler(-90, 0, 90));
+    // Set parent and position relative to the definition's anchor
+    const { anchor, anchorOffset, anchorRotation, heldIdleAnimations } = this.definition;
+    this.setParent(parentEntity, anchor);
+    this.setPosition(anchorOffset);
+    this.setRotation(Quaternion.fromEuler(anchorRotation.x, anchorRotation.y, anchorRotation.z));
+
+    // Show this weapon's heat/energy meters on the wielder's HUD
+    WeaponResourceManager.instance.setActiveWeapon(parentEntity, this.definition);
     
     // Set player's animations to hold the weapon
-    if (parentEntity.hasOwnProperty('playerController')) {
+    if (heldIdleAnimations && parentEntity.hasOwnProperty('playerController')) {
       const playerController = (parentEntity as any).playerController;
       if (playerController) {
-        playerController.idleLoopedAnimations = ['idle_upper', 'idle_lower'];
+        playerController.idleLoopedAnimations = heldIdleAnimations;
       }
     }
   }
@@ -75,10 +97,14 @@ export class CyberBladeEntity extends Entity {
    * Unequip the weapon from its parent
    */
   public unequip(): void {
+    // Read the parent before detaching, which clears it
+    const previousParent = this.parent;
+    if (previousParent) {
+      WeaponResourceManager.instance.setActiveWeapon(previousParent, undefined);
+    }
     this.setParent(undefined);
     
     // Reset player's animations
-    const previousParent = this.parent;
     if (previousParent && previousParent.hasOwnProperty('playerController')) {
       const playerController = (previousParent as any).playerController;
       if (playerController) {
@@ -88,70 +114,67 @@ export class CyberBladeEntity extends Entity {
   }
   
   /**
-   * Perform a melee attack
+   * Perform an attack: a melee swing or a ranged shot depending on the weapon kind
    * @returns boolean Whether the attack was performed
    */
   public attack(): boolean {
     if (!this.parent || !this.world || this._isAttacking) return false;
     
     const now = performance.now();
-    if (now - this._lastAttackTime < 1000 / this._attackRate) return false;
+    if (now - this._lastAttackTime < 1000 / this.definition.attackRate) return false;
+
+    // Overheated or out of energy
+    const resources = WeaponResourceManager.instance;
+    const lockReason = resources.getLockReason(this.parent, this.definition);
+    if (lockReason) {
+      resources.notifyLocked(this.parent, this.definition, lockReason);
+      return false;
+    }
     
     this._lastAttackTime = now;
+    resources.consumeAttack(this.parent, this.definition);
     this._isAttacking = true;
     
     // Play attack animation on parent entity (player)
-    this.parent.startModelOneshotAnimations(['simple_interact']);
+    this.parent.startModelOneshotAnimations(this.definition.attackAnimations);
     
     // Play attack sound
-    this._attackSound.play(this.world);
+    this._attackSound?.play(this.world);
+
+    // Let nearby enemies hear the swing or shot
+    PerceptionManager.instance.reportNoise(this.parent, this.definition.kind === WeaponKind.RANGED
+      ? PERCEPTION_CONFIG.NOISE_RADIUS.GUNSHOT
+      : PERCEPTION_CONFIG.NOISE_RADIUS.MELEE_SWING);
     
-    // Perform raycast to detect hits
-    const hit = this._performAttackRaycast();
-    if (hit) {
-      this._processHit(hit);
-
-      // Spawn hit particle effect
-      if (this.world) {
-        // Spawn a temporary hit effect entity at the hit point
-        const effect = new Entity({
-          name: 'HitEffect',
-          blockTextureUri: 'blocks/coal-ore.png',
-          blockHalfExtents: { x: 0.3, y: 0.3, z: 0.3 },
-        });
-
-        // Offset effect slightly forward from hit point
-        const offset = 0.2;
-        const dir = (() => {
-          if (this.parent && (this.parent as any).player?.camera?.facingDirection) {
-            return (this.parent as any).player.camera.facingDirection;
-          }
-          return { x: 0, y: 0, z: 1 };
-        })();
-
-        const spawnPos = {
-          x: hit.hitPoint.x + dir.x * offset,
-          y: hit.hitPoint.y + dir.y * offset + 1.5, // raise 1.5 blocks higher
-          z: hit.hitPoint.z + dir.z * offset,
-        };
-
-        for (let i = 0; i < 2; i++) {
-          const effect = new Entity({
-            name: 'HitEffect',
-            blockTextureUri: 'blocks/coal-ore.png',
-            blockHalfExtents: { x: 0.3, y: 0.3, z: 0.3 },
-          });
-
-          effect.spawn(this.world, spawnPos);
-
-          // Spin effect for visibility
-          effect.setAngularVelocity?.({ x: 0, y: 5, z: 0 });
-
-          setTimeout(() => {
-            effect.despawn();
-          }, 600); // Despawn after 0.6 seconds
-        }
-      }
+    const direction = this._getAttackDirection();
+
+    if (this.definition.kind === WeaponKind.RANGED) {
+      fireRangedWeapon(this.parent, this.definition, direction, rollCritical(CRITICAL_HIT_CHANCE));
+      this._isAttacking = false;
+      return true;
+    }
+
+    // Sweep the weapon's arc for targets (lag compensated for players)
+    const { entities, blocks } = findMeleeTargets(this.parent, direction, {
+      range: this.definition.range,
+      arcDegrees: this.definition.arcDegrees,
+      maxTargets: this.definition.maxTargets,
+    });
+
+    let hitAny = false;
+    for (const target of entities) {
+      hitAny = this._processHit(target, direction) || hitAny;
+    }
+
+    if (hitAny) {
+      // Play hit sound once per swing
+      this._hitSound?.play(this.world);
+    }
+
+    // Spawn a hit particle effect at the first thing struck
+    const effectPoint = entities[0]?.position ?? (blocks[0] && { x: blocks[0].x + 0.5, y: blocks[0].y, z: blocks[0].z + 0.5 });
+    if (effectPoint) {
+      this._spawnHitEffect(effectPoint);
     }
     
     // Reset attack state after animation
@@ -163,56 +186,79 @@ export class CyberBladeEntity extends Entity {
   }
   
   /**
-   * Perform a raycast to detect hits
-   * @returns The raycast hit result or undefined if no hit
+   * Determine the attack direction - camera direction if the parent has a camera,
+   * otherwise the parent's forward direction
+   * @returns The attack direction
    */
-  private _performAttackRaycast(): RaycastHit | undefined {
-    if (!this.parent || !this.world) return undefined;
-    
-    // Use parent's position and direction
+  private _getAttackDirection(): Vector3Like {
     const parent = this.parent;
-    const origin = parent.position;
+    if (!parent) return { x: 0, y: 0, z: 1 }; // Default forward direction
     
-    // Determine attack direction - use camera direction if parent has camera
-    let direction: Vector3Like = { x: 0, y: 0, z: 1 }; // Default forward direction
-    
-    if (parent.hasOwnProperty('player') && (parent as any).player.camera) {
-      direction = (parent as any).player.camera.facingDirection;
-    } else {
-      // Use parent's forward direction as fallback
-      const forwardVector = (Quaternion as any).forward(parent.rotation);
-      direction = forwardVector;
+    if (parent instanceof PlayerEntity) {
+      return parent.player.camera.facingDirection;
     }
     
-    // Perform the raycast
-    const result = this.world.simulation.raycast(
-      origin,
-      direction,
-      this._range,
-      {
-        filterExcludeRigidBody: parent.rawRigidBody,
-      }
-    );
-    return result === null ? undefined : result;
+    // Use parent's forward direction (-Z rotated by its rotation) as fallback
+    const { x, y, z, w } = parent.rotation;
+    return { x: -2 * (x * z + w * y), y: -2 * (y * z - w * x), z: -(1 - 2 * (x * x + y * y)) };
   }
   
   /**
-   * Process a hit from the attack raycast
-   * @param hit The raycast hit result
+   * Process a single target hit by a melee swing
+   * @param target The entity hit
+   * @param direction The attack direction, used for momentum scaling
+   * @returns True if damage was applied
    */
-  private _processHit(hit: RaycastHit): void {
-    const hitEntity = hit.hitEntity;
-    if (!hitEntity) return;
+  private _processHit(target: Entity, direction: Vector3Like): boolean {
+    if (!this.parent) return false;
     
-    if (typeof (hitEntity as any).takeDamage === 'function') {
-      (hitEntity as any).takeDamage(this._damage);
-      
-      // Play hit sound
-      this._hitSound.play(this.world!);
-      
-      // Optional: spawn hit effect particles here
+    // Damage scales with the wielder's momentum and approach angle
+    const event = processWeaponHit(this.parent, target, this.definition.damage, direction, {
+      type: this.definition.damageType,
+      isCritical: rollCritical(CRITICAL_HIT_CHANCE),
+    });
+
+    const onHit = this.definition.onHitEffect;
+    if (event && onHit && !resolveDamageable(target)?.isDead() && Math.random() < onHit.chance) {
+      StatusEffectManager.instance.applyEffect(target, onHit.effectId, this.parent);
+    }
+    return event !== null;
+  }
+
+  /**
+   * Spawn temporary hit effect entities near a hit point
+   * @param hitPoint Where the swing connected
+   */
+  private _spawnHitEffect(hitPoint: Vector3Like): void {
+    if (!this.world) return;
+
+    // Offset effect slightly forward from hit point
+    const offset = 0.2;
+    const dir = this._getAttackDirection();
+
+    const spawnPos = {
+      x: hitPoint.x + dir.x * offset,
+      y: hitPoint.y + dir.y * offset + 1.5, // raise 1.5 blocks higher
+      z: hitPoint.z + dir.z * offset,
+    };
+
+    for (let i = 0; i < 2; i++) {
+      const effect = new Entity({
+        name: 'HitEffect',
+        blockTextureUri: 'blocks/coal-ore.png',
+        blockHalfExtents: { x: 0.3, y: 0.3, z: 0.3 },
+      });
+
+      effect.spawn(this.world, spawnPos);
+
+      // Spin effect for visibility
+      effect.setAngularVelocity?.({ x: 0, y: 5, z: 0 });
+
+      setTimeout(() => {
+        effect.despawn();
+      }, 600); // Despawn after 0.6 seconds
     }
   }
 }
 
-export default CyberBladeEntity;
+export default WeaponEntity;
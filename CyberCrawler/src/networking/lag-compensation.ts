@@ -0,0 +1,117 @@
+/**
+ * Lag Compensation - Rewinding entities to what a lagging player saw
+ *
+ * Every tick, the position and rotation of every damageable entity is recorded
+ * into a rolling TransformHistory. When a player attacks, their hit is resolved
+ * against where targets were when the player pressed the button: now minus the
+ * player's latency and the client's interpolation delay. Attacks that would need
+ * more rewind than LAG_COMPENSATION_CONFIG.MAX_REWIND_MS are rejected, so very
+ * laggy clients cannot hit targets that have long since moved away.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Entity, PlayerEntity, Vector3Like, WorldLoopEvent)
+ * - TransformHistory from ./transform-history
+ * - getRewindWindow from ./rewind-window
+ * - LatencyTracker from ./latency-tracker
+ * - resolveDamageable from ../combat/damage-pipeline
+ * - LAG_COMPENSATION_CONFIG from ../constants/network-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { TransformHistory } from './transform-history';
+import { getRewindWindow, RewindWindow } from './rewind-window';
+import { LatencyTracker } from './latency-tracker';
+import { resolveDamageable } from '../combat/damage-pipeline';
+import { LAG_COMPENSATION_CONFIG } from '../constants/network-config';
+
+export class LagCompensation {
+  private static _instance: LagCompensation;
+  private history: TransformHistory = new TransformHistory(LAG_COMPENSATION_CONFIG.HISTORY_MS);
+  private world?: World;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the LagCompensation.
+   */
+  public static get instance(): LagCompensation {
+    if (!LagCompensation._instance) {
+      LagCompensation._instance = new LagCompensation();
+    }
+    return LagCompensation._instance;
+  }
+
+  /**
+   * Hooks transform recording into the world loop.
+   * Should be called once when the server starts, after the LatencyTracker.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.recordTick());
+
+    console.log('[LagCompensation] Initialized.');
+  }
+
+  /**
+   * Works out how far back an attacker's hit should be resolved.
+   * Non-player attackers run on the server and are never rewound.
+   * @param attacker The attacking entity
+   * @returns The rewind window, or null if the attack needs more rewind than allowed
+   */
+  public getRewind(attacker: Entity): RewindWindow | null {
+    const now = Date.now();
+    if (!(attacker instanceof PlayerEntity)) return { timestamp: now, rewindMs: 0 };
+
+    return getRewindWindow(LatencyTracker.instance.getLatency(attacker.player.id), now);
+  }
+
+  /**
+   * Gets where an entity was at a point in time.
+   * Falls back to its current position if it has no history (e.g., it just spawned).
+   * @param entity The entity
+   * @param timestamp Server time (ms)
+   */
+  public getPositionAt(entity: Entity, timestamp: number): Vector3Like {
+    return this.history.sample(entity.id!, timestamp)?.position ?? entity.position;
+  }
+
+  /**
+   * Gives direct access to the recorded history (e.g., for debugging or tests).
+   */
+  public getHistory(): TransformHistory {
+    return this.history;
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Records every damageable entity's transform and forgets despawned entities.
+   */
+  private recordTick(): void {
+    if (!this.world) return;
+    const now = Date.now();
+    const seen = new Set<number>();
+
+    for (const entity of this.world.entityManager.getAllEntities()) {
+      if (!entity.isSpawned || entity.id === undefined || !resolveDamageable(entity)) continue;
+      seen.add(entity.id);
+      this.history.record(entity.id, now, entity.position, entity.rotation);
+    }
+
+    for (const id of this.history.getEntityIds()) {
+      if (!seen.has(id)) this.history.remove(id);
+    }
+  }
+}
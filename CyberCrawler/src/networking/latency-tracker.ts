@@ -0,0 +1,153 @@
+/**
+ * Latency Tracker - Per-player one-way latency estimates
+ *
+ * Pings every connected player's UI at a fixed interval and measures how long the
+ * reply takes. Half the round trip, smoothed over time, is the player's latency
+ * estimate. For testing, a synthetic latency can be set per player; it replaces
+ * the measured value everywhere the estimate is used (e.g., lag compensation).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Player, WorldLoopEvent)
+ * - LATENCY_CONFIG from ../constants/network-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Player, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import { LATENCY_CONFIG } from '../constants/network-config';
+
+interface PlayerLatency {
+  player: Player;
+  measuredMs?: number;                    // Smoothed one-way latency, undefined until the first reply
+  syntheticMs?: number;                   // Test override
+  pendingPings: Map<number, number>;      // ping ID -> sent at
+}
+
+export class LatencyTracker {
+  private static _instance: LatencyTracker;
+  private players: Map<string, PlayerLatency> = new Map(); // playerId -> latency state
+  private world?: World;
+  private nextPingId: number = 1;
+  private lastPingAt: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the LatencyTracker.
+   */
+  public static get instance(): LatencyTracker {
+    if (!LatencyTracker._instance) {
+      LatencyTracker._instance = new LatencyTracker();
+    }
+    return LatencyTracker._instance;
+  }
+
+  /**
+   * Hooks the tracker into the world loop (periodic pings).
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    console.log('[LatencyTracker] Initialized.');
+  }
+
+  /**
+   * Handles 'latency-pong' replies from a player's UI. Other events are ignored.
+   * @param player The player who sent the event
+   * @param data The UI event data
+   */
+  public handleUIEvent(player: Player, data: any): void {
+    if (data?.type !== 'latency-pong' || typeof data.id !== 'number') return;
+
+    const state = this.players.get(player.id);
+    const sentAt = state?.pendingPings.get(data.id);
+    if (!state || sentAt === undefined) return;
+    state.pendingPings.delete(data.id);
+
+    const sample = (Date.now() - sentAt) / 2;
+    state.measuredMs = state.measuredMs === undefined
+      ? sample
+      : state.measuredMs + (sample - state.measuredMs) * LATENCY_CONFIG.SMOOTHING;
+  }
+
+  /**
+   * Gets a player's one-way latency: the synthetic value if set, otherwise the measured estimate.
+   * @param playerId The player's ID
+   * @returns Latency in ms (0 until the first measurement)
+   */
+  public getLatency(playerId: string): number {
+    const state = this.players.get(playerId);
+    return state?.syntheticMs ?? state?.measuredMs ?? 0;
+  }
+
+  /**
+   * Gets a player's measured latency, ignoring any synthetic override.
+   * @returns Latency in ms, or undefined before the first reply
+   */
+  public getMeasuredLatency(playerId: string): number | undefined {
+    return this.players.get(playerId)?.measuredMs;
+  }
+
+  /**
+   * Overrides a player's latency for testing lag compensation.
+   * @param player The player
+   * @param latencyMs One-way latency to report, or null to use the measured value again
+   */
+  public setSyntheticLatency(player: Player, latencyMs: number | null): void {
+    this.getState(player).syntheticMs = latencyMs === null ? undefined : Math.max(0, latencyMs);
+  }
+
+  /**
+   * Forgets a player's latency state (e.g., when they leave).
+   */
+  public removePlayer(playerId: string): void {
+    this.players.delete(playerId);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private getState(player: Player): PlayerLatency {
+    let state = this.players.get(player.id);
+    if (!state) {
+      state = { player, pendingPings: new Map() };
+      this.players.set(player.id, state);
+    }
+    return state;
+  }
+
+  /**
+   * Pings every connected player and drops pings that were never answered.
+   */
+  private tick(): void {
+    const now = Date.now();
+    if (!this.world || now - this.lastPingAt < LATENCY_CONFIG.PING_INTERVAL_MS) return;
+    this.lastPingAt = now;
+
+    const pinged = new Set<string>();
+    for (const playerEntity of this.world.entityManager.getAllPlayerEntities()) {
+      if (pinged.has(playerEntity.player.id)) continue;
+      pinged.add(playerEntity.player.id);
+      const state = this.getState(playerEntity.player);
+
+      for (const [id, sentAt] of state.pendingPings) {
+        if (now - sentAt > LATENCY_CONFIG.PING_TIMEOUT_MS) state.pendingPings.delete(id);
+      }
+
+      const id = this.nextPingId++;
+      state.pendingPings.set(id, now);
+      state.player.ui.sendData({ type: 'latency-ping', id });
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+
+import { getRewindWindow } from './rewind-window';
+import { TransformHistory } from './transform-history';
+import { getMeleeArcDistance, normalizeHorizontal } from '../combat/melee-arc';
+import { LAG_COMPENSATION_CONFIG } from '../constants/network-config';
+
+const IDENTITY = { x: 0, y: 0, z: 0, w: 1 };
+const TARGET_ID = 7;
+const NOW = 10_000;
+const RANGE = 2;
+const HALF_ARC = Math.PI / 4; // 90 degree arc
+
+/**
+ * A target strafing across the attacker's front at 20 m/s, 1.5m in front (-Z):
+ * straight ahead at NOW - 150ms and outside the arc 100ms later.
+ */
+function strafingTarget(): TransformHistory {
+  const history = new TransformHistory(LAG_COMPENSATION_CONFIG.HISTORY_MS);
+  for (let t = NOW - 500; t <= NOW; t += 50) {
+    history.record(TARGET_ID, t, { x: (t - (NOW - 150)) / 50, y: 0, z: -1.5 }, IDENTITY);
+  }
+  return history;
+}
+
+/**
+ * Resolves a swing straight ahead from the origin the way findMeleeTargets does.
+ * @returns The distance to the target if hit, undefined if missed, null if rejected
+ */
+function swing(history: TransformHistory, latencyMs: number): number | undefined | null {
+  const rewind = getRewindWindow(latencyMs, NOW);
+  if (!rewind) return null;
+
+  const target = history.sample(TARGET_ID, rewind.timestamp)!.position;
+  const forward = normalizeHorizontal({ x: 0, y: 0, z: -1 });
+  return getMeleeArcDistance({ x: 0, y: 0, z: 0 }, forward, target, RANGE, HALF_ARC);
+}
+
+describe('getRewindWindow', () => {
+  test('rewinds by latency plus the client interpolation delay', () => {
+    const window = getRewindWindow(80, NOW);
+    const rewindMs = 80 + LAG_COMPENSATION_CONFIG.CLIENT_INTERPOLATION_MS;
+    expect(window).toEqual({ timestamp: NOW - rewindMs, rewindMs });
+  });
+
+  test('allows exactly the max rewind', () => {
+    const latency = LAG_COMPENSATION_CONFIG.MAX_REWIND_MS - LAG_COMPENSATION_CONFIG.CLIENT_INTERPOLATION_MS;
+    expect(getRewindWindow(latency, NOW)?.rewindMs).toBe(LAG_COMPENSATION_CONFIG.MAX_REWIND_MS);
+  });
+
+  test('rejects attacks needing more than the max rewind', () => {
+    const latency = LAG_COMPENSATION_CONFIG.MAX_REWIND_MS - LAG_COMPENSATION_CONFIG.CLIENT_INTERPOLATION_MS + 1;
+    expect(getRewindWindow(latency, NOW)).toBeNull();
+  });
+});
+
+describe('melee arc under synthetic latency', () => {
+  test('hits the target where a lagging player saw it', () => {
+    // 100ms + 50ms interpolation: the target was right in front
+    const distance = swing(strafingTarget(), 100);
+    expect(distance).toBeCloseTo(1.5);
+  });
+
+  test('hits an interpolated position between snapshots', () => {
+    // Rewound to NOW - 175ms, between the snapshots at -200 and -150: x = -0.5
+    const distance = swing(strafingTarget(), 125);
+    expect(distance).toBeCloseTo(Math.sqrt(0.5 ** 2 + 1.5 ** 2));
+  });
+
+  test('misses when the target had already left the arc', () => {
+    // 0ms + 50ms interpolation: the target was 2m to the side, 53 degrees off center
+    expect(swing(strafingTarget(), 0)).toBeUndefined();
+  });
+
+  test('misses a target outside the arc without rewind', () => {
+    const history = strafingTarget();
+    const current = history.sample(TARGET_ID, NOW)!.position;
+    expect(getMeleeArcDistance({ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: -1 }, current, RANGE, HALF_ARC)).toBeUndefined();
+  });
+
+  test('rejects the swing beyond the max rewind even if the target was in front', () => {
+    expect(swing(strafingTarget(), 260)).toBeNull();
+  });
+});
+
+describe('getMeleeArcDistance', () => {
+  const origin = { x: 0, y: 0, z: 0 };
+  const forward = { x: 0, y: 0, z: -1 };
+
+  test('hits targets close to the attacker at any angle', () => {
+    expect(getMeleeArcDistance(origin, forward, { x: 0, y: 0, z: 0.5 }, RANGE, HALF_ARC)).toBeCloseTo(0.5);
+  });
+
+  test('gives reach some slack for the target body', () => {
+    expect(getMeleeArcDistance(origin, forward, { x: 0, y: 0, z: -2.7 }, RANGE, HALF_ARC)).toBeCloseTo(2.7);
+    expect(getMeleeArcDistance(origin, forward, { x: 0, y: 0, z: -2.9 }, RANGE, HALF_ARC)).toBeUndefined();
+  });
+
+  test('ignores height when checking the angle', () => {
+    expect(getMeleeArcDistance(origin, forward, { x: 0, y: 1, z: -1 }, RANGE, HALF_ARC)).toBeCloseTo(Math.SQRT2);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Rewind Window - How far back a player's attack is resolved
+ *
+ * A player's hit is resolved at now minus their latency and the client's
+ * interpolation delay. Attacks needing more rewind than
+ * LAG_COMPENSATION_CONFIG.MAX_REWIND_MS are rejected. Kept free of world state
+ * so it can be tested on its own (see ./lag-compensation.ts for the caller).
+ *
+ * Dependencies:
+ * - LAG_COMPENSATION_CONFIG from ../constants/network-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// Project modules
+import { LAG_COMPENSATION_CONFIG } from '../constants/network-config';
+
+/**
+ * The point in time an attack is resolved at.
+ */
+export interface RewindWindow {
+  timestamp: number;      // Server time to sample targets at
+  rewindMs: number;       // How far back from now that is
+}
+
+/**
+ * Works out the rewind window of a player attack.
+ * @param latencyMs The attacking player's latency
+ * @param now The server time of the attack (ms)
+ * @returns The rewind window, or null if the attack needs more rewind than allowed
+ */
+export function getRewindWindow(latencyMs: number, now: number): RewindWindow | null {
+  const rewindMs = latencyMs + LAG_COMPENSATION_CONFIG.CLIENT_INTERPOLATION_MS;
+  if (rewindMs > LAG_COMPENSATION_CONFIG.MAX_REWIND_MS) return null;
+
+  return { timestamp: now - rewindMs, rewindMs };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+
+import { TransformHistory } from './transform-history';
+
+const IDENTITY = { x: 0, y: 0, z: 0, w: 1 };
+const TURNED = { x: 0, y: 1, z: 0, w: 0 };
+
+describe('TransformHistory', () => {
+  test('interpolates positions between snapshots', () => {
+    const history = new TransformHistory(1000);
+    history.record(1, 0, { x: 0, y: 0, z: 0 }, IDENTITY);
+    history.record(1, 100, { x: 10, y: 2, z: -4 }, TURNED);
+
+    const sample = history.sample(1, 25);
+    expect(sample?.timestamp).toBe(25);
+    expect(sample?.position).toEqual({ x: 2.5, y: 0.5, z: -1 });
+  });
+
+  test('uses the rotation of the nearer snapshot', () => {
+    const history = new TransformHistory(1000);
+    history.record(1, 0, { x: 0, y: 0, z: 0 }, IDENTITY);
+    history.record(1, 100, { x: 10, y: 0, z: 0 }, TURNED);
+
+    expect(history.sample(1, 40)?.rotation).toEqual(IDENTITY);
+    expect(history.sample(1, 60)?.rotation).toEqual(TURNED);
+  });
+
+  test('clamps samples outside the history to its ends', () => {
+    const history = new TransformHistory(1000);
+    history.record(1, 100, { x: 1, y: 0, z: 0 }, IDENTITY);
+    history.record(1, 200, { x: 2, y: 0, z: 0 }, IDENTITY);
+
+    expect(history.sample(1, 0)?.position).toEqual({ x: 1, y: 0, z: 0 });
+    expect(history.sample(1, 500)?.position).toEqual({ x: 2, y: 0, z: 0 });
+  });
+
+  test('finds the right pair among many snapshots', () => {
+    const history = new TransformHistory(1000);
+    for (let t = 0; t <= 500; t += 50) {
+      history.record(1, t, { x: t / 10, y: 0, z: 0 }, IDENTITY);
+    }
+
+    expect(history.sample(1, 335)?.position.x).toBeCloseTo(33.5);
+  });
+
+  test('drops snapshots older than the window but keeps one to interpolate from', () => {
+    const history = new TransformHistory(100);
+    for (let t = 0; t <= 300; t += 50) {
+      history.record(1, t, { x: t, y: 0, z: 0 }, IDENTITY);
+    }
+
+    // Window starts at 200; the snapshot at 200 is the oldest one needed
+    expect(history.getOldestTimestamp(1)).toBe(200);
+    expect(history.sample(1, 200)?.position.x).toBe(200);
+  });
+
+  test('keeps entities apart and forgets removed ones', () => {
+    const history = new TransformHistory(1000);
+    history.record(1, 0, { x: 1, y: 0, z: 0 }, IDENTITY);
+    history.record(2, 0, { x: 2, y: 0, z: 0 }, IDENTITY);
+
+    expect(history.getEntityIds().sort()).toEqual([1, 2]);
+    history.remove(1);
+    expect(history.sample(1, 0)).toBeUndefined();
+    expect(history.sample(2, 0)?.position.x).toBe(2);
+  });
+
+  test('copies recorded vectors', () => {
+    const history = new TransformHistory(1000);
+    const position = { x: 1, y: 0, z: 0 };
+    history.record(1, 0, position, IDENTITY);
+    position.x = 99;
+
+    expect(history.sample(1, 0)?.position.x).toBe(1);
+  });
+});
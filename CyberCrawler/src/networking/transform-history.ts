@@ -0,0 +1,125 @@
+/**
+ * Transform History - Rolling history of entity positions and rotations
+ *
+ * Keeps timestamped transform snapshots per entity for a fixed window and samples
+ * them at any time inside that window (interpolating between snapshots). Used by
+ * lag compensation to see entities where a lagging client saw them.
+ *
+ * The class only deals with plain data and explicit timestamps, so it can be
+ * driven from a headless harness without a running world.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK types (QuaternionLike, Vector3Like)
+ *
+ * @author CyberCrawler Team
+ */
+
+import { QuaternionLike, Vector3Like } from 'hytopia';
+
+/**
+ * An entity's transform at a point in time.
+ */
+export interface TransformSnapshot {
+  timestamp: number;
+  position: Vector3Like;
+  rotation: QuaternionLike;
+}
+
+export class TransformHistory {
+  private snapshots: Map<number, TransformSnapshot[]> = new Map(); // entityId -> snapshots, oldest first
+
+  /**
+   * @param historyMs How long snapshots are kept
+   */
+  constructor(private readonly historyMs: number) {}
+
+  /**
+   * Records an entity's transform. Timestamps must not go backwards per entity.
+   * @param entityId The entity's ID
+   * @param timestamp When the transform was observed (ms)
+   * @param position The entity's position
+   * @param rotation The entity's rotation
+   */
+  public record(entityId: number, timestamp: number, position: Vector3Like, rotation: QuaternionLike): void {
+    let list = this.snapshots.get(entityId);
+    if (!list) {
+      list = [];
+      this.snapshots.set(entityId, list);
+    }
+
+    list.push({
+      timestamp,
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+    });
+
+    // Keep one snapshot older than the window so its start can still be interpolated
+    const cutoff = timestamp - this.historyMs;
+    while (list.length > 2 && list[1].timestamp <= cutoff) {
+      list.shift();
+    }
+  }
+
+  /**
+   * Samples an entity's transform at a point in time.
+   * Positions are interpolated between the surrounding snapshots; the rotation of
+   * the nearer snapshot is used. Times outside the history clamp to its ends.
+   * @param entityId The entity's ID
+   * @param timestamp The time to sample (ms)
+   * @returns The transform, or undefined if nothing was recorded for the entity
+   */
+  public sample(entityId: number, timestamp: number): TransformSnapshot | undefined {
+    const list = this.snapshots.get(entityId);
+    if (!list || list.length === 0) return undefined;
+
+    if (timestamp <= list[0].timestamp) return list[0];
+    const last = list[list.length - 1];
+    if (timestamp >= last.timestamp) return last;
+
+    // Binary search for the first snapshot after the timestamp
+    let low = 0;
+    let high = list.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].timestamp <= timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const before = list[low - 1];
+    const after = list[low];
+    const t = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+    return {
+      timestamp,
+      position: {
+        x: before.position.x + (after.position.x - before.position.x) * t,
+        y: before.position.y + (after.position.y - before.position.y) * t,
+        z: before.position.z + (after.position.z - before.position.z) * t,
+      },
+      rotation: t < 0.5 ? before.rotation : after.rotation,
+    };
+  }
+
+  /**
+   * Gets the timestamp of the oldest snapshot of an entity.
+   */
+  public getOldestTimestamp(entityId: number): number | undefined {
+    return this.snapshots.get(entityId)?.[0]?.timestamp;
+  }
+
+  /**
+   * Forgets an entity's history (e.g., when it despawns).
+   */
+  public remove(entityId: number): void {
+    this.snapshots.delete(entityId);
+  }
+
+  /**
+   * Gets the IDs of all entities with history.
+   */
+  public getEntityIds(): number[] {
+    return Array.from(this.snapshots.keys());
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { World, Entity, Vector3, Vector3Like } from 'hytopia'; // Added Vector3Like
+import { MOMENTUM_CONFIG } from '../constants/combat-config';
 
 // Physics constants - can be tweaked for game feel
 export const PHYSICS_CONSTANTS = {
@@ -47,6 +48,80 @@ export function calculateMomentumDamage(impactVelocity: number, entityMass: numb
   return Math.min(damage, PHYSICS_CONSTANTS.MAX_IMPACT_FORCE);
 }
 
+/**
+ * Calculates the damage multiplier for a melee strike from the attacker's velocity.
+ * Faster movement hits harder, attacks swung along the direction of travel keep
+ * the full bonus, and fast downward movement adds a falling strike bonus.
+ * Caps come from MOMENTUM_CONFIG.
+ *
+ * @param velocity The attacker's linear velocity
+ * @param attackDirection The direction of the attack
+ * @returns The damage multiplier to apply to the weapon's base damage
+ *
+ * Example usage:
+ *   const damage = baseDamage * calculateMomentumMultiplier(player.linearVelocity, facingDirection);
+ */
+export function calculateMomentumMultiplier(velocity: Vector3Like, attackDirection: Vector3Like): number {
+  const horizontalSpeed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+
+  // More damage for faster movement
+  const momentumMultiplier = Math.min(
+    MOMENTUM_CONFIG.MAX_MOMENTUM_MULTIPLIER,
+    1.0 + horizontalSpeed / MOMENTUM_CONFIG.VELOCITY_SCALE
+  );
+
+  // Less damage when swinging away from the direction of travel
+  let angleMultiplier = 1.0;
+  if (horizontalSpeed >= MOMENTUM_CONFIG.MIN_SPEED_FOR_ANGLE) {
+    const impactAngle = calculateHorizontalAngle(velocity, attackDirection);
+    angleMultiplier = Math.max(MOMENTUM_CONFIG.MIN_ANGLE_MULTIPLIER, 1.0 - Math.abs(impactAngle) / Math.PI);
+  }
+
+  // Falling strikes hit harder
+  let fallingMultiplier = 1.0;
+  const fallSpeed = -velocity.y;
+  if (fallSpeed >= MOMENTUM_CONFIG.FALLING_VELOCITY_THRESHOLD) {
+    fallingMultiplier = Math.min(
+      MOMENTUM_CONFIG.MAX_FALLING_MULTIPLIER,
+      1.0 + fallSpeed / MOMENTUM_CONFIG.FALLING_VELOCITY_SCALE
+    );
+  }
+
+  return momentumMultiplier * angleMultiplier * fallingMultiplier;
+}
+
+/**
+ * Calculates the angle between two vectors on the horizontal (XZ) plane.
+ * @returns The angle in radians, between 0 and PI (0 if either vector has no horizontal length)
+ */
+export function calculateHorizontalAngle(a: Vector3Like, b: Vector3Like): number {
+  const lengthA = Math.sqrt(a.x * a.x + a.z * a.z);
+  const lengthB = Math.sqrt(b.x * b.x + b.z * b.z);
+  if (lengthA === 0 || lengthB === 0) return 0;
+
+  const cos = (a.x * b.x + a.z * b.z) / (lengthA * lengthB);
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+}
+
+/**
+ * Gets the horizontal direction an entity is facing (its local -Z axis rotated by its rotation).
+ * @param entity The entity
+ * @returns The unit facing direction on the XZ plane, or -Z when the entity faces straight up or down
+ */
+export function getFacingDirection(entity: Entity): Vector3Like {
+  const { x, y, z, w } = entity.rotation;
+  const forward = { x: -2 * (x * z + w * y), y: 0, z: -(1 - 2 * (x * x + y * y)) };
+  const length = Math.sqrt(forward.x ** 2 + forward.z ** 2);
+  return length === 0 ? { x: 0, y: 0, z: -1 } : { x: forward.x / length, y: 0, z: forward.z / length };
+}
+
+/**
+ * Calculates the straight-line distance between two points.
+ */
+export function distanceBetween(a: Vector3Like, b: Vector3Like): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
 /**
  * Applies an impulse force to an entity
  * @param entity The entity to apply force to
@@ -5,12 +5,25 @@
 
 // Import necessary types
 import { PlayerEntityController, PlayerInput, PlayerEntity, PlayerCameraOrientation, Vector3, RaycastHit, Player, World } from 'hytopia'; // Added missing imports
-import { canPlayerDash, performDash, playerStates } from './playerController';
-import { applyDamage } from '../combat/combatSystem';
+import { playerStates } from './playerController';
+import { isPlayerAlive } from './player-death';
+import { StatusEffectManager } from '../combat/status-effect-manager';
+import { rollCritical } from '../combat/damage-pipeline';
+import { DamageType } from '../combat/damage-types';
+import { processWeaponHit } from '../combat/combatSystem';
+import { findMeleeTargets } from '../combat/melee-detection';
+import { isThrowable, throwGrenade } from '../combat/ranged-weapons';
+import { InputActionManager } from './input-actions';
+import { PerceptionManager } from '../ai/perception/perception-manager';
+import { PERCEPTION_CONFIG } from '../constants/ai-config';
+import { InventoryManager } from './inventory-manager';
 import { CraftingTableEntity } from '../crafting/entities/crafting-table'; // Import CraftingTableEntity
 import { BLOCK_TYPES } from '../constants/block-types'; // Import block type constants
 
 export class CyberCrawlerController extends PlayerEntityController {
+  // Unmodified movement speeds, captured on the first tick so status effects can scale them
+  private baseWalkVelocity?: number;
+  private baseRunVelocity?: number;
 
   /**
    * Called every tick with the player's current input state.
@@ -20,39 +33,57 @@ export class CyberCrawlerController extends PlayerEntityController {
    * @param dt Delta time since the last tick (milliseconds).
    */
   tickWithPlayerInput(entity: PlayerEntity, input: PlayerInput, cameraOrientation: PlayerCameraOrientation, dt: number): void {
+    const modifiers = StatusEffectManager.instance.getModifiers(entity);
+    this.applySpeedMultiplier(modifiers.speedMultiplier);
+
+    // Dead or stunned players cannot move or act
+    if ((entity?.player && !isPlayerAlive(entity.player.id)) || modifiers.stunned) {
+      this.clearInput(input);
+      super.tickWithPlayerInput(entity, input, cameraOrientation, dt);
+      return;
+    }
+
     // Ensure default movement logic runs first
     super.tickWithPlayerInput(entity, input, cameraOrientation, dt);
 
-    // Add custom dash logic
+    // Sprinting is loud enough for nearby enemies to hear
+    if (input.sh && (input.w || input.a || input.s || input.d)) {
+      PerceptionManager.instance.reportNoise(entity, PERCEPTION_CONFIG.NOISE_RADIUS.SPRINT);
+    }
+
+    // Dispatch named actions (attack, dash, interact, ...) to their subscribers.
+    // Handlers are registered in player-actions.ts.
     if (!entity || !entity.player) return; // Safety check
+    InputActionManager.instance.processInput(entity, input, cameraOrientation);
+  }
 
-    const playerId = entity.player.id;
+  /**
+   * Scales walk and run velocity by the player's status effect speed multiplier.
+   * @param multiplier Combined speed multiplier from active effects.
+   */
+  private applySpeedMultiplier(multiplier: number): void {
+    const baseWalkVelocity: number = (this.baseWalkVelocity ??= this.walkVelocity);
+    const baseRunVelocity: number = (this.baseRunVelocity ??= this.runVelocity);
+    this.walkVelocity = baseWalkVelocity * multiplier;
+    this.runVelocity = baseRunVelocity * multiplier;
+  }
 
-    // Handle dash ability on right-click (using abbreviated key 'mr')
-    if (input.mr && canPlayerDash(playerId)) {
-      performDash(entity);
-      const state = playerStates.get(playerId);
-      if (state) {
-        state.lastDashTime = Date.now();
+  /**
+   * Releases every pressed key so neither movement nor any input action
+   * acts on the input this tick.
+   * @param input The player's input state for this tick.
+   */
+  private clearInput(input: PlayerInput): void {
+    const raw = input as Record<string, boolean | undefined>;
+    for (const key of Object.keys(raw)) {
+      if (typeof raw[key] === 'boolean') {
+        raw[key] = false;
       }
-      input.mr = false; // Consume input
-    }
-
-    // Handle melee attack on left-click (using abbreviated key 'ml')
-    if (input.ml) {
-      this.performMeleeAttack(entity);
-      input.ml = false; // Consume input
-    }
-
-    // Handle interaction on 'E' key press (using abbreviated key 'e')
-    if (input.e) {
-      this.performInteractionCheck(entity); // Removed cameraOrientation as it wasn't used
-      input.e = false; // Consume input
     }
   }
 
   /**
-   * Performs a melee attack using a raycast.
+   * Performs an unarmed melee attack using an arc sweep.
    * Checks cooldown, performs hit detection, applies damage, and provides feedback.
    * @param entity The player entity performing the attack.
    * @returns boolean indicating if attack hit a target
@@ -68,7 +99,7 @@ export class CyberCrawlerController extends PlayerEntityController {
     }
 
     // Import combat constants and playerStates lazily to avoid circular deps
-    const { MELEE_ATTACK_RANGE, MELEE_ATTACK_DAMAGE, MELEE_ATTACK_COOLDOWN_MS } = require('../constants/combat-config');
+    const { MELEE_ATTACK_RANGE, MELEE_ATTACK_DAMAGE, MELEE_ATTACK_COOLDOWN_MS, CRITICAL_HIT_CHANCE, MELEE_ATTACK_ARC_DEGREES, UNARMED_MAX_TARGETS } = require('../constants/combat-config');
     const { playerStates } = require('./playerController');
 
     const state = playerStates.get(player.id);
@@ -91,36 +122,26 @@ export class CyberCrawlerController extends PlayerEntityController {
       return false;
     }
 
-    const raycastResult = world.simulation.raycast(
-      origin,
-      direction,
-      MELEE_ATTACK_RANGE,
-      { filterExcludeRigidBody: entity.rawRigidBody }
-    );
-
-    console.log('Melee raycast result:', raycastResult);
+    // Sweep the unarmed strike's arc for targets
+    const { entities } = findMeleeTargets(entity, direction, {
+      range: MELEE_ATTACK_RANGE,
+      arcDegrees: MELEE_ATTACK_ARC_DEGREES,
+      maxTargets: UNARMED_MAX_TARGETS,
+    });
 
     let hit = false;
 
-    if (raycastResult?.hitEntity && raycastResult.hitEntity.id !== entity.id) {
-      const target = raycastResult.hitEntity;
-      applyDamage(target, MELEE_ATTACK_DAMAGE);
-
-      // Feedback: chat message
-      world.chatManager.sendPlayerMessage(player, `Hit entity ${target.id} for ${MELEE_ATTACK_DAMAGE} damage`, 'FF0000');
+    for (const target of entities) {
+      // Damage scales with the player's momentum and approach angle
+      const event = processWeaponHit(entity, target, MELEE_ATTACK_DAMAGE, direction, {
+        type: DamageType.KINETIC,
+        isCritical: rollCritical(CRITICAL_HIT_CHANCE),
+      });
 
-      // Optional: tint target briefly
-      try {
-        target.setTintColor?.({ r: 255, g: 0, b: 0 });
-        setTimeout(() => {
-          target.setTintColor?.({ r: 255, g: 255, b: 255 });
-        }, 200);
-      } catch {}
-
-      hit = true;
-    } else {
-      // Miss feedback (optional)
-      // world.chatManager.sendPlayerMessage(player, 'Missed attack', 'AAAAAA');
+      if (event) {
+        // Feedback is shown by the floating damage numbers and the combat log
+        hit = true;
+      }
     }
 
     // Play attack animation on player
@@ -128,9 +149,33 @@ export class CyberCrawlerController extends PlayerEntityController {
       entity.startModelOneshotAnimations(['attack']);
     } catch {}
 
+    // Let nearby enemies hear the swing
+    PerceptionManager.instance.reportNoise(entity, PERCEPTION_CONFIG.NOISE_RADIUS.MELEE_SWING);
+
     return hit;
   }
 
+  /**
+   * Throws the first throwable in the player's inventory and consumes it.
+   * @param entity The player entity throwing.
+   * @returns boolean indicating if an item was thrown
+   */
+  performThrow(entity: PlayerEntity): boolean {
+    const player = entity.player;
+    const direction = player?.camera?.facingDirection;
+    if (!player || !direction) return false;
+
+    const state = playerStates.get(player.id);
+    const itemId = state?.inventory.find(item => isThrowable(item.itemId) && item.quantity > 0)?.itemId;
+    if (!itemId || !throwGrenade(entity, itemId, direction)) return false;
+
+    InventoryManager.instance.removeItems(player.id, [{ itemId, quantity: 1 }]);
+    try {
+      entity.startModelOneshotAnimations(['simple_interact']);
+    } catch {}
+    return true;
+  }
+
   /**
    * Performs a raycast check for player interaction with blocks and entities.
    * @param entity The player entity performing the check.
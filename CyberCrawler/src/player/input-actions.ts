@@ -0,0 +1,206 @@
+/**
+ * Input Actions - Maps raw PlayerInput keys to named actions
+ *
+ * Systems subscribe to actions (attack, dash, interact, ...) instead of reading
+ * raw input. Each player has their own bindings, which default to
+ * DEFAULT_INPUT_BINDINGS and can be rebound at runtime. When a bound key is
+ * pressed, the action fires and the key is consumed so it fires exactly once;
+ * a handler that returns false leaves the key held (e.g., dash on cooldown), so
+ * the action fires again next tick until it succeeds or the key is released.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (PlayerEntity, PlayerInput, PlayerCameraOrientation)
+ * - Default bindings from ../constants/input-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { PlayerCameraOrientation, PlayerEntity, PlayerInput } from 'hytopia';
+
+// Project modules
+import { BINDABLE_KEYS, DEFAULT_INPUT_BINDINGS } from '../constants/input-config';
+
+/**
+ * Named input actions.
+ */
+export enum InputAction {
+  ATTACK = 'attack',
+  DASH = 'dash',
+  INTERACT = 'interact',
+  USE_ITEM = 'use-item',
+  USE_CONSUMABLE = 'use-consumable',
+  TAUNT = 'taunt',
+  RELOAD = 'reload',
+  BLOCK = 'block',
+  TOGGLE_INVENTORY = 'toggle-inventory',
+  TOGGLE_DEBUG = 'toggle-debug',
+  HOTBAR_1 = 'hotbar-1',
+  HOTBAR_2 = 'hotbar-2',
+  HOTBAR_3 = 'hotbar-3',
+  HOTBAR_4 = 'hotbar-4',
+  HOTBAR_5 = 'hotbar-5',
+  HOTBAR_6 = 'hotbar-6',
+  HOTBAR_7 = 'hotbar-7',
+  HOTBAR_8 = 'hotbar-8',
+  HOTBAR_9 = 'hotbar-9',
+}
+
+export const HOTBAR_ACTIONS: InputAction[] = [
+  InputAction.HOTBAR_1, InputAction.HOTBAR_2, InputAction.HOTBAR_3,
+  InputAction.HOTBAR_4, InputAction.HOTBAR_5, InputAction.HOTBAR_6,
+  InputAction.HOTBAR_7, InputAction.HOTBAR_8, InputAction.HOTBAR_9,
+];
+
+/**
+ * Context passed to action handlers.
+ */
+export interface InputActionContext {
+  entity: PlayerEntity;
+  action: InputAction;
+  cameraOrientation?: PlayerCameraOrientation;
+}
+
+/**
+ * Handles an action. Returning false means the press was not used and the key is left unconsumed.
+ */
+export type InputActionHandler = (context: InputActionContext) => boolean | void;
+
+export class InputActionManager {
+  private static _instance: InputActionManager;
+  private bindings: Map<string, Map<InputAction, string>> = new Map(); // playerId -> action -> key
+  private handlers: Map<InputAction, InputActionHandler[]> = new Map();
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the InputActionManager.
+   */
+  public static get instance(): InputActionManager {
+    if (!InputActionManager._instance) {
+      InputActionManager._instance = new InputActionManager();
+    }
+    return InputActionManager._instance;
+  }
+
+  /**
+   * Subscribes to an action.
+   * @param action The action to listen for
+   * @param handler Called once per press with the acting player entity
+   * @returns A function that removes the subscription
+   */
+  public on(action: InputAction, handler: InputActionHandler): () => void {
+    const list = this.handlers.get(action) ?? [];
+    list.push(handler);
+    this.handlers.set(action, list);
+
+    return () => {
+      const current = this.handlers.get(action);
+      if (current) {
+        this.handlers.set(action, current.filter(h => h !== handler));
+      }
+    };
+  }
+
+  /**
+   * Reads the player's bound keys, consumes pressed ones and dispatches their actions.
+   * Should be called once per tick from the player controller.
+   * @param entity The player entity
+   * @param input The player's input state for this tick
+   * @param cameraOrientation The player's camera orientation
+   */
+  public processInput(entity: PlayerEntity, input: PlayerInput, cameraOrientation?: PlayerCameraOrientation): void {
+    const playerId = entity.player?.id;
+    if (!playerId) return;
+
+    const raw = input as Record<string, boolean | undefined>;
+    for (const [action, key] of this.getBindingMap(playerId)) {
+      if (!raw[key]) continue;
+      if (this.dispatch({ entity, action, cameraOrientation })) {
+        raw[key] = false; // Consume so the action fires exactly once per press
+      }
+    }
+  }
+
+  /**
+   * Binds an action to a different key for one player.
+   * Any other action bound to the same key is swapped onto the action's old key.
+   * @param playerId The ID of the player
+   * @param action The action to rebind
+   * @param key The new PlayerInput key
+   * @returns True if the binding was changed
+   */
+  public rebind(playerId: string, action: InputAction, key: string): boolean {
+    if (!BINDABLE_KEYS.includes(key)) return false;
+
+    const map = this.getBindingMap(playerId);
+    const previousKey = map.get(action);
+    for (const [otherAction, otherKey] of map) {
+      if (otherAction !== action && otherKey === key && previousKey) {
+        map.set(otherAction, previousKey);
+      }
+    }
+    map.set(action, key);
+    return true;
+  }
+
+  /**
+   * Restores a player's default bindings.
+   */
+  public resetBindings(playerId: string): void {
+    this.bindings.delete(playerId);
+  }
+
+  /**
+   * Gets a player's current bindings.
+   * @param playerId The ID of the player
+   * @returns A copy of the action -> key bindings
+   */
+  public getBindings(playerId: string): { [action: string]: string } {
+    return Object.fromEntries(this.getBindingMap(playerId));
+  }
+
+  /**
+   * Drops a player's bindings (e.g., when they leave).
+   */
+  public removePlayer(playerId: string): void {
+    this.bindings.delete(playerId);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private getBindingMap(playerId: string): Map<InputAction, string> {
+    let map = this.bindings.get(playerId);
+    if (!map) {
+      map = new Map(Object.entries(DEFAULT_INPUT_BINDINGS) as [InputAction, string][]);
+      this.bindings.set(playerId, map);
+    }
+    return map;
+  }
+
+  /**
+   * @returns False only if every handler declined the press
+   */
+  private dispatch(context: InputActionContext): boolean {
+    const handlers = this.handlers.get(context.action) ?? [];
+    let handled = handlers.length === 0;
+    for (const handler of handlers) {
+      try {
+        if (handler(context) !== false) handled = true;
+      } catch (error) {
+        console.error(`[InputActionManager] Error handling action "${context.action}":`, error);
+        handled = true;
+      }
+    }
+    return handled;
+  }
+}
+
+/**
+ * Checks whether a string names an input action.
+ */
+export function isInputAction(value: string): value is InputAction {
+  return (Object.values(InputAction) as string[]).includes(value);
+}
@@ -0,0 +1,140 @@
+/**
+ * Player Actions - Gameplay handlers for named input actions
+ *
+ * Subscribes the player's core abilities to the InputActionManager:
+ * attack (equipped weapon or unarmed strike), dash, interact, use-item
+ * (throwables), use-consumable (healing items and buffs), taunt, reload (energy weapons), block (raise/lower the shield)
+ * and hotbar slots (equip the Nth weapon carried).
+ * UI actions (toggle-inventory, toggle-debug) are subscribed in index.ts.
+ *
+ * Dependencies:
+ * - InputActionManager from ./input-actions
+ * - CyberCrawlerController abilities, dash and equipment helpers
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { PlayerEntity } from 'hytopia';
+
+// Project modules
+import { HOTBAR_ACTIONS, InputAction, InputActionManager } from './input-actions';
+import { CyberCrawlerController } from './cyberCrawlerController';
+import { canPlayerDash, performDash, getPlayerState } from './playerController';
+import { equipWeapon, getEquippedWeapon } from './player-equipment';
+import { isWeapon } from '../combat/weapon-registry';
+import { ThreatManager } from '../combat/threat-manager';
+import { WeaponResourceManager } from '../combat/weapon-resources';
+import { sendInventoryUpdate } from '../ui/handlers/inventory-ui-handler';
+import { BlockManager } from '../combat/block-manager';
+import { toggleBlock } from './player-shield';
+import { useConsumable } from './player-consumables';
+
+let registered = false;
+
+/**
+ * Registers the gameplay action handlers. Should be called once at server start.
+ */
+export function registerPlayerActionHandlers(): void {
+  if (registered) return;
+  registered = true;
+
+  const actions = InputActionManager.instance;
+
+  // Attack with the equipped weapon, otherwise an unarmed melee strike (not while blocking)
+  actions.on(InputAction.ATTACK, ({ entity }) => {
+    if (BlockManager.instance.isBlocking(entity)) return;
+
+    const weapon = getEquippedWeapon(entity.player.id);
+    if (weapon) {
+      weapon.attack();
+    } else {
+      getController(entity)?.performMeleeAttack(entity);
+    }
+  });
+
+  actions.on(InputAction.DASH, ({ entity }) => {
+    const playerId = entity.player.id;
+    if (!canPlayerDash(playerId)) return false; // Keep the key so the dash fires once the cooldown ends
+
+    performDash(entity);
+    const state = getPlayerState(playerId);
+    if (state) {
+      state.lastDashTime = Date.now();
+    }
+  });
+
+  actions.on(InputAction.INTERACT, ({ entity }) => {
+    getController(entity)?.performInteractionCheck(entity);
+  });
+
+  // Throw the first throwable carried (e.g., EMP grenade)
+  actions.on(InputAction.USE_ITEM, ({ entity }) => {
+    getController(entity)?.performThrow(entity);
+  });
+
+  // Use the first useful consumable carried (healing items, stims)
+  actions.on(InputAction.USE_CONSUMABLE, ({ entity }) => {
+    const itemId = useConsumable(entity);
+    entity.world?.chatManager.sendPlayerMessage(
+      entity.player,
+      itemId ? `Used ${itemId.replace(/_/g, ' ')}.` : 'No consumable to use.',
+      itemId ? '00FF00' : 'AAAAAA'
+    );
+  });
+
+  // Draw the attention of nearby enemies (see ThreatManager)
+  actions.on(InputAction.TAUNT, ({ entity }) => {
+    const cooldownMs = ThreatManager.instance.getTauntCooldownRemaining(entity);
+    if (cooldownMs > 0) {
+      entity.world?.chatManager.sendPlayerMessage(entity.player, `Taunt ready in ${Math.ceil(cooldownMs / 1000)}s.`, 'FFFF00');
+      return;
+    }
+
+    const taunted = ThreatManager.instance.taunt(entity);
+    entity.world?.chatManager.sendPlayerMessage(
+      entity.player,
+      taunted > 0 ? `Taunted ${taunted} enem${taunted === 1 ? 'y' : 'ies'}!` : 'No enemies in range to taunt.',
+      taunted > 0 ? 'FF6600' : 'AAAAAA'
+    );
+  });
+
+  // Refill the equipped weapon's energy from energy cells in the inventory
+  actions.on(InputAction.RELOAD, ({ entity }) => {
+    const weapon = getEquippedWeapon(entity.player.id);
+    if (!weapon?.definition.energy) return;
+
+    const cells = WeaponResourceManager.instance.reload(entity, weapon.definition);
+    if (cells > 0) {
+      entity.world?.chatManager.sendPlayerMessage(entity.player, `Reloaded ${weapon.definition.name} (${cells} energy cell${cells === 1 ? '' : 's'}).`, '00FFFF');
+      sendInventoryUpdate(entity.player);
+    } else if ((WeaponResourceManager.instance.getStatus(entity, weapon.definition).energy ?? 0) < weapon.definition.energy.capacity) {
+      entity.world?.chatManager.sendPlayerMessage(entity.player, 'No energy cells to reload with.', 'FF0000');
+    }
+  });
+
+  // Press to raise the shield (opening the parry window), press again to lower it
+  actions.on(InputAction.BLOCK, ({ entity }) => {
+    toggleBlock(entity);
+  });
+
+  // Hotbar N equips the Nth weapon in the inventory
+  HOTBAR_ACTIONS.forEach((action, index) => {
+    actions.on(action, ({ entity }) => {
+      const weaponIds = (getPlayerState(entity.player.id)?.inventory ?? [])
+        .map(item => item.itemId)
+        .filter((itemId, i, all) => isWeapon(itemId) && all.indexOf(itemId) === i);
+
+      const itemId = weaponIds[index];
+      if (itemId) {
+        equipWeapon(entity, itemId);
+      }
+    });
+  });
+
+  console.log('[PlayerActions] Action handlers registered.');
+}
+
+function getController(entity: PlayerEntity): CyberCrawlerController | undefined {
+  return entity.controller instanceof CyberCrawlerController ? entity.controller : undefined;
+}
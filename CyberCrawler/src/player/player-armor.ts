@@ -0,0 +1,206 @@
+/**
+ * Player Armor - Wearing armor, resistances and durability
+ *
+ * Armor pieces are inventory items with an ArmorDefinition in the armor registry.
+ * Each equipment slot (helmet, chest, pants, boots) holds one piece; the worn item
+ * IDs are stored on the player state. The resistances of all worn pieces add up
+ * and are applied by the damage pipeline's mitigation step. Worn pieces lose
+ * durability as they absorb hits and are destroyed when it runs out.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK PlayerEntity, Player
+ * - Armor registry from ../combat/armor-registry
+ * - Damage pipeline hooks from ../combat/damage-pipeline
+ * - InventoryManager and player state helpers
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Player, PlayerEntity } from 'hytopia';
+
+// Project modules
+import { getArmorDefinition } from '../combat/armor-registry';
+import { ArmorDefinition, ArmorSlot } from '../combat/armor-types';
+import { onPostDamage } from '../combat/damage-pipeline';
+import { DamageEvent, DamageType, Resistances } from '../combat/damage-types';
+import { InventoryManager } from './inventory-manager';
+import { getPlayerState } from './playerController';
+import { sendInventoryUpdate } from '../ui/handlers/inventory-ui-handler';
+import { ARMOR_CONFIG } from '../constants/combat-config';
+
+let durabilityRegistered = false;
+
+/**
+ * Gets the armor a player is wearing in each slot.
+ * Pieces no longer in the inventory (e.g., lost on death) are ignored.
+ * @param playerId The ID of the player
+ * @returns Slot -> worn armor definition
+ */
+export function getWornArmor(playerId: string): Map<ArmorSlot, ArmorDefinition> {
+  const worn = new Map<ArmorSlot, ArmorDefinition>();
+  const state = getPlayerState(playerId);
+  if (!state) return worn;
+
+  for (const [slot, itemId] of Object.entries(state.equippedArmor)) {
+    const definition = getArmorDefinition(itemId);
+    if (definition && InventoryManager.instance.getItemCount(playerId, itemId) > 0) {
+      worn.set(slot as ArmorSlot, definition);
+    }
+  }
+  return worn;
+}
+
+/**
+ * Gets the combined resistances of a player's worn armor.
+ * @param playerId The ID of the player
+ * @returns Summed resistances per damage type (clamped later by the pipeline)
+ */
+export function getPlayerResistances(playerId: string): Resistances {
+  const resistances: Resistances = {};
+  for (const armor of getWornArmor(playerId).values()) {
+    for (const [type, value] of Object.entries(armor.resistances) as [DamageType, number][]) {
+      resistances[type] = (resistances[type] ?? 0) + value;
+    }
+  }
+  return resistances;
+}
+
+/**
+ * Gets the remaining durability of a worn armor item.
+ * @param playerId The ID of the player
+ * @param itemId The armor's item ID
+ * @returns Remaining durability (max durability if the piece is undamaged)
+ */
+export function getArmorDurability(playerId: string, itemId: string): number {
+  const state = getPlayerState(playerId);
+  return state?.armorDurability[itemId] ?? getArmorDefinition(itemId)?.maxDurability ?? 0;
+}
+
+/**
+ * Wears an armor piece from the player's inventory, replacing the piece in its slot.
+ * @param entity The player entity
+ * @param itemId Item ID of the armor to wear
+ * @returns True if the armor was equipped
+ */
+export function equipArmor(entity: PlayerEntity, itemId: string): boolean {
+  const playerId = entity.player.id;
+  const state = getPlayerState(playerId);
+  const definition = getArmorDefinition(itemId);
+  if (!state || !definition) return false;
+
+  if (InventoryManager.instance.getItemCount(playerId, itemId) <= 0) {
+    console.warn(`[PlayerArmor] Player ${playerId} tried to equip ${itemId} without owning it.`);
+    return false;
+  }
+
+  state.equippedArmor[definition.slot] = itemId;
+  console.log(`[PlayerArmor] Player ${playerId} equipped ${itemId} (${definition.slot}).`);
+  return true;
+}
+
+/**
+ * Removes the armor worn in a slot, leaving the item in the inventory.
+ * @param entity The player entity
+ * @param slot The slot to clear
+ */
+export function unequipArmor(entity: PlayerEntity, slot: ArmorSlot): void {
+  const state = getPlayerState(entity.player.id);
+  if (state) {
+    delete state.equippedArmor[slot];
+  }
+}
+
+/**
+ * Registers the post-damage hook that wears down armor. Should be called once at server start.
+ */
+export function registerArmorDurability(): void {
+  if (durabilityRegistered) return;
+  durabilityRegistered = true;
+
+  onPostDamage(event => wearDownArmor(event));
+}
+
+/**
+ * Handles armor equip/unequip requests sent from the inventory UI.
+ * @param player The player that sent the event
+ * @param entity The player's entity
+ * @param data The UI event data
+ * @returns True if the event was an armor event
+ */
+export function handleArmorUIEvent(player: Player, entity: PlayerEntity, data: any): boolean {
+  if (data?.type === 'equip-armor-request' && typeof data.itemId === 'string') {
+    const equipped = equipArmor(entity, data.itemId);
+    const name = getArmorDefinition(data.itemId)?.name ?? data.itemId;
+    entity.world?.chatManager.sendPlayerMessage(
+      player,
+      equipped ? `Equipped ${name}.` : `Cannot equip ${name}.`,
+      equipped ? '00FF00' : 'FF0000'
+    );
+    sendInventoryUpdate(player);
+    return true;
+  }
+
+  if (data?.type === 'unequip-armor-request' && Object.values(ArmorSlot).includes(data.slot)) {
+    unequipArmor(entity, data.slot);
+    sendInventoryUpdate(player);
+    return true;
+  }
+
+  return false;
+}
+
+// ====================================
+// Internal helpers
+// ====================================
+
+/**
+ * Reduces the durability of every worn piece that helped absorb a hit.
+ * The absorbed damage is shared between pieces by their resistance to the hit's type.
+ */
+function wearDownArmor(event: DamageEvent): void {
+  const target = event.target;
+  if (!(target instanceof PlayerEntity) || event.isPeriodic || event.mitigatedAmount <= 0) return;
+
+  const playerId = target.player.id;
+  const state = getPlayerState(playerId);
+  if (!state) return;
+
+  const contributing = Array.from(getWornArmor(playerId).values())
+    .filter(armor => (armor.resistances[event.type] ?? 0) > 0);
+  const totalResistance = contributing.reduce((sum, armor) => sum + (armor.resistances[event.type] ?? 0), 0);
+
+  for (const armor of contributing) {
+    const share = (armor.resistances[event.type] ?? 0) / totalResistance;
+    const loss = ARMOR_CONFIG.DURABILITY_LOSS_PER_HIT +
+      event.mitigatedAmount * share * ARMOR_CONFIG.DURABILITY_LOSS_PER_DAMAGE_ABSORBED;
+
+    const durability = getArmorDurability(playerId, armor.id) - loss;
+    if (durability > 0) {
+      state.armorDurability[armor.id] = durability;
+    } else {
+      breakArmor(target, armor);
+    }
+  }
+}
+
+/**
+ * Destroys one copy of a worn armor piece. The slot stays equipped if the
+ * player carries another copy (which starts at full durability).
+ */
+function breakArmor(entity: PlayerEntity, armor: ArmorDefinition): void {
+  const playerId = entity.player.id;
+  const state = getPlayerState(playerId);
+  if (!state) return;
+
+  InventoryManager.instance.removeItems(playerId, [{ itemId: armor.id, quantity: 1 }]);
+  delete state.armorDurability[armor.id];
+
+  if (InventoryManager.instance.getItemCount(playerId, armor.id) <= 0) {
+    unequipArmor(entity, armor.slot);
+  }
+
+  entity.world?.chatManager.sendPlayerMessage(entity.player, `Your ${armor.name} broke!`, 'FF6600');
+  sendInventoryUpdate(entity.player);
+  console.log(`[PlayerArmor] Player ${playerId}'s ${armor.id} broke.`);
+}
@@ -0,0 +1,74 @@
+/**
+ * Player Consumables - Using healing items and buffs from the inventory
+ *
+ * Consumable items are listed in CONSUMABLE_ITEMS: healing items restore health
+ * instantly (generating healing threat with nearby enemies), buffs apply their status effect (e.g., combat_stim, reflex_enhancer)
+ * through the StatusEffectManager. The use-consumable action uses the first
+ * consumable carried that would do something: healing items are skipped at full
+ * health.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK PlayerEntity
+ * - StatusEffectManager from ../combat/status-effect-manager
+ * - ThreatManager from ../combat/threat-manager (healing threat)
+ * - InventoryManager and player state/health helpers
+ * - CONSUMABLE_ITEMS from ../constants/status-effect-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { PlayerEntity } from 'hytopia';
+
+// Project modules
+import { StatusEffectManager } from '../combat/status-effect-manager';
+import { ThreatManager } from '../combat/threat-manager';
+import { InventoryManager } from './inventory-manager';
+import { getPlayerMaxHealth, getPlayerState, updatePlayerHealth } from './playerController';
+import { refreshPlayerHealthBar } from './player-health';
+import { isPlayerAlive } from './player-death';
+import { sendInventoryUpdate } from '../ui/handlers/inventory-ui-handler';
+import { CONSUMABLE_ITEMS } from '../constants/status-effect-config';
+
+/**
+ * Checks whether an item ID is a consumable.
+ */
+export function isConsumable(itemId: string): boolean {
+  return itemId in CONSUMABLE_ITEMS;
+}
+
+/**
+ * Uses one consumable from a player's inventory.
+ * @param entity The player entity
+ * @param itemId The item to use, or undefined for the first useful consumable carried
+ * @returns The ID of the item used, or undefined if nothing was used
+ */
+export function useConsumable(entity: PlayerEntity, itemId?: string): string | undefined {
+  const playerId = entity.player.id;
+  const state = getPlayerState(playerId);
+  if (!state || !isPlayerAlive(playerId)) return undefined;
+
+  const canUse = (id: string): boolean => {
+    const consumable = CONSUMABLE_ITEMS[id];
+    if (!consumable || InventoryManager.instance.getItemCount(playerId, id) <= 0) return false;
+    return !consumable.healing || state.health < getPlayerMaxHealth() || !!consumable.effectId;
+  };
+
+  const usedId = itemId ?? state.inventory.map(item => item.itemId).find(canUse);
+  if (!usedId || !canUse(usedId)) return undefined;
+  if (!InventoryManager.instance.removeItems(playerId, [{ itemId: usedId, quantity: 1 }])) return undefined;
+
+  const consumable = CONSUMABLE_ITEMS[usedId];
+  if (consumable.healing) {
+    const healthBefore = state.health;
+    const health = updatePlayerHealth(playerId, consumable.healing);
+    refreshPlayerHealthBar(entity, health);
+    ThreatManager.instance.addHealingThreat(entity, entity, health - healthBefore);
+  }
+  if (consumable.effectId) {
+    StatusEffectManager.instance.applyEffect(entity, consumable.effectId, entity);
+  }
+
+  sendInventoryUpdate(entity.player);
+  return usedId;
+}
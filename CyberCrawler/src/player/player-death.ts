@@ -0,0 +1,162 @@
+/**
+ * Player Death - Death, respawn and death penalty flow for players
+ *
+ * When a player's health reaches zero the player is marked dead, loses part of
+ * their inventory, sees the death screen and is respawned after a delay at the
+ * player house door (or the configured spawn position).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK PlayerEntity
+ * - Player state helpers from ./playerController
+ * - InventoryManager from ./inventory-manager
+ * - Player house helpers from ../utils/house-utils
+ * - PLAYER_CONFIG / PLAYER_DEATH_CONFIG from ../constants/world-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, PlayerEntity, Vector3Like } from 'hytopia';
+
+// Project modules
+import { getPlayerState, resetPlayerHealth } from './playerController';
+import { InventoryItem, InventoryManager } from './inventory-manager';
+import { refreshPlayerHealthBar } from './player-health';
+import { getResourceById } from '../crafting/resources/resource-database';
+import { StatusEffectManager } from '../combat/status-effect-manager';
+import { PoiseManager } from '../combat/poise-manager';
+import { PLAYER_CONFIG, PLAYER_DEATH_CONFIG } from '../constants/world-config';
+import { getPlayerHouseDoorPosition } from '../utils/house-utils';
+
+// ====================================
+// State queries
+// ====================================
+
+/**
+ * Checks whether a player is alive.
+ * @param playerId The ID of the player
+ * @returns True if the player has state and is not dead
+ */
+export function isPlayerAlive(playerId: string): boolean {
+  const state = getPlayerState(playerId);
+  return !!state && !state.isDead;
+}
+
+/**
+ * Checks whether an entity is a player that enemies may target.
+ * Dead players are ignored so enemies drop them as targets.
+ * @param entity The entity to check
+ * @returns True if the entity is a living, spawned player
+ */
+export function isTargetablePlayer(entity: Entity): entity is PlayerEntity {
+  return entity instanceof PlayerEntity && entity.isSpawned && isPlayerAlive(entity.player.id);
+}
+
+// ====================================
+// Death handling
+// ====================================
+
+/**
+ * Removes the configured fraction of each inventory stack.
+ * @param playerId The ID of the player
+ * @returns The items that were lost
+ */
+function applyDeathPenalty(playerId: string): InventoryItem[] {
+  const fraction = PLAYER_DEATH_CONFIG.INVENTORY_DROP_FRACTION;
+  const inventory = getPlayerState(playerId)?.inventory ?? [];
+  if (fraction <= 0) return [];
+
+  const lost: InventoryItem[] = inventory
+    .filter(item => !PLAYER_DEATH_CONFIG.PROTECTED_ITEM_IDS.includes(item.itemId))
+    .map(item => ({ itemId: item.itemId, quantity: Math.floor(item.quantity * fraction) }))
+    .filter(item => item.quantity > 0);
+
+  if (lost.length > 0) {
+    InventoryManager.instance.removeItems(playerId, lost);
+  }
+  return lost;
+}
+
+/**
+ * Puts a player into the dead state and schedules their respawn.
+ * Safe to call more than once; only the first call has an effect.
+ * @param entity The player entity that died
+ */
+export function handlePlayerDeath(entity: PlayerEntity): void {
+  const player = entity.player;
+  const state = getPlayerState(player.id);
+  if (!state || state.isDead) return;
+
+  state.isDead = true;
+  state.respawnTime = Date.now() + PLAYER_DEATH_CONFIG.RESPAWN_DELAY_MS;
+  console.log(`[PlayerDeath] Player ${player.id} died.`);
+
+  const lostItems = applyDeathPenalty(player.id);
+  StatusEffectManager.instance.clearEffects(entity);
+  PoiseManager.instance.resetPoise(entity);
+
+  try {
+    entity.setLinearVelocity({ x: 0, y: 0, z: 0 });
+    entity.setTintColor?.({ r: 80, g: 80, b: 80 });
+  } catch {}
+
+  player.ui.sendData({
+    type: 'player-death',
+    payload: {
+      respawnInMs: PLAYER_DEATH_CONFIG.RESPAWN_DELAY_MS,
+      lostItems: lostItems.map(item => ({
+        name: getResourceById(item.itemId)?.name || item.itemId,
+        quantity: item.quantity,
+      })),
+    },
+  });
+  entity.world?.chatManager.sendPlayerMessage(player, 'You have been killed!', 'FF0000');
+
+  setTimeout(() => respawnPlayer(entity), PLAYER_DEATH_CONFIG.RESPAWN_DELAY_MS);
+}
+
+// ====================================
+// Respawn handling
+// ====================================
+
+/**
+ * Determines where a player should respawn.
+ * @param entity The player entity
+ * @returns The respawn position
+ */
+function getRespawnPosition(entity: PlayerEntity): Vector3Like {
+  if (PLAYER_DEATH_CONFIG.RESPAWN_AT_HOUSE && entity.world) {
+    const door = getPlayerHouseDoorPosition(entity.world);
+    return { x: door.x, y: door.y + 1, z: door.z + PLAYER_DEATH_CONFIG.HOUSE_RESPAWN_OFFSET_Z };
+  }
+
+  const spawn = PLAYER_CONFIG.SPAWN_POSITION;
+  return { x: spawn.X, y: spawn.Y, z: spawn.Z };
+}
+
+/**
+ * Respawns a dead player with full health.
+ * Does nothing if the player left or is no longer dead.
+ * @param entity The player entity to respawn
+ */
+export function respawnPlayer(entity: PlayerEntity): void {
+  const player = entity.player;
+  const state = getPlayerState(player.id);
+  if (!state || !state.isDead || !entity.isSpawned) return;
+
+  const position = getRespawnPosition(entity);
+  entity.setPosition(position);
+  entity.setLinearVelocity({ x: 0, y: 0, z: 0 });
+
+  state.isDead = false;
+  state.respawnTime = 0;
+  const health = resetPlayerHealth(player.id);
+  refreshPlayerHealthBar(entity, health);
+
+  try {
+    entity.setTintColor?.({ r: 255, g: 255, b: 255 });
+  } catch {}
+
+  player.ui.sendData({ type: 'player-respawn', payload: { health } });
+  console.log(`[PlayerDeath] Player ${player.id} respawned at`, position);
+}
@@ -0,0 +1,142 @@
+/**
+ * Player Equipment - Equipping and unequipping crafted weapons
+ *
+ * Weapons are inventory items with a WeaponDefinition in the weapon registry.
+ * Equipping spawns a WeaponEntity from the definition and attaches it to the
+ * player; the equipped item ID is stored on the player's state. Only one weapon
+ * can be equipped at a time.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK PlayerEntity, Player
+ * - WeaponEntity from ../entities/weapon/weapon-entity
+ * - Weapon registry from ../combat/weapon-registry
+ * - InventoryManager and player state helpers
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Player, PlayerEntity } from 'hytopia';
+
+// Project modules
+import { WeaponEntity } from '../entities/weapon/weapon-entity';
+import { getWeaponDefinition, STARTER_WEAPON_ID } from '../combat/weapon-registry';
+import { InventoryManager } from './inventory-manager';
+import { getPlayerState } from './playerController';
+import { sendInventoryUpdate } from '../ui/handlers/inventory-ui-handler';
+
+// Spawned weapon entity per player ID
+const equippedWeapons: Map<string, WeaponEntity> = new Map();
+
+/**
+ * Gets the weapon entity a player currently holds.
+ * @param playerId The ID of the player
+ * @returns The equipped WeaponEntity, or undefined if unarmed
+ */
+export function getEquippedWeapon(playerId: string): WeaponEntity | undefined {
+  const weapon = equippedWeapons.get(playerId);
+  return weapon?.isSpawned ? weapon : undefined;
+}
+
+/**
+ * Equips a weapon from the player's inventory, replacing any equipped weapon.
+ * @param entity The player entity
+ * @param itemId Item ID of the weapon to equip
+ * @returns True if the weapon was equipped
+ */
+export function equipWeapon(entity: PlayerEntity, itemId: string): boolean {
+  const playerId = entity.player.id;
+  const state = getPlayerState(playerId);
+  const definition = getWeaponDefinition(itemId);
+  if (!state || !definition || !entity.world) return false;
+
+  if (InventoryManager.instance.getItemCount(playerId, itemId) <= 0) {
+    console.warn(`[PlayerEquipment] Player ${playerId} tried to equip ${itemId} without owning it.`);
+    return false;
+  }
+
+  unequipWeapon(entity);
+
+  try {
+    const weapon = new WeaponEntity(definition);
+    weapon.spawn(entity.world, { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0, w: 1 });
+    weapon.equip(entity);
+    equippedWeapons.set(playerId, weapon);
+    state.equippedWeaponId = itemId;
+  } catch (error) {
+    console.error(`[PlayerEquipment] Failed to equip ${itemId} for player ${playerId}:`, error);
+    return false;
+  }
+
+  console.log(`[PlayerEquipment] Player ${playerId} equipped ${itemId}.`);
+  return true;
+}
+
+/**
+ * Unequips the player's weapon, leaving the item in the inventory.
+ * @param entity The player entity
+ */
+export function unequipWeapon(entity: PlayerEntity): void {
+  const playerId = entity.player.id;
+  const weapon = equippedWeapons.get(playerId);
+  equippedWeapons.delete(playerId);
+
+  const state = getPlayerState(playerId);
+  if (state) state.equippedWeaponId = null;
+
+  if (weapon?.isSpawned) {
+    weapon.unequip();
+    weapon.despawn();
+  }
+}
+
+/**
+ * Gives a joining player the starter weapon and equips it.
+ * @param entity The player entity
+ */
+export function giveStarterWeapon(entity: PlayerEntity): void {
+  const playerId = entity.player.id;
+  if (InventoryManager.instance.getItemCount(playerId, STARTER_WEAPON_ID) <= 0) {
+    InventoryManager.instance.addItems(playerId, [{ itemId: STARTER_WEAPON_ID, quantity: 1 }]);
+  }
+  equipWeapon(entity, STARTER_WEAPON_ID);
+}
+
+/**
+ * Despawns a leaving player's weapon and forgets it.
+ * @param playerId The ID of the player
+ */
+export function cleanupPlayer(playerId: string): void {
+  const weapon = equippedWeapons.get(playerId);
+  equippedWeapons.delete(playerId);
+  if (weapon?.isSpawned) weapon.despawn();
+}
+
+/**
+ * Handles equip/unequip requests sent from the inventory UI.
+ * @param player The player that sent the event
+ * @param entity The player's entity
+ * @param data The UI event data
+ * @returns True if the event was an equipment event
+ */
+export function handleEquipmentUIEvent(player: Player, entity: PlayerEntity, data: any): boolean {
+  if (data?.type === 'equip-weapon-request' && typeof data.itemId === 'string') {
+    const equipped = equipWeapon(entity, data.itemId);
+    const name = getWeaponDefinition(data.itemId)?.name ?? data.itemId;
+    entity.world?.chatManager.sendPlayerMessage(
+      player,
+      equipped ? `Equipped ${name}.` : `Cannot equip ${name}.`,
+      equipped ? '00FF00' : 'FF0000'
+    );
+    sendInventoryUpdate(player);
+    return true;
+  }
+
+  if (data?.type === 'unequip-weapon-request') {
+    unequipWeapon(entity);
+    sendInventoryUpdate(player);
+    return true;
+  }
+
+  return false;
+}
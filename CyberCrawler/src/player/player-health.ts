@@ -0,0 +1,106 @@
+/**
+ * Player Health - Damageable adapter for player entities
+ *
+ * PlayerEntity is an SDK class, so players do not implement Damageable
+ * directly. This adapter maps DamageEvents onto the player's tracked state
+ * in playerStates and handles player-side hit feedback (tint, health bar).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK PlayerEntity, SceneUI
+ * - Player state helpers from ./playerController
+ * - Damage types from ../combat/damage-types
+ * - Worn armor resistances from ./player-armor
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { PlayerEntity, SceneUI } from 'hytopia';
+
+// Project modules
+import { Damageable, DamageEvent } from '../combat/damage-types';
+import { getPlayerMaxHealth, getPlayerState, updatePlayerHealth } from './playerController';
+import { handlePlayerDeath } from './player-death';
+import { getPlayerResistances } from './player-armor';
+import { HIT_EFFECT_DURATION_MS, POISE_CONFIG } from '../constants/combat-config';
+
+// Floating health bar SceneUI per player ID (created in index.ts)
+const playerHealthBars: Map<string, SceneUI> = new Map();
+
+/**
+ * Registers a player's floating health bar so damage and healing can update it.
+ * @param playerId The ID of the player
+ * @param healthBar The health bar SceneUI, or undefined to forget it (e.g., when the player leaves)
+ */
+export function setPlayerHealthBar(playerId: string, healthBar: SceneUI | undefined): void {
+  if (healthBar) {
+    playerHealthBars.set(playerId, healthBar);
+  } else {
+    playerHealthBars.delete(playerId);
+  }
+}
+
+/**
+ * Updates the player's floating health bar SceneUI, if one is registered.
+ * @param entity The player entity
+ * @param health The health value to display
+ */
+export function refreshPlayerHealthBar(entity: PlayerEntity, health: number): void {
+  try {
+    const playerHealthBar = playerHealthBars.get(entity.player.id);
+    if (playerHealthBar) {
+      // Resistances leave fractional health; show whole points
+      playerHealthBar.setState({ health: Math.ceil(health), maxHealth: getPlayerMaxHealth() });
+    }
+  } catch {}
+}
+
+/**
+ * Briefly tints the player red to signal a hit.
+ * @param entity The player entity
+ */
+function flashPlayerHit(entity: PlayerEntity): void {
+  try {
+    entity.setTintColor?.({ r: 255, g: 0, b: 0 });
+    setTimeout(() => {
+      entity.setTintColor?.({ r: 255, g: 255, b: 255 });
+    }, HIT_EFFECT_DURATION_MS);
+  } catch {}
+}
+
+/**
+ * Builds a Damageable view over a player entity's state.
+ * @param entity The player entity
+ * @returns A Damageable for the player, or null if the player has no state
+ */
+export function getPlayerDamageable(entity: PlayerEntity): Damageable | null {
+  const playerId = entity.player?.id;
+  if (!playerId || !getPlayerState(playerId)) return null;
+
+  return {
+    get health() {
+      return getPlayerState(playerId)?.health ?? 0;
+    },
+    get maxHealth() {
+      return getPlayerMaxHealth();
+    },
+    maxPoise: POISE_CONFIG.PLAYER_MAX_POISE,
+    get resistances() {
+      return getPlayerResistances(playerId);
+    },
+    isDead() {
+      const state = getPlayerState(playerId);
+      return !state || state.isDead || state.health <= 0;
+    },
+    takeDamage(event: DamageEvent) {
+      const newHealth = updatePlayerHealth(playerId, -event.amount);
+
+      flashPlayerHit(entity);
+      refreshPlayerHealthBar(entity, newHealth);
+
+      if (newHealth <= 0) {
+        handlePlayerDeath(entity);
+      }
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Player Shield - Equipping shields and blocking
+ *
+ * Shields are inventory items with a ShieldDefinition in the shield registry. A
+ * player holds at most one shield (the inventory UI's shield slot); the equipped
+ * item ID is stored on the player state. The block action raises or lowers the
+ * held shield through the BlockManager.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK PlayerEntity, Player
+ * - Shield registry from ../combat/shield-registry
+ * - BlockManager from ../combat/block-manager
+ * - InventoryManager and player state helpers
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Player, PlayerEntity } from 'hytopia';
+
+// Project modules
+import { BlockManager } from '../combat/block-manager';
+import { getShieldDefinition } from '../combat/shield-registry';
+import { ShieldDefinition } from '../combat/shield-types';
+import { InventoryManager } from './inventory-manager';
+import { getPlayerState } from './playerController';
+import { sendInventoryUpdate } from '../ui/handlers/inventory-ui-handler';
+
+/**
+ * Gets the shield a player holds.
+ * A shield no longer in the inventory (e.g., lost on death) is ignored.
+ * @param playerId The ID of the player
+ * @returns The shield definition, or undefined
+ */
+export function getEquippedShield(playerId: string): ShieldDefinition | undefined {
+  const itemId = getPlayerState(playerId)?.equippedShieldId;
+  if (!itemId || InventoryManager.instance.getItemCount(playerId, itemId) <= 0) return undefined;
+  return getShieldDefinition(itemId);
+}
+
+/**
+ * Equips a shield from the player's inventory, replacing any held shield.
+ * @param entity The player entity
+ * @param itemId Item ID of the shield
+ * @returns True if the shield was equipped
+ */
+export function equipShield(entity: PlayerEntity, itemId: string): boolean {
+  const playerId = entity.player.id;
+  const state = getPlayerState(playerId);
+  const definition = getShieldDefinition(itemId);
+  if (!state || !definition) return false;
+
+  if (InventoryManager.instance.getItemCount(playerId, itemId) <= 0) {
+    console.warn(`[PlayerShield] Player ${playerId} tried to equip ${itemId} without owning it.`);
+    return false;
+  }
+
+  state.equippedShieldId = itemId;
+  BlockManager.instance.setShield(entity, definition);
+  console.log(`[PlayerShield] Player ${playerId} equipped ${itemId}.`);
+  return true;
+}
+
+/**
+ * Puts the held shield away, leaving the item in the inventory.
+ * @param entity The player entity
+ */
+export function unequipShield(entity: PlayerEntity): void {
+  const state = getPlayerState(entity.player.id);
+  if (state) state.equippedShieldId = null;
+  BlockManager.instance.setShield(entity, undefined);
+}
+
+/**
+ * Raises or lowers the player's shield (the block action).
+ * Drops a shield that is no longer carried.
+ * @param entity The player entity
+ */
+export function toggleBlock(entity: PlayerEntity): void {
+  const shield = getEquippedShield(entity.player.id);
+  if (!shield) {
+    if (getPlayerState(entity.player.id)?.equippedShieldId) unequipShield(entity);
+    return;
+  }
+
+  BlockManager.instance.setShield(entity, shield);
+  BlockManager.instance.toggleShield(entity);
+}
+
+/**
+ * Handles shield equip/unequip requests sent from the inventory UI.
+ * @param player The player that sent the event
+ * @param entity The player's entity
+ * @param data The UI event data
+ * @returns True if the event was a shield event
+ */
+export function handleShieldUIEvent(player: Player, entity: PlayerEntity, data: any): boolean {
+  if (data?.type === 'equip-shield-request' && typeof data.itemId === 'string') {
+    const equipped = equipShield(entity, data.itemId);
+    const name = getShieldDefinition(data.itemId)?.name ?? data.itemId;
+    entity.world?.chatManager.sendPlayerMessage(
+      player,
+      equipped ? `Equipped ${name}.` : `Cannot equip ${name}.`,
+      equipped ? '00FF00' : 'FF0000'
+    );
+    sendInventoryUpdate(player);
+    return true;
+  }
+
+  if (data?.type === 'unequip-shield-request') {
+    unequipShield(entity);
+    sendInventoryUpdate(player);
+    return true;
+  }
+
+  return false;
+}
@@ -32,6 +32,12 @@ interface PlayerState {
   inventory: InventoryItem[]; // Use the specific InventoryItem type
   lastAttackTime: number; // Timestamp of last melee attack
   isAttacking: boolean;   // Whether player is currently attacking (for animation state)
+  isDead: boolean;        // True between death and respawn
+  respawnTime: number;    // Timestamp the player will respawn at (0 when alive)
+  equippedWeaponId: string | null; // Item ID of the equipped weapon (see player-equipment.ts)
+  equippedArmor: { [slot: string]: string }; // Armor slot -> worn item ID (see player-armor.ts)
+  armorDurability: { [itemId: string]: number }; // Remaining durability of damaged worn armor
+  equippedShieldId: string | null; // Item ID of the held shield (see player-shield.ts)
 }
 
 // Map to store player states - Exported for use in custom controller
@@ -82,6 +88,12 @@ export function setupPlayer(world: World, player: Player): void {
     inventory: [], // Initialize as empty array
     lastAttackTime: 0,
     isAttacking: false,
+    isDead: false,
+    respawnTime: 0,
+    equippedWeaponId: null,
+    equippedArmor: {},
+    armorDurability: {},
+    equippedShieldId: null,
   };
   playerStates.set(player.id, playerState);
 
@@ -238,6 +250,31 @@ export function getPlayerState(playerId: string): PlayerState | undefined {
   return playerStates.get(playerId);
 }
 
+/**
+ * Gets the maximum health a player can have
+ */
+export function getPlayerMaxHealth(): number {
+  return PLAYER_CONSTANTS.MAX_HEALTH;
+}
+
+/**
+ * Checks whether a player is an admin (listed in PLAYER_CONFIG.ADMIN_USERNAMES)
+ */
+export function isPlayerAdmin(player: Player): boolean {
+  return PLAYER_CONFIG.ADMIN_USERNAMES.includes(player.username);
+}
+
+/**
+ * Restores a player's health to full
+ */
+export function resetPlayerHealth(playerId: string): number {
+  const state = playerStates.get(playerId);
+  if (!state) return 0;
+
+  state.health = PLAYER_CONSTANTS.MAX_HEALTH;
+  return state.health;
+}
+
 /**
  * Updates a player's health
  */
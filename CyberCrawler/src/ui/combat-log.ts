@@ -0,0 +1,186 @@
+/**
+ * CombatLog - Per-player log of combat events
+ *
+ * Records damage dealt and taken, kills, deaths and status effects applied for
+ * every player and sends each entry to the player's combat log panel
+ * (#combat-log in ui/index.html). The server keeps the most recent entries so the
+ * panel can be refilled whenever the HUD is reloaded (e.g., after closing the inventory).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK Entity, Player, PlayerEntity
+ * - Damage pipeline hooks from ../combat/damage-pipeline
+ * - StatusEffectManager from ../combat/status-effect-manager
+ * - COMBAT_LOG_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Entity, Player, PlayerEntity } from 'hytopia';
+
+// Project modules
+import { onPostDamage, resolveDamageable } from '../combat/damage-pipeline';
+import { DamageEvent } from '../combat/damage-types';
+import { StatusEffectManager } from '../combat/status-effect-manager';
+import { StatusEffectDefinition } from '../combat/status-effect-types';
+import { COMBAT_LOG_CONFIG } from '../constants/combat-config';
+
+/**
+ * Kinds of combat log entries (used by the client for styling).
+ */
+export type CombatLogEntryKind = 'dealt' | 'taken' | 'kill' | 'death' | 'effect';
+
+/**
+ * A single line in a player's combat log.
+ */
+export interface CombatLogEntry {
+  kind: CombatLogEntryKind;
+  text: string;
+  amount?: number;
+  damageType?: string;
+  isCritical?: boolean;
+  isDebuff?: boolean;
+  timestamp: number;
+}
+
+export class CombatLog {
+  private static _instance: CombatLog;
+  private history: Map<string, CombatLogEntry[]> = new Map(); // playerId -> recent entries
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the CombatLog.
+   */
+  public static get instance(): CombatLog {
+    if (!CombatLog._instance) {
+      CombatLog._instance = new CombatLog();
+    }
+    return CombatLog._instance;
+  }
+
+  /**
+   * Subscribes to processed hits and applied status effects.
+   * Should be called once when the server starts, after the StatusEffectManager.
+   */
+  public initialize(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    onPostDamage(event => this.recordDamage(event));
+    StatusEffectManager.instance.onEffectApplied((entity, definition, source) =>
+      this.recordEffect(entity, definition, source)
+    );
+
+    console.log('[CombatLog] Initialized.');
+  }
+
+  /**
+   * Adds an entry to a player's log and sends it to their panel.
+   * @param player The player
+   * @param entry The entry to add (timestamp is filled in)
+   */
+  public addEntry(player: Player, entry: Omit<CombatLogEntry, 'timestamp'>): void {
+    const logged: CombatLogEntry = { ...entry, timestamp: Date.now() };
+
+    const entries = this.history.get(player.id) ?? [];
+    entries.push(logged);
+    if (entries.length > COMBAT_LOG_CONFIG.MAX_ENTRIES) {
+      entries.shift();
+    }
+    this.history.set(player.id, entries);
+
+    player.ui.sendData({ type: 'combat-log', payload: { entries: [logged], maxEntries: COMBAT_LOG_CONFIG.MAX_ENTRIES } });
+  }
+
+  /**
+   * Resends a player's recent entries, replacing the panel contents (e.g., after the HUD reloads).
+   */
+  public sendHistory(player: Player): void {
+    player.ui.sendData({
+      type: 'combat-log',
+      payload: { entries: this.history.get(player.id) ?? [], maxEntries: COMBAT_LOG_CONFIG.MAX_ENTRIES, replace: true },
+    });
+  }
+
+  /**
+   * Drops a player's log (e.g., when they leave).
+   */
+  public removePlayer(playerId: string): void {
+    this.history.delete(playerId);
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private recordDamage(event: DamageEvent): void {
+    if (event.amount <= 0) return;
+    if (event.isPeriodic && !COMBAT_LOG_CONFIG.LOG_PERIODIC_DAMAGE) {
+      // Damage-over-time ticks are only logged when they finish the target off
+      if (!resolveDamageable(event.target)?.isDead()) return;
+    }
+
+    const { source, target } = event;
+    const amount = Math.round(event.amount);
+    const crit = event.isCritical ? ' (critical)' : '';
+    const killed = !!resolveDamageable(target)?.isDead();
+
+    if (source instanceof PlayerEntity && source !== target) {
+      this.addEntry(source.player, {
+        kind: 'dealt',
+        text: `You hit ${getDisplayName(target)} for ${amount} ${event.type}${crit}`,
+        amount,
+        damageType: event.type,
+        isCritical: event.isCritical,
+      });
+      if (killed) {
+        this.addEntry(source.player, { kind: 'kill', text: `You killed ${getDisplayName(target)}` });
+      }
+    }
+
+    if (target instanceof PlayerEntity) {
+      const from = source && source !== target ? ` from ${getDisplayName(source)}` : '';
+      this.addEntry(target.player, {
+        kind: 'taken',
+        text: `You took ${amount} ${event.type}${from}${crit}`,
+        amount,
+        damageType: event.type,
+        isCritical: event.isCritical,
+      });
+      if (killed) {
+        this.addEntry(target.player, { kind: 'death', text: `You were killed${source && source !== target ? ` by ${getDisplayName(source)}` : ''}` });
+      }
+    }
+  }
+
+  private recordEffect(entity: Entity, definition: StatusEffectDefinition, source?: Entity): void {
+    if (entity instanceof PlayerEntity) {
+      const from = source && source !== entity ? ` (${getDisplayName(source)})` : '';
+      this.addEntry(entity.player, {
+        kind: 'effect',
+        text: `${definition.name} applied to you${from}`,
+        isDebuff: definition.isDebuff,
+      });
+    }
+
+    if (source instanceof PlayerEntity && source !== entity) {
+      this.addEntry(source.player, {
+        kind: 'effect',
+        text: `${definition.name} applied to ${getDisplayName(entity)}`,
+        isDebuff: definition.isDebuff,
+      });
+    }
+  }
+}
+
+/**
+ * Gets a readable name for an entity in log lines.
+ */
+function getDisplayName(entity: Entity): string {
+  if (entity instanceof PlayerEntity) return entity.player.username;
+  return entity.name || `entity ${entity.id}`;
+}
+
+export default CombatLog;
@@ -0,0 +1,145 @@
+/**
+ * DamageNumbers - Pooled floating damage numbers
+ *
+ * Shows a floating number at the hit point of every processed hit, styled on the
+ * client by damage type and critical flag (template 'damage-number' in ui/index.html).
+ * SceneUIs are loaded once into a fixed pool and recycled, so heavy fights do not
+ * create and destroy a SceneUI per hit.
+ *
+ * Dependencies:
+ * - HYTOPIA SDK SceneUI, World, WorldLoopEvent
+ * - Damage pipeline hooks from ../combat/damage-pipeline
+ * - DAMAGE_NUMBER_CONFIG from ../constants/combat-config
+ *
+ * @author CyberCrawler Team
+ */
+
+import { SceneUI, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+import { onPostDamage } from '../combat/damage-pipeline';
+import { DamageEvent } from '../combat/damage-types';
+import { DAMAGE_NUMBER_CONFIG } from '../constants/combat-config';
+
+interface PooledNumber {
+  sceneUI: SceneUI;
+  shownAt: number;
+  inUse: boolean;
+}
+
+export class DamageNumberPool {
+  private static _instance: DamageNumberPool;
+  private pool: PooledNumber[] = [];
+  private sequence: number = 0;
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the DamageNumberPool.
+   */
+  public static get instance(): DamageNumberPool {
+    if (!DamageNumberPool._instance) {
+      DamageNumberPool._instance = new DamageNumberPool();
+    }
+    return DamageNumberPool._instance;
+  }
+
+  /**
+   * Loads the pooled SceneUIs and subscribes to processed hits.
+   * Should be called once when the server starts.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    for (let i = 0; i < DAMAGE_NUMBER_CONFIG.POOL_SIZE; i++) {
+      const sceneUI = new SceneUI({
+        templateId: 'damage-number',
+        position: { x: 0, y: -1000, z: 0 },
+        state: { visible: false },
+        viewDistance: DAMAGE_NUMBER_CONFIG.VIEW_DISTANCE,
+      });
+      sceneUI.load(world);
+      this.pool.push({ sceneUI, shownAt: 0, inUse: false });
+    }
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.releaseExpired());
+    onPostDamage(event => this.showForEvent(event));
+
+    console.log(`[DamageNumberPool] Initialized with ${this.pool.length} damage numbers.`);
+  }
+
+  /**
+   * Shows a damage number at a position.
+   * @param position World position of the number
+   * @param amount Damage dealt
+   * @param type Damage type (client styles by type)
+   * @param isCritical Whether to use the critical style
+   */
+  public show(position: Vector3Like, amount: number, type: string, isCritical: boolean): void {
+    const entry = this.acquire();
+    if (!entry) return;
+
+    const jitter = DAMAGE_NUMBER_CONFIG.JITTER;
+    entry.sceneUI.setPosition({
+      x: position.x + (Math.random() - 0.5) * jitter * 2,
+      y: position.y,
+      z: position.z + (Math.random() - 0.5) * jitter * 2,
+    });
+    entry.sceneUI.setState({
+      visible: true,
+      amount: Math.round(amount),
+      type,
+      isCritical,
+      seq: ++this.sequence, // Lets the client restart its animation when a number is recycled
+    });
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  private showForEvent(event: DamageEvent): void {
+    if (event.amount <= 0 || !event.target.isSpawned) return;
+
+    const position = event.hitPoint ?? {
+      x: event.target.position.x,
+      y: event.target.position.y + DAMAGE_NUMBER_CONFIG.HEIGHT_OFFSET,
+      z: event.target.position.z,
+    };
+    this.show(position, event.amount, event.type, event.isCritical);
+  }
+
+  /**
+   * Takes a free number from the pool, recycling the oldest one if all are in use.
+   */
+  private acquire(): PooledNumber | undefined {
+    let entry = this.pool.find(candidate => !candidate.inUse);
+    if (!entry) {
+      entry = this.pool.reduce<PooledNumber | undefined>(
+        (oldest, candidate) => (!oldest || candidate.shownAt < oldest.shownAt ? candidate : oldest),
+        undefined
+      );
+    }
+    if (!entry) return undefined;
+
+    entry.inUse = true;
+    entry.shownAt = Date.now();
+    return entry;
+  }
+
+  /**
+   * Hides numbers whose display time is over and returns them to the pool.
+   */
+  private releaseExpired(): void {
+    const now = Date.now();
+    for (const entry of this.pool) {
+      if (entry.inUse && now - entry.shownAt >= DAMAGE_NUMBER_CONFIG.DISPLAY_MS) {
+        entry.inUse = false;
+        entry.sceneUI.setState({ visible: false });
+      }
+    }
+  }
+}
+
+export default DamageNumberPool;
@@ -5,11 +5,33 @@
  * Author: Cline (AI Assistant)
  */
 
+import { Player } from 'hytopia';
+import { getPlayerState } from '../../player/playerController';
+import { getResourceById } from '../../crafting/resources/resource-database';
+import { getWeaponDefinition, isWeapon } from '../../combat/weapon-registry';
+import { getArmorDefinition, isArmor } from '../../combat/armor-registry';
+import { getArmorDurability, getWornArmor } from '../../player/player-armor';
+import { getShieldDefinition, isShield } from '../../combat/shield-registry';
+import { getEquippedShield } from '../../player/player-shield';
+
 export interface InventoryItemData {
   id: string;
   name: string;
   quantity: number;
   iconReference?: string;
+  isWeapon?: boolean; // Weapons can be clicked to equip them
+  isArmor?: boolean;  // Armor can be clicked to wear it
+  isShield?: boolean; // Shields can be clicked to equip them
+  durability?: number;    // Remaining durability of worn armor
+  maxDurability?: number;
+}
+
+/**
+ * Payload of the 'update-inventory' UI event.
+ */
+export interface InventoryUIPayload {
+  inventory: InventoryItemData[];
+  equipment: { [slot: string]: InventoryItemData | undefined };
 }
 
 /**
@@ -29,7 +51,76 @@ export function prepareInventoryUIData(
       name: data.name,
       quantity: data.quantity,
       iconReference: data.iconReference,
+      isWeapon: isWeapon(id),
+      isArmor: isArmor(id),
+      isShield: isShield(id),
     });
   }
   return items;
 }
+
+/**
+ * Builds the full inventory UI payload (stacks merged by item, plus equipment).
+ * @param playerId The ID of the player
+ * @returns The payload for the 'update-inventory' event
+ */
+export function buildInventoryUIPayload(playerId: string): InventoryUIPayload {
+  const state = getPlayerState(playerId);
+  const inventoryMap = new Map<string, { name: string; quantity: number; iconReference?: string }>();
+
+  (state?.inventory ?? []).forEach(item => {
+    const existing = inventoryMap.get(item.itemId);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      const details = getResourceById(item.itemId) ?? getWeaponDefinition(item.itemId) ?? getArmorDefinition(item.itemId) ??
+        getShieldDefinition(item.itemId);
+      inventoryMap.set(item.itemId, {
+        name: details?.name || item.itemId,
+        quantity: item.quantity,
+        iconReference: details?.iconReference || '',
+      });
+    }
+  });
+
+  const weaponId = state?.equippedWeaponId;
+  const weapon = weaponId ? getWeaponDefinition(weaponId) : undefined;
+
+  const equipment: InventoryUIPayload['equipment'] = {
+    weapon: weapon
+      ? { id: weapon.id, name: weapon.name, quantity: 1, iconReference: weapon.iconReference, isWeapon: true }
+      : undefined,
+  };
+  const shield = getEquippedShield(playerId);
+  if (shield) {
+    equipment.shield = { id: shield.id, name: shield.name, quantity: 1, iconReference: shield.iconReference, isShield: true };
+  }
+  for (const [slot, armor] of getWornArmor(playerId)) {
+    equipment[slot] = {
+      id: armor.id,
+      name: armor.name,
+      quantity: 1,
+      iconReference: armor.iconReference,
+      isArmor: true,
+      durability: Math.ceil(getArmorDurability(playerId, armor.id)),
+      maxDurability: armor.maxDurability,
+    };
+  }
+
+  return {
+    inventory: prepareInventoryUIData(inventoryMap),
+    equipment,
+  };
+}
+
+/**
+ * Sends the player's current inventory and equipment to their UI.
+ * @param player The player
+ */
+export function sendInventoryUpdate(player: Player): void {
+  try {
+    player.ui.sendData({ type: 'update-inventory', payload: buildInventoryUIPayload(player.id) });
+  } catch (error) {
+    console.error('Error sending inventory data:', error);
+  }
+}
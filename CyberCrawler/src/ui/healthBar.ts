@@ -12,6 +12,8 @@
  */
 
 import { SceneUI, World, Entity } from 'hytopia';
+import { StatusEffectSummary } from '../combat/status-effect-types';
+import { ComboSummary } from '../combat/combo-manager';
 
 export class HealthBar {
   private sceneUI: SceneUI;
@@ -27,6 +29,9 @@ export class HealthBar {
       state: {
         health: initialHealth,
         maxHealth: maxHealth,
+        effects: [],
+        combo: 0,
+        comboMultiplier: 1,
       },
       viewDistance: 20,
     });
@@ -58,6 +63,27 @@ export class HealthBar {
       maxHealth: max,
     });
   }
+
+  /**
+   * Update the status effect icons shown under the health bar.
+   * @param effects Summaries of the entity's active effects
+   */
+  public setStatusEffects(effects: StatusEffectSummary[]): void {
+    this.sceneUI.setState({
+      effects: effects.map(effect => ({ id: effect.id, name: effect.name, stacks: effect.stacks, isDebuff: effect.isDebuff })),
+    });
+  }
+
+  /**
+   * Update the combo counter shown above the health bar.
+   * @param combo Summary of the entity's current hit chain
+   */
+  public setCombo(combo: ComboSummary): void {
+    this.sceneUI.setState({
+      combo: combo.count,
+      comboMultiplier: combo.multiplier,
+    });
+  }
 }
 
 export default HealthBar;
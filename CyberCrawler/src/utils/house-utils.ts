@@ -2,7 +2,8 @@
  * house-utils.ts - Utility functions for player house location and related logic
  *
  * Provides a centralized way to calculate the world position of the player house door or center.
- * Used by both world generation and AI systems to ensure consistency.
+ * Used by both world generation and AI systems to ensure consistency. AI code reads
+ * the cached layout (getPlayerHouseLayout) instead of recomputing it every tick.
  *
  * Dependencies:
  * - WORLD_ORIGIN, WORLD_AREAS from ../../constants/world-config
@@ -23,6 +24,24 @@ import { findGroundHeight } from './terrain-utils';
 import { BLOCK_TYPES, BLOCK_CATEGORIES } from '../constants/block-types';
 import { BlockHealthManager } from '../world/block-health-manager';
 
+// House footprint, matching buildMainHouse in /src/world/areas/player-house/house-structure.ts
+const HOUSE_WIDTH = 14;
+const HOUSE_DEPTH = 12;
+const HOUSE_HEIGHT = 7;
+const HOUSE_ROOF_OVERHANG = 1;
+
+/**
+ * Where the player house stands. The house never moves, so the layout is computed
+ * once per world (after generation) and cached; see getPlayerHouseLayout().
+ */
+export interface PlayerHouseLayout {
+  door: { x: number, y: number, z: number };   // Door position (see getPlayerHouseDoorPosition)
+  floorY: number;                               // Ground height at the house corner, as used by buildMainHouse
+  bounds: { min: Vector3Like, max: Vector3Like }; // Blocks of the walls and roof (inclusive), above the floor
+}
+
+const houseLayouts: WeakMap<World, PlayerHouseLayout> = new WeakMap();
+
 /**
  * Returns the world position of the player house door.
  *
@@ -38,19 +57,17 @@ import { BlockHealthManager } from '../world/block-health-manager';
  */
 export function getPlayerHouseDoorPosition(world: World): { x: number, y: number, z: number } {
   const area = WORLD_AREAS.PLAYER_HOUSE;
-  const houseWidth = 14;
-  const houseDepth = 12;
 
   // Calculate center position for the house
   const centerX = WORLD_ORIGIN.X + area.startX + area.width / 2;
   const centerZ = WORLD_ORIGIN.Z + area.startZ + area.depth / 2;
 
   // Calculate house corner
-  const houseStartZ = centerZ - houseDepth / 2;
+  const houseStartZ = centerZ - HOUSE_DEPTH / 2;
 
   // Door is centered on X, at the front wall (max Z)
   const doorX = centerX;
-  const doorZ = houseStartZ + houseDepth - 1;
+  const doorZ = houseStartZ + HOUSE_DEPTH - 1;
 
   // Y is set to the actual ground/floor height at the door
   const doorY = findGroundHeight(world, doorX, doorZ) + 1;
@@ -58,6 +75,64 @@ export function getPlayerHouseDoorPosition(world: World): { x: number, y: number
   return { x: doorX, y: doorY, z: doorZ };
 }
 
+/**
+ * Returns the cached layout of the player house, computing it on first use.
+ * Only call this after the world has been generated; per-tick callers (enemy AI)
+ * should use this instead of recomputing ground heights every tick.
+ *
+ * @param {World} world - The game world instance
+ * @returns {PlayerHouseLayout} The door position and floor height
+ */
+export function getPlayerHouseLayout(world: World): PlayerHouseLayout {
+  let layout = houseLayouts.get(world);
+  if (!layout) {
+    const area = WORLD_AREAS.PLAYER_HOUSE;
+    const houseStartX = WORLD_ORIGIN.X + area.startX + area.width / 2 - HOUSE_WIDTH / 2;
+    const houseStartZ = WORLD_ORIGIN.Z + area.startZ + area.depth / 2 - HOUSE_DEPTH / 2;
+
+    const floorY = findGroundHeight(world, houseStartX, houseStartZ);
+    const roofHeight = Math.ceil((HOUSE_WIDTH + HOUSE_ROOF_OVERHANG * 2) / 2);
+
+    layout = {
+      door: getPlayerHouseDoorPosition(world),
+      floorY,
+      bounds: {
+        min: { x: houseStartX - HOUSE_ROOF_OVERHANG, y: floorY + 1, z: houseStartZ - HOUSE_ROOF_OVERHANG },
+        max: {
+          x: houseStartX + HOUSE_WIDTH - 1 + HOUSE_ROOF_OVERHANG,
+          y: floorY + HOUSE_HEIGHT + roofHeight - 1,
+          z: houseStartZ + HOUSE_DEPTH - 1 + HOUSE_ROOF_OVERHANG,
+        },
+      },
+    };
+    houseLayouts.set(world, layout);
+  }
+  return layout;
+}
+
+/**
+ * Sums the remaining health of the player house's destructible blocks (walls, roof,
+ * windows and interior; the floor is left out, as enemies never break it). Blocks
+ * players add inside the house's bounds count too.
+ *
+ * @param {World} world - The game world instance
+ * @returns {number} The total health of the house's blocks
+ */
+export function getPlayerHouseBlockHealth(world: World): number {
+  const { min, max } = getPlayerHouseLayout(world).bounds;
+  let total = 0;
+
+  for (let x = min.x; x <= max.x; x++) {
+    for (let y = min.y; y <= max.y; y++) {
+      for (let z = min.z; z <= max.z; z++) {
+        total += BlockHealthManager.instance.getBlockHealth({ x, y, z }) ?? 0;
+      }
+    }
+  }
+
+  return total;
+}
+
 /**
  * Finds the nearest destructible block to a given position.
  *
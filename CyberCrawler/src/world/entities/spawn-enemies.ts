@@ -2,42 +2,39 @@
  * Enemy spawning utilities for CyberCrawler
  * 
  * Functions to spawn enemies at positions, in areas, or periodically.
+ * Random spawns pick their archetype by spawn weight (see enemy-registry.ts).
  * 
  * Dependencies:
  * - HYTOPIA SDK World
- * - BasicEnemyEntity and EnemyController
+ * - Enemy factory and registry
  * 
  * @author Cline
  */
 
-import { World, SimpleEntityController, EntityEvent } from 'hytopia'; // Re-add SimpleEntityController, EntityEvent imports
-import BasicEnemyEntity from '../../entities/enemies/basicEnemy';
-import { EnemyController } from '../../entities/enemies/enemyController';
+import { World } from 'hytopia';
+import EnemyEntity from '../../entities/enemies/enemy-entity';
+import { createEnemy } from '../../entities/enemies/enemy-factory';
+import { pickRandomEnemy } from '../../entities/enemies/enemy-registry';
+import { ENEMY_CONFIG } from '../../constants/enemy-config';
 
 /**
  * Spawn a single enemy at a specific position.
  * @param world The HYTOPIA world instance
  * @param position The spawn position { x, y, z }
+ * @param archetypeId The enemy archetype (defaults to ENEMY_CONFIG.DEFAULT_ARCHETYPE_ID)
+ * @returns The spawned enemy, or undefined if the archetype is unknown
  */
-export function spawnEnemyAt(world: World, position: { x: number; y: number; z: number }): void {
-  const enemy = new BasicEnemyEntity();
-  // Attach SimpleEntityController as the main controller for movement
-  const movementController = new SimpleEntityController();
-  enemy.setController(movementController);
-  // Create and store the AI controller instance separately
-  const aiController = new EnemyController();
-  (enemy as any).aiController = aiController; // Store reference for the tick handler
-
-  enemy.spawn(world, position);
-
-  // Attach the AI tick logic to the enemy's tick event
-  enemy.on(EntityEvent.TICK, ({ tickDeltaMs }) => {
-    // Ensure the AI controller and its tick method exist before calling
-    if ((enemy as any).aiController?.tick) {
-      (enemy as any).aiController.tick(enemy, tickDeltaMs);
-    }
-  });
+export function spawnEnemyAt(
+  world: World,
+  position: { x: number; y: number; z: number },
+  archetypeId: string = ENEMY_CONFIG.DEFAULT_ARCHETYPE_ID
+): EnemyEntity | undefined {
+  const enemy = createEnemy(archetypeId);
+  if (!enemy) return undefined;
+
+  enemy.entity.spawn(world, position);
   // Removed post-spawn adjustment - let gravity handle placement
+  return enemy.entity;
 }
 
 /**
@@ -45,13 +42,16 @@ export function spawnEnemyAt(world: World, position: { x: number; y: number; z:
  * @param world The HYTOPIA world instance
  * @param area Bounding box with min/max coordinates
  * @param count Number of enemies to spawn
+ * @param archetypeId The enemy archetype, or undefined to pick one per enemy by spawn weight
  */
 export function spawnEnemiesInArea(
   world: World,
   area: { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } },
-  count: number
+  count: number,
+  archetypeId?: string
 ): void {
   for (let i = 0; i < count; i++) {
+    const archetype = archetypeId ?? pickRandomEnemy()?.id ?? ENEMY_CONFIG.DEFAULT_ARCHETYPE_ID;
     let attempts = 0;
     let spawned = false;
 
@@ -107,7 +107,7 @@ export function spawnEnemiesInArea(
       // Example: if (blockType.id === BLOCK_TYPES.WATER) continue;
 
       console.log(`[Spawn Attempt ${attempts}] Spawning enemy at: ${JSON.stringify(pos)}`);
-      spawnEnemyAt(world, pos);
+      spawnEnemyAt(world, pos, archetype);
       spawned = true;
     } // End of while loop
 
@@ -143,7 +143,7 @@ export function spawnEnemiesInArea(
         z: fallbackZ,
       };
       console.log(`[Spawn Fallback] Spawning enemy at: ${JSON.stringify(finalFallbackPos)}`); // Log fallback spawn position
-      spawnEnemyAt(world, finalFallbackPos); // Call spawn with the final position
+      spawnEnemyAt(world, finalFallbackPos, archetype); // Call spawn with the final position
     }
   } // End of for loop
 } // End of spawnEnemiesInArea function
@@ -0,0 +1,413 @@
+/**
+ * Raid Director - Timed enemy waves against the player house
+ *
+ * A raid alternates build phases and waves. A build phase gives players time to
+ * repair and fortify the house; when it runs out the next wave starts. A wave's size
+ * and composition grow with the wave number and with the number of connected players:
+ * later waves bring more raiders and mix in tougher archetypes (RAID_CONFIG.COMPOSITION).
+ * Raiders come from a few spawn points along the edge of the map, in groups, and head
+ * for the house. A wave ends when all its raiders are dead, or when its time limit runs
+ * out and the survivors retreat. Surviving the last wave wins the raid; the raid is lost
+ * when the house's remaining block health (see getPlayerHouseBlockHealth) falls to
+ * RAID_CONFIG.LOSE_HOUSE_HEALTH_FRACTION of what it had when the raid started.
+ * Players receive a 'raid' UI event every second, which drives the raid HUD (phase,
+ * countdown, raiders left and house health). Only the raid leader and admins may
+ * restart, stop or speed up the raid (see canControl).
+ *
+ * Dependencies:
+ * - HYTOPIA SDK (World, Player, Vector3Like, WorldLoopEvent)
+ * - EnemyEntity and the enemy registry from ../entities/enemies
+ * - spawnEnemyAt from ./entities/spawn-enemies
+ * - Wave sizing and composition from ./raid-waves
+ * - House and terrain helpers from ../utils
+ * - isPlayerAdmin from ../player/playerController
+ * - RAID_CONFIG from ../constants/raid-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// HYTOPIA SDK imports
+import { Player, Vector3Like, World, WorldLoopEvent } from 'hytopia';
+
+// Project modules
+import EnemyEntity from '../entities/enemies/enemy-entity';
+import { getEnemyDefinition } from '../entities/enemies/enemy-registry';
+import { spawnEnemyAt } from './entities/spawn-enemies';
+import { getRaidDifficulty, getWaveSize, pickRaidArchetype } from './raid-waves';
+import { getPlayerHouseBlockHealth, getPlayerHouseLayout } from '../utils/house-utils';
+import { findGroundHeight } from '../utils/terrain-utils';
+import { isPlayerAdmin } from '../player/playerController';
+import { WORLD_ORIGIN, WORLD_SIZE } from '../constants/world-config';
+import { RAID_CONFIG } from '../constants/raid-config';
+
+/**
+ * Where a raid stands.
+ */
+export enum RaidPhase {
+  WAITING = 'waiting',   // No raid running (no players yet, or stopped)
+  BUILD = 'build',       // Between waves
+  WAVE = 'wave',
+  VICTORY = 'victory',
+  DEFEAT = 'defeat',
+}
+
+/**
+ * UI-friendly snapshot of the raid.
+ */
+export interface RaidStatus {
+  phase: RaidPhase;
+  wave: number;              // Current wave, or the last one during a build phase (0 before the first)
+  totalWaves: number;
+  remainingMs: number;       // Until the build phase ends or the wave's time limit runs out
+  enemiesRemaining: number;  // Raiders alive plus those still to spawn
+  houseHealth: number;       // Remaining house block health, as a fraction of the raid's start
+  loseAt: number;            // houseHealth at which the raid is lost
+}
+
+export class RaidDirector {
+  private static _instance: RaidDirector;
+  private world: World | null = null;
+  private phase: RaidPhase = RaidPhase.WAITING;
+  private wave: number = 0;
+  private phaseEndsAt: number = 0;
+  private raiders: Set<EnemyEntity> = new Set();
+  private spawnQueue: string[] = [];             // Archetype IDs of the wave's raiders still to spawn
+  private nextSpawnAt: number = 0;
+  private waveSpawnPoints: Vector3Like[] = [];
+  private spawnPoints: Vector3Like[] | null = null; // Computed on first use (x and z only)
+  private initialHouseHealth: number = 0;
+  private houseHealth: number = 1;
+  private lastHudUpdateAt: number = 0;
+  private leaderId: string | null = null;          // Player who may control the raid (besides admins)
+  private initialized: boolean = false;
+
+  private constructor() {} // Private constructor for singleton
+
+  /**
+   * Get the singleton instance of the RaidDirector.
+   */
+  public static get instance(): RaidDirector {
+    if (!RaidDirector._instance) {
+      RaidDirector._instance = new RaidDirector();
+    }
+    return RaidDirector._instance;
+  }
+
+  /**
+   * Hooks the director into the world loop. The raid itself starts with start().
+   * Should be called once when the server starts, after world generation.
+   * @param world The Hytopia world instance
+   */
+  public initialize(world: World): void {
+    if (this.initialized) return;
+    this.initialized = true;
+    this.world = world;
+
+    world.loop.on(WorldLoopEvent.TICK_START, () => this.tick());
+
+    console.log('[RaidDirector] Initialized.');
+  }
+
+  // ====================================
+  // Raid control
+  // ====================================
+
+  /**
+   * Starts a new raid from the first build phase, ending any raid in progress.
+   * The house's block health at this point is what the lose condition compares against.
+   */
+  public start(): void {
+    if (!this.world) return;
+
+    this.despawnRaiders();
+    this.wave = 0;
+    this.initialHouseHealth = getPlayerHouseBlockHealth(this.world);
+    this.houseHealth = 1;
+    this.startBuildPhase(RAID_CONFIG.FIRST_BUILD_PHASE_MS);
+    this.announce(`Raiders are coming! ${this.formatDuration(RAID_CONFIG.FIRST_BUILD_PHASE_MS)} to fortify the house.`, 'FFAA00');
+    console.log(`[RaidDirector] Raid started (house block health ${this.initialHouseHealth}).`);
+  }
+
+  /**
+   * Stops the raid in progress and removes its raiders.
+   */
+  public stop(): void {
+    this.despawnRaiders();
+    this.phase = RaidPhase.WAITING;
+    this.sendHud();
+    console.log('[RaidDirector] Raid stopped.');
+  }
+
+  /**
+   * Ends the current build phase early, starting the next wave.
+   * @returns Whether a build phase was skipped
+   */
+  public skipBuildPhase(): boolean {
+    if (this.phase !== RaidPhase.BUILD) return false;
+    this.phaseEndsAt = Date.now();
+    return true;
+  }
+
+  /**
+   * Checks whether a player may start, stop or skip ahead in the raid, or toggle
+   * server-wide PvP: the raid leader (the player who started the raid, passed on when
+   * they leave) and admins (see isPlayerAdmin) may.
+   * @param player The player
+   */
+  public canControl(player: Player): boolean {
+    return player.id === this.leaderId || isPlayerAdmin(player);
+  }
+
+  /**
+   * Makes a joining player the raid leader if there is none.
+   * @param player The player joining
+   */
+  public addPlayer(player: Player): void {
+    if (!this.leaderId) this.leaderId = player.id;
+  }
+
+  /**
+   * Passes leadership on to another connected player when the leader leaves.
+   * @param playerId The ID of the player leaving
+   */
+  public removePlayer(playerId: string): void {
+    if (playerId !== this.leaderId) return;
+    const next = this.world?.entityManager.getAllPlayerEntities().find(entity => entity.player.id !== playerId);
+    this.leaderId = next?.player.id ?? null;
+  }
+
+  /**
+   * Whether a raid is running (in a build phase or a wave).
+   */
+  public isRunning(): boolean {
+    return this.phase === RaidPhase.BUILD || this.phase === RaidPhase.WAVE;
+  }
+
+  // ====================================
+  // Status and HUD
+  // ====================================
+
+  /**
+   * Gets a snapshot of the raid.
+   */
+  public getStatus(): RaidStatus {
+    return {
+      phase: this.phase,
+      wave: this.wave,
+      totalWaves: RAID_CONFIG.TOTAL_WAVES,
+      remainingMs: this.isRunning() ? Math.max(0, this.phaseEndsAt - Date.now()) : 0,
+      enemiesRemaining: this.raiders.size + this.spawnQueue.length,
+      houseHealth: this.houseHealth,
+      loseAt: RAID_CONFIG.LOSE_HOUSE_HEALTH_FRACTION,
+    };
+  }
+
+  /**
+   * Sends the raid status to one player's HUD (e.g., after the HUD was reloaded).
+   * @param player The player
+   */
+  public refreshHud(player: Player): void {
+    player.ui.sendData({ type: 'raid', payload: this.getStatus() });
+  }
+
+  // ====================================
+  // Internal helpers
+  // ====================================
+
+  /**
+   * Runs every tick: advances phases, spawns raiders and checks the house.
+   */
+  private tick(): void {
+    if (!this.world || !this.isRunning()) return;
+    const now = Date.now();
+
+    if (this.world.entityManager.getAllPlayerEntities().length === 0) {
+      console.log('[RaidDirector] All players left.');
+      this.stop();
+      return;
+    }
+
+    if (this.phase === RaidPhase.BUILD && now >= this.phaseEndsAt) {
+      this.startWave(now);
+    } else if (this.phase === RaidPhase.WAVE) {
+      this.updateWave(now);
+    }
+
+    if (now - this.lastHudUpdateAt < RAID_CONFIG.HUD_UPDATE_INTERVAL_MS) return;
+    this.lastHudUpdateAt = now;
+
+    if (this.initialHouseHealth > 0) {
+      this.houseHealth = Math.min(1, getPlayerHouseBlockHealth(this.world) / this.initialHouseHealth);
+      if (this.isRunning() && this.houseHealth <= RAID_CONFIG.LOSE_HOUSE_HEALTH_FRACTION) {
+        this.end(RaidPhase.DEFEAT, `The house has fallen on wave ${this.wave}. The raid is lost!`, 'FF3300');
+      }
+    }
+    this.sendHud();
+  }
+
+  private startBuildPhase(durationMs: number): void {
+    this.phase = RaidPhase.BUILD;
+    this.phaseEndsAt = Date.now() + durationMs;
+    this.sendHud();
+  }
+
+  /**
+   * Starts the next wave, sized and composed for the players connected right now.
+   */
+  private startWave(now: number): void {
+    const players = Math.max(1, this.world!.entityManager.getAllPlayerEntities().length);
+    this.wave++;
+
+    const size = getWaveSize(this.wave, players);
+    const difficulty = getRaidDifficulty(this.wave, players);
+    this.spawnQueue = [];
+    for (let i = 0; i < size; i++) {
+      this.spawnQueue.push(pickRaidArchetype(difficulty, archetypeId => !!getEnemyDefinition(archetypeId)));
+    }
+
+    this.waveSpawnPoints = this.pickSpawnPoints();
+    this.phase = RaidPhase.WAVE;
+    this.phaseEndsAt = now + RAID_CONFIG.WAVE_TIME_LIMIT_MS;
+    this.nextSpawnAt = now;
+
+    this.announce(`Wave ${this.wave}/${RAID_CONFIG.TOTAL_WAVES}: ${size} raiders incoming!`, 'FF6600');
+    console.log(`[RaidDirector] Wave ${this.wave} started: ${size} raiders for ${players} player(s) (${this.spawnQueue.join(', ')}).`);
+    this.sendHud();
+  }
+
+  /**
+   * Spawns the next group of raiders when it is due, and ends the wave once it is
+   * cleared or out of time.
+   */
+  private updateWave(now: number): void {
+    for (const raider of this.raiders) {
+      if (!raider.isSpawned || raider.isDead()) this.raiders.delete(raider);
+    }
+
+    if (this.spawnQueue.length > 0 && now >= this.nextSpawnAt) {
+      this.nextSpawnAt = now + RAID_CONFIG.SPAWN_INTERVAL_MS;
+      const room = RAID_CONFIG.MAX_ENEMIES_ALIVE - this.raiders.size;
+      const count = Math.min(RAID_CONFIG.SPAWN_GROUP_SIZE, room, this.spawnQueue.length);
+      for (let i = 0; i < count; i++) {
+        this.spawnRaider(this.spawnQueue.shift()!);
+      }
+    }
+
+    if (this.spawnQueue.length === 0 && this.raiders.size === 0) {
+      this.endWave(`Wave ${this.wave} cleared!`);
+    } else if (now >= this.phaseEndsAt) {
+      this.despawnRaiders();
+      this.endWave(`Wave ${this.wave} survived, the remaining raiders retreat.`);
+    }
+  }
+
+  private endWave(message: string): void {
+    console.log(`[RaidDirector] Wave ${this.wave} ended.`);
+    if (this.wave >= RAID_CONFIG.TOTAL_WAVES) {
+      this.end(RaidPhase.VICTORY, `All ${RAID_CONFIG.TOTAL_WAVES} waves survived. The house stands!`, '00FF66');
+      return;
+    }
+
+    this.announce(`${message} ${this.formatDuration(RAID_CONFIG.BUILD_PHASE_MS)} until the next wave.`, '00CCFF');
+    this.startBuildPhase(RAID_CONFIG.BUILD_PHASE_MS);
+  }
+
+  private end(phase: RaidPhase.VICTORY | RaidPhase.DEFEAT, message: string, color: string): void {
+    this.despawnRaiders();
+    this.phase = phase;
+    this.announce(message, color);
+    console.log(`[RaidDirector] Raid ended: ${phase} on wave ${this.wave}.`);
+    this.sendHud();
+  }
+
+  private spawnRaider(archetypeId: string): void {
+    const point = this.waveSpawnPoints[Math.floor(Math.random() * this.waveSpawnPoints.length)];
+    const x = point.x + (Math.random() * 2 - 1) * RAID_CONFIG.SPAWN_SCATTER;
+    const z = point.z + (Math.random() * 2 - 1) * RAID_CONFIG.SPAWN_SCATTER;
+    const position = { x, y: findGroundHeight(this.world!, Math.floor(x), Math.floor(z)) + 1, z };
+
+    const raider = spawnEnemyAt(this.world!, position, archetypeId);
+    if (raider) {
+      this.raiders.add(raider);
+    } else {
+      console.warn(`[RaidDirector] Could not spawn raider "${archetypeId}".`);
+    }
+  }
+
+  private despawnRaiders(): void {
+    for (const raider of this.raiders) {
+      if (raider.isSpawned) raider.despawn();
+    }
+    this.raiders.clear();
+    this.spawnQueue = [];
+  }
+
+  /**
+   * Picks the spawn points a wave comes from.
+   */
+  private pickSpawnPoints(): Vector3Like[] {
+    const points = [...this.getSpawnPoints()];
+    const picked: Vector3Like[] = [];
+    while (picked.length < RAID_CONFIG.SPAWN_POINTS_PER_WAVE && points.length > 0) {
+      picked.push(points.splice(Math.floor(Math.random() * points.length), 1)[0]);
+    }
+    return picked;
+  }
+
+  /**
+   * Spawn points evenly spaced along the edge of the map, leaving out those too far
+   * from the house (all of them if none are close enough).
+   */
+  private getSpawnPoints(): Vector3Like[] {
+    if (this.spawnPoints) return this.spawnPoints;
+
+    const inset = RAID_CONFIG.SPAWN_EDGE_INSET;
+    const minX = WORLD_ORIGIN.X + inset;
+    const minZ = WORLD_ORIGIN.Z + inset;
+    const width = WORLD_SIZE.WIDTH - inset * 2;
+    const depth = WORLD_SIZE.DEPTH - inset * 2;
+    const perimeter = (width + depth) * 2;
+
+    const edgePoints: Vector3Like[] = [];
+    for (let i = 0; i < RAID_CONFIG.SPAWN_POINT_COUNT; i++) {
+      // Walk the edge: north (along +X), east (+Z), south (-X), west (-Z)
+      let distance = (i / RAID_CONFIG.SPAWN_POINT_COUNT) * perimeter;
+      let point: Vector3Like;
+      if (distance < width) {
+        point = { x: minX + distance, y: 0, z: minZ };
+      } else if ((distance -= width) < depth) {
+        point = { x: minX + width, y: 0, z: minZ + distance };
+      } else if ((distance -= depth) < width) {
+        point = { x: minX + width - distance, y: 0, z: minZ + depth };
+      } else {
+        point = { x: minX, y: 0, z: minZ + depth - (distance - width) };
+      }
+      edgePoints.push(point);
+    }
+
+    const door = getPlayerHouseLayout(this.world!).door;
+    const nearby = edgePoints.filter(point =>
+      Math.hypot(point.x - door.x, point.z - door.z) <= RAID_CONFIG.MAX_SPAWN_DISTANCE
+    );
+    this.spawnPoints = nearby.length > 0 ? nearby : edgePoints;
+    console.log(`[RaidDirector] ${this.spawnPoints.length} spawn points along the map edge.`);
+    return this.spawnPoints;
+  }
+
+  private sendHud(): void {
+    if (!this.world) return;
+    const status = this.getStatus();
+    for (const playerEntity of this.world.entityManager.getAllPlayerEntities()) {
+      playerEntity.player.ui.sendData({ type: 'raid', payload: status });
+    }
+  }
+
+  private announce(message: string, color: string): void {
+    this.world?.chatManager.sendBroadcastMessage(message, color);
+  }
+
+  private formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} minute(s)` : `${seconds} seconds`;
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+
+import { getArchetypeWeights, getRaidDifficulty, getWaveSize, pickRaidArchetype } from './raid-waves';
+import { RAID_CONFIG } from '../constants/raid-config';
+
+const [FIRST, LATER] = RAID_CONFIG.COMPOSITION; // Joins on wave 1, joins later
+
+/** Picks many archetypes with evenly spread rolls and counts each. */
+function countPicks(difficulty: number, rolls: number = 1000): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < rolls; i++) {
+    const archetypeId = pickRaidArchetype(difficulty, undefined, () => i / rolls);
+    counts.set(archetypeId, (counts.get(archetypeId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+describe('getWaveSize', () => {
+  test('starts at the base size for one player', () => {
+    expect(getWaveSize(1, 1)).toBe(RAID_CONFIG.BASE_ENEMIES);
+  });
+
+  test('grows by ENEMIES_PER_WAVE every wave', () => {
+    for (let wave = 1; wave < RAID_CONFIG.TOTAL_WAVES; wave++) {
+      expect(getWaveSize(wave + 1, 1) - getWaveSize(wave, 1)).toBe(RAID_CONFIG.ENEMIES_PER_WAVE);
+    }
+  });
+
+  test('scales with the number of players', () => {
+    const solo = getWaveSize(4, 1);
+    expect(getWaveSize(4, 3)).toBe(Math.round(solo * (1 + RAID_CONFIG.ENEMIES_PER_EXTRA_PLAYER * 2)));
+    expect(getWaveSize(4, 2)).toBeGreaterThan(solo);
+  });
+
+  test('treats no players as one', () => {
+    expect(getWaveSize(3, 0)).toBe(getWaveSize(3, 1));
+  });
+});
+
+describe('getRaidDifficulty', () => {
+  test('is the wave number for one player', () => {
+    expect(getRaidDifficulty(1, 1)).toBe(1);
+    expect(getRaidDifficulty(7, 1)).toBe(7);
+  });
+
+  test('goes up with every extra player', () => {
+    expect(getRaidDifficulty(2, 3)).toBe(2 + RAID_CONFIG.EXTRA_PLAYER_DIFFICULTY * 2);
+    expect(getRaidDifficulty(2, 0)).toBe(2);
+  });
+});
+
+describe('wave composition', () => {
+  test('only rolls the first archetype before later ones join', () => {
+    const difficulty = LATER.fromWave - 0.5;
+    expect(getArchetypeWeights(difficulty).map(entry => entry.archetypeId)).toEqual([FIRST.archetypeId]);
+    expect(countPicks(difficulty).get(FIRST.archetypeId)).toBe(1000);
+  });
+
+  test('mixes in a later archetype from its wave, with weight growing after that', () => {
+    const weightAt = (difficulty: number) =>
+      getArchetypeWeights(difficulty).find(entry => entry.archetypeId === LATER.archetypeId)?.weight;
+
+    expect(weightAt(LATER.fromWave)).toBe(LATER.weight);
+    expect(weightAt(LATER.fromWave + 2)).toBeCloseTo(LATER.weight + LATER.weightPerWave * 2);
+  });
+
+  test('picks archetypes in proportion to their weights', () => {
+    const difficulty = RAID_CONFIG.TOTAL_WAVES;
+    const weights = getArchetypeWeights(difficulty);
+    const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+    const counts = countPicks(difficulty);
+
+    for (const { archetypeId, weight } of weights) {
+      expect(counts.get(archetypeId)! / 1000).toBeCloseTo(weight / total, 2);
+    }
+  });
+
+  test('brings later archetypes in sooner with more players', () => {
+    const wave = LATER.fromWave - 1;
+    const solo = countPicks(getRaidDifficulty(wave, 1)).get(LATER.archetypeId) ?? 0;
+    const group = countPicks(getRaidDifficulty(wave, 3)).get(LATER.archetypeId) ?? 0;
+    expect(solo).toBe(0);
+    expect(group).toBeGreaterThan(0);
+  });
+
+  test('skips archetypes that are not available', () => {
+    const isAvailable = (archetypeId: string) => archetypeId !== FIRST.archetypeId;
+    expect(pickRaidArchetype(RAID_CONFIG.TOTAL_WAVES, isAvailable, () => 0)).toBe(LATER.archetypeId);
+  });
+
+  test('falls back to the first archetype when none may join', () => {
+    expect(pickRaidArchetype(RAID_CONFIG.TOTAL_WAVES, () => false)).toBe(FIRST.archetypeId);
+  });
+});
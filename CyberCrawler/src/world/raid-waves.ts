@@ -0,0 +1,87 @@
+/**
+ * Raid Waves - Size and composition of raid waves
+ *
+ * How many raiders a wave brings and which archetypes they are, for a wave number
+ * and player count (see RAID_CONFIG). The RaidDirector (./raid-director.ts) rolls
+ * each wave with these; they take no world state, so they can be tested on their own.
+ *
+ * Dependencies:
+ * - RAID_CONFIG from ../constants/raid-config
+ *
+ * @author CyberCrawler Team
+ */
+
+// Project modules
+import { RAID_CONFIG } from '../constants/raid-config';
+
+/**
+ * An archetype a wave may roll, with its weight.
+ */
+export interface RaidArchetypeWeight {
+  archetypeId: string;
+  weight: number;
+}
+
+/**
+ * Gets the number of raiders in a wave.
+ * @param wave The wave number (1 for the first)
+ * @param players The number of connected players (at least 1 is assumed)
+ */
+export function getWaveSize(wave: number, players: number): number {
+  const extraPlayers = Math.max(1, players) - 1;
+  return Math.round(
+    (RAID_CONFIG.BASE_ENEMIES + RAID_CONFIG.ENEMIES_PER_WAVE * (wave - 1)) *
+    (1 + RAID_CONFIG.ENEMIES_PER_EXTRA_PLAYER * extraPlayers)
+  );
+}
+
+/**
+ * Gets the difficulty a wave's composition is rolled at: the wave number plus
+ * RAID_CONFIG.EXTRA_PLAYER_DIFFICULTY for every player after the first.
+ * @param wave The wave number (1 for the first)
+ * @param players The number of connected players (at least 1 is assumed)
+ */
+export function getRaidDifficulty(wave: number, players: number): number {
+  return wave + RAID_CONFIG.EXTRA_PLAYER_DIFFICULTY * (Math.max(1, players) - 1);
+}
+
+/**
+ * Gets the archetypes of RAID_CONFIG.COMPOSITION that may join at a difficulty, with their weights.
+ * @param difficulty The raid difficulty (see getRaidDifficulty)
+ * @param isAvailable Filters out archetypes that are not registered
+ */
+export function getArchetypeWeights(
+  difficulty: number,
+  isAvailable: (archetypeId: string) => boolean = () => true
+): RaidArchetypeWeight[] {
+  return RAID_CONFIG.COMPOSITION
+    .filter(entry => difficulty >= entry.fromWave && isAvailable(entry.archetypeId))
+    .map(entry => ({
+      archetypeId: entry.archetypeId,
+      weight: entry.weight + entry.weightPerWave * (difficulty - entry.fromWave),
+    }))
+    .filter(entry => entry.weight > 0);
+}
+
+/**
+ * Picks a raider archetype, weighted by RAID_CONFIG.COMPOSITION at a difficulty.
+ * Falls back to the first archetype in the composition if none may join.
+ * @param difficulty The raid difficulty (see getRaidDifficulty)
+ * @param isAvailable Filters out archetypes that are not registered
+ * @param random Returns a number in [0, 1)
+ */
+export function pickRaidArchetype(
+  difficulty: number,
+  isAvailable: (archetypeId: string) => boolean = () => true,
+  random: () => number = Math.random
+): string {
+  const candidates = getArchetypeWeights(difficulty, isAvailable);
+  if (candidates.length === 0) return RAID_CONFIG.COMPOSITION[0].archetypeId;
+
+  let roll = random() * candidates.reduce((sum, entry) => sum + entry.weight, 0);
+  for (const entry of candidates) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.archetypeId;
+  }
+  return candidates[candidates.length - 1].archetypeId;
+}